@@ -1,12 +1,100 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppScreen, UserProfile, Message, CallState } from './types';
-import { cryptoService } from './services/crypto';
-import { signalingService } from './services/signaling';
+import { MediaConnection } from 'peerjs';
+import { AppScreen, UserProfile, Message, MessageStatus, Group, DeviceInfo, AttachmentKind, TransferProgress, CallState, NetworkStats, NetworkConfig, ConnectionStatus, Presence, IdentityKeys, TrustedIdentity, Contact, Conversation, Preferences } from './types';
+import { cryptoService, DecryptionError } from './services/crypto';
+import { signalingService, SignalingHandlers } from './services/signaling';
+import { ratchetService } from './services/ratchet';
+import { trustService, TrustStatus } from './services/trust';
+import { storageService, StoredMessage, VaultError } from './services/storage';
+import { conversationService, describeMessage } from './services/conversations';
+import { attachmentService, parseAttachment, isPreviewable, AttachmentError } from './services/attachments';
+import { preferencesService, DEFAULT_PREFERENCES } from './services/preferences';
+import { outboxService } from './services/outbox';
+import { callService, IDLE_CALL } from './services/calls';
+import { presenceService } from './services/presence';
+import { typingService } from './services/typing';
+import { expiryService, ExpiryEntry } from './services/expiry';
+import { groupService, GroupControl, GroupError, parseGroupControl, isGroupId } from './services/groups';
+import { deviceService, DeviceError, deviceAddress, parseAddress } from './services/devices';
+import { DISAPPEARING_OPTIONS, formatTimer, formatCountdown, encodeSystemEvent, parseSystemEvent, describeSystemEvent } from './services/system';
+import { networkConfigService, NetworkConfigError, DEFAULT_NETWORK_CONFIG, formatIceServers, parseIceServers } from './services/network';
+import { backupService, BackupError, BACKUP_EXTENSION } from './services/backup';
+import { contactService } from './services/contacts';
+import { profileService, ProfileCard, ProfileError, AvatarCrop, DEFAULT_CROP, MAX_DISPLAY_NAME_LENGTH, MAX_BIO_LENGTH, cropAvatar, withCard } from './services/profiles';
+import { searchService, SearchFilter, SearchResult } from './services/search';
+import { lockService, LockError, AUTO_LOCK_OPTIONS } from './services/lock';
+import { notificationService } from './services/notifications';
+import { updateService } from './services/updates';
+import { normalizeUsername, validateUsername } from './services/usernames';
+import { mutationService, Mutation, encodeMutation, parseMutation, REACTIONS } from './services/mutations';
+import { LinkRequestFrame } from './services/protocol';
 import { ICONS } from './constants';
 
 const getAvatarUrl = (seed: string) => `https://api.dicebear.com/7.x/pixel-art/svg?seed=${seed}`;
 
+const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+const formatLastSeen = (timestamp: number | null) => {
+  if (!timestamp) return 'Offline';
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes}m ago`;
+  if (minutes < 24 * 60) return `Last seen ${Math.floor(minutes / 60)}h ago`;
+  return `Last seen ${formatTimestamp(timestamp)}`;
+};
+
+const CONNECTION_LABELS: Record<ConnectionStatus['state'], { label: string; color: string }> = {
+  connecting: { label: 'Joining P2P Network', color: 'text-yellow-500' },
+  connected: { label: 'P2P Network Active', color: 'text-emerald-500' },
+  reconnecting: { label: 'Reconnecting', color: 'text-yellow-500' },
+  offline: { label: 'Offline', color: 'text-neutral-500' },
+  failed: { label: 'Not Connected', color: 'text-red-500' }
+};
+
+// Message ids are referenced by replies and mutations, so they must never collide
+const newMessageId = () => crypto.randomUUID();
+
+const STATUS_RANK: Record<MessageStatus, number> = { pending: 0, failed: 0, sent: 1, delivered: 2, read: 3 };
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Attaches a MediaStream to a <video>/<audio> element without restarting playback on re-render
+const bindStream = (stream: MediaStream | null) => (element: HTMLMediaElement | null) => {
+  if (element && element.srcObject !== stream) element.srcObject = stream;
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const QUALITY_COLORS: Record<NetworkStats['quality'], string> = {
+  Excellent: 'text-emerald-500',
+  Good: 'text-emerald-400',
+  Fair: 'text-yellow-500',
+  Poor: 'text-red-500'
+};
+
+const NETWORK_INPUT = 'bg-neutral-900 border border-neutral-800 rounded-2xl px-4 py-3 text-xs text-white placeholder-neutral-600 focus:outline-none focus:border-emerald-500/50';
+
+const HISTORY_PAGE_SIZE = 50;
+const CALL_ENDED_DISPLAY = 2000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Pre-vault installs kept the profile and keys in localStorage
+const LEGACY_USER_KEY = 'whisperline_current_user';
+const LEGACY_KEYS_KEY = 'whisperline_identity_keys';
+// Vaults created without a passphrase used to be sealed under a random one kept here; they move to a device key
+const LEGACY_DEVICE_PASSPHRASE_KEY = 'whisperline_device_passphrase';
+const AVAILABILITY_DELAY = 600;
+
 const App: React.FC = () => {
   const [currentScreen, setCurrentScreen] = useState<AppScreen>(AppScreen.ONBOARDING);
   const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
@@ -14,88 +102,1138 @@ const App: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<UserProfile[]>([]);
+  const [searchFilter, setSearchFilter] = useState<SearchFilter>({});
+  const [messageResults, setMessageResults] = useState<SearchResult[]>([]);
+  const [highlightedMessage, setHighlightedMessage] = useState<string | null>(null);
   const [decryptedMessages, setDecryptedMessages] = useState<Record<string, string>>({});
+  const [identities, setIdentities] = useState<Record<string, TrustedIdentity>>({});
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [hasMoreHistory, setHasMoreHistory] = useState<Record<string, boolean>>({});
+  const [usernameInput, setUsernameInput] = useState('');
+  const [onboardingStep, setOnboardingStep] = useState<'username' | 'keys' | 'passphrase'>('username');
+  const [availability, setAvailability] = useState<'checking' | 'available' | 'taken' | 'unknown' | null>(null);
+  const [draftIdentity, setDraftIdentity] = useState<{ username: string; keys: IdentityKeys; fingerprint: string } | null>(null);
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [vaultProtected, setVaultProtected] = useState(true);
+  const [passphraseInput, setPassphraseInput] = useState('');
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [authenticatorEnrolled, setAuthenticatorEnrolled] = useState(false);
+  const [authenticatorAvailable, setAuthenticatorAvailable] = useState(false);
+  const [lockPassphrase, setLockPassphrase] = useState('');
+  const [lockError, setLockError] = useState<string | null>(null);
+  const [lockBusy, setLockBusy] = useState(false);
+  const [lockPassphraseConfirm, setLockPassphraseConfirm] = useState('');
+  const [updateAvailable, setUpdateAvailable] = useState(false);
+  const [notificationError, setNotificationError] = useState<string | null>(null);
+  const [isLegacyInstall, setIsLegacyInstall] = useState(false);
+  const [conversations, setConversations] = useState<Record<string, Conversation>>({});
+  const [conversationMenu, setConversationMenu] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [pageVisible, setPageVisible] = useState(!document.hidden);
+  const [networkDraft, setNetworkDraft] = useState({ ...DEFAULT_NETWORK_CONFIG, port: String(DEFAULT_NETWORK_CONFIG.port), iceServers: formatIceServers(DEFAULT_NETWORK_CONFIG.iceServers) });
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(signalingService.getConnectionStatus());
+  const [presence, setPresence] = useState<Record<string, Presence>>({});
+  const [typingPeers, setTypingPeers] = useState<string[]>([]);
+  const [disappearingMenu, setDisappearingMenu] = useState(false);
+  const [transfers, setTransfers] = useState<Record<string, TransferProgress>>({});
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [recording, setRecording] = useState<{ recorder: MediaRecorder; startedAt: number } | null>(null);
+  const [groups, setGroups] = useState<Record<string, Group>>({});
+  const [groupDraft, setGroupDraft] = useState<{ name: string; members: string } | null>(null);
+  const [groupPanel, setGroupPanel] = useState(false);
+  const [memberDraft, setMemberDraft] = useState('');
+  const [groupError, setGroupError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<DeviceInfo[]>([]);
+  const [pairingCode, setPairingCode] = useState<string | null>(null);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const [onboardingMode, setOnboardingMode] = useState<'create' | 'link' | 'restore'>('create');
+  const [pairingInput, setPairingInput] = useState('');
+  const [deviceNameInput, setDeviceNameInput] = useState('');
+  const [linking, setLinking] = useState(false);
+  const [backupFile, setBackupFile] = useState<{ name: string; text: string } | null>(null);
+  const [backupPassphrase, setBackupPassphrase] = useState('');
+  const [backupBusy, setBackupBusy] = useState(false);
+  const [backupError, setBackupError] = useState<string | null>(null);
+  const [backupSaved, setBackupSaved] = useState(false);
+  const [profiles, setProfiles] = useState<Record<string, ProfileCard>>({});
+  const [profileDraft, setProfileDraft] = useState<{ displayName: string; bio: string; avatarData?: string }>({ displayName: '', bio: '' });
+  const [avatarDraft, setAvatarDraft] = useState<{ file: File; url: string; crop: AvatarCrop } | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [contacts, setContacts] = useState<Record<string, Contact>>({});
+  const [showRequests, setShowRequests] = useState(false);
+  const [contactInput, setContactInput] = useState('');
+  const [contactEdit, setContactEdit] = useState<{ username: string; nickname: string; notes: string } | null>(null);
+  const [contactError, setContactError] = useState<string | null>(null);
+  const [messageMenu, setMessageMenu] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [editHistory, setEditHistory] = useState<{ text: string; at: number }[] | null>(null);
+  const [networkErrors, setNetworkErrors] = useState<string[]>([]);
+  const [networkSaved, setNetworkSaved] = useState(false);
   
-  const [callState, setCallState] = useState<CallState>({
-    isActive: false,
-    type: null,
-    remoteParticipant: null,
-    startTime: null,
-    status: 'ended'
-  });
+  const [callState, setCallState] = useState<CallState>(IDLE_CALL);
+  const [now, setNow] = useState(Date.now());
+
+  // Ids already processed; ratchet keys are single-use, so duplicates must never reach decrypt
+  const seenMessageIds = useRef(new Set<string>());
+  const composerRef = useRef<HTMLInputElement>(null);
+  // The chat currently on screen; read from signaling callbacks, which outlive renders
+  const viewingChatRef = useRef<string | null>(null);
+  const currentUserRef = useRef<string | null>(null);
+
+  const updateConversation = (conversation: Conversation | null) => {
+    if (conversation) setConversations(prev => ({ ...prev, [conversation.peer]: conversation }));
+  };
+
+  // Upgrades message status (never downgrades) in memory and in the vault
+  const applyStatus = async (peer: string, ids: string[], status: MessageStatus, matches: (m: Message) => boolean) => {
+    const targets = new Set(ids);
+    const shouldUpdate = (m: Message) => targets.has(m.id) && matches(m) && STATUS_RANK[status] > STATUS_RANK[m.status];
+    setMessages(prev => prev.map(m => shouldUpdate(m) ? { ...m, status } : m));
+    for (const id of ids) {
+      const stored = await storageService.get<StoredMessage>('messages', id);
+      if (stored && shouldUpdate(stored.message)) {
+        await storageService.saveMessage(stored.message.groupId ?? peer, { ...stored.message, status }, stored.text, stored.edits);
+      }
+    }
+  };
+
+  const handleReceipt = (from: string, status: MessageStatus, ids: string[]) => {
+    // Only the recipient of our messages (or a member of the group it went to) may acknowledge them
+    const { username } = parseAddress(from);
+    applyStatus(username, ids, status, m => m.recipient === username || (!!m.groupId && groupService.isMember(m.groupId, username)));
+    outboxService.acknowledge(from, ids);
+  };
+
+  const handleOutboxStatus = async (message: Message, status: MessageStatus) => {
+    // Copies for our own devices say nothing about delivery to the recipient
+    if (message.recipient === currentUserRef.current) return;
+    // Group messages are queued once per member device but stored once, under the group
+    const chat = message.groupId ?? message.recipient;
+    if (status === 'sent') {
+      applyStatus(chat, [message.id], status, m => m.recipient === chat);
+      return;
+    }
+    // pending/failed are set outright: a manual resend moves failed back to pending
+    setMessages(prev => prev.map(m => m.id === message.id ? { ...m, status } : m));
+    const stored = await storageService.get<StoredMessage>('messages', message.id);
+    if (stored) await storageService.saveMessage(chat, { ...stored.message, status }, stored.text, stored.edits);
+  };
+
+  // Destroys every trace of the app on this device, then starts over
+  const panicWipe = async () => {
+    await lockService.panicWipe();
+    window.location.reload();
+  };
+
+  // Dropping the keys leaves decrypted data in React state, so start again from the unlock screen
+  const lockApp = () => {
+    lockService.lock();
+    window.location.reload();
+  };
+
+  const handleExpired = async (expired: ExpiryEntry[]) => {
+    const ids = new Set(expired.map(entry => entry.id));
+    await searchService.remove([...ids]);
+    setMessages(prev => prev.filter(m => !ids.has(m.id)));
+    setDecryptedMessages(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.has(id))));
+    await outboxService.cancel([...ids]);
+    for (const id of ids) await attachmentService.remove(id);
+    setAttachmentUrls(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.has(id))));
+    expired.forEach(entry => updateConversation(conversationService.forgetMessage(entry.peer, entry.id)));
+  };
 
   // Handle incoming messages from Signaling Service
-  const handleIncomingMessage = (msg: Message) => {
-    setMessages(prev => {
-      if (prev.find(m => m.id === msg.id)) return prev;
-      return [...prev, msg];
-    });
+  const handleIncomingMessage = async (incoming: Message) => {
+    // Receipts and ratchet sessions belong to the sending device
+    const from = deviceAddress(incoming.sender, incoming.senderDevice);
+    // Retransmissions from the sender's outbox: acknowledge again, never process twice
+    if (seenMessageIds.current.has(incoming.id)) {
+      signalingService.sendReceipt(from, 'delivered', [incoming.id]);
+      return;
+    }
+    seenMessageIds.current.add(incoming.id);
+    if (await storageService.get<StoredMessage>('messages', incoming.id)) {
+      signalingService.sendReceipt(from, 'delivered', [incoming.id]);
+      return;
+    }
+    if (incoming.groupId && !groupService.isMember(incoming.groupId, incoming.sender)) {
+      // Possibly a new member whose addition has not reached us yet; the sender retransmits
+      console.warn(`Ignored group message from non-member @${incoming.sender}`);
+      seenMessageIds.current.delete(incoming.id);
+      return;
+    }
+    // Group messages live in the group's conversation rather than the sender's; copies of what
+    // our other devices sent live in the conversation they were sent to
+    const { syncFor, recipientDevice, ...fields } = incoming;
+    const isSync = !!syncFor && incoming.sender === currentUserRef.current;
+    const chat = incoming.groupId ?? (isSync ? syncFor! : incoming.sender);
+    if (isSync && !isGroupId(chat) && !contactService.get(chat)?.saved) {
+      // Written to from another of our devices, which adds them there too
+      contactService.add(chat);
+      setContacts(contactService.all());
+    }
+    const msg: Message = {
+      ...fields,
+      recipient: isSync ? syncFor! : incoming.groupId ?? incoming.recipient,
+      status: isSync ? 'sent' : 'delivered',
+      receivedAt: Date.now(),
+      ...(isSync && isGroupId(syncFor!) ? { groupId: syncFor } : {})
+    };
+
+    let text: string;
+    try {
+      if (incoming.groupId) {
+        text = await groupService.decrypt(incoming.groupId, from, msg.content);
+      } else {
+        const senderKey = incoming.sender === currentUserRef.current
+          ? cryptoService.getIdentityPublicKey()
+          : signalingService.getPeerKey(msg.sender);
+        if (!senderKey) throw new DecryptionError('Unknown sender key');
+        text = await ratchetService.decrypt(from, senderKey, msg.content);
+      }
+    } catch (e) {
+      if (!(e instanceof DecryptionError)) throw e;
+      if (incoming.groupId && e.message === 'Missing sender key') {
+        // Their key is still on its way; leave it unacknowledged so the sender retransmits
+        seenMessageIds.current.delete(msg.id);
+        return;
+      }
+      console.error('Decryption failed', e);
+      text = '[Unable to decrypt: ' + e.message + ']';
+    }
+
+    if (msg.type === 'mutation') {
+      // Applied to the message it names, never shown on its own
+      signalingService.sendReceipt(from, 'delivered', [msg.id]);
+      const mutation = parseMutation(text);
+      // The edit window is measured on our clock; the sender's timestamp only orders their edits
+      const updated = mutation && await mutationService.apply(chat, msg.sender, mutation, msg.timestamp, currentUserRef.current ?? '', msg.receivedAt);
+      if (updated) await showMutation(chat, updated);
+      return;
+    }
+    if (msg.type === 'system') {
+      const control = msg.groupId || isSync ? null : parseGroupControl(text);
+      if (control) {
+        // Membership and key changes are applied, not shown as messages
+        signalingService.sendReceipt(from, 'delivered', [msg.id]);
+        const result = await groupService.handleControl(from, control);
+        if (result) await applyGroupChange(result.group, msg.sender, result.notice);
+        return;
+      }
+      const event = parseSystemEvent(text);
+      if (event?.event === 'group') return; // Only ever recorded locally
+      if (event?.event === 'resync') {
+        // Decrypting it already moved our session over to theirs
+        signalingService.sendReceipt(from, 'delivered', [msg.id]);
+        return;
+      }
+      if (event?.event === 'disappearing') updateConversation(conversationService.setDisappearing(chat, event.duration));
+    }
+    const preview = describeMessage(msg, text, currentUserRef.current ?? '');
+    // The sender's timer applies, counted from arrival
+    if (msg.expiresIn) msg.expiresAt = Date.now() + msg.expiresIn;
+
+    typingService.clear(msg.sender);
+    setDecryptedMessages(prev => ({ ...prev, [msg.id]: text }));
+    setMessages(prev => [...prev, msg]);
+    await storageService.saveMessage(chat, msg, text);
+    await searchService.index(chat, msg, text);
+    if (msg.expiresAt) await expiryService.track({ id: msg.id, peer: chat, expiresAt: msg.expiresAt });
+    signalingService.sendReceipt(from, 'delivered', [msg.id]);
+    updateConversation(conversationService.recordMessage(chat, msg, preview, !isSync && viewingChatRef.current !== chat));
+    if (!isSync && msg.type !== 'system') notifyMessage(chat, msg.sender, preview);
+    if (msg.type !== 'text' && msg.type !== 'system') {
+      // The attachment's id ties the download to this message
+      const descriptor = parseAttachment(text);
+      if (descriptor?.fileId === msg.id) await attachmentService.receive(from, descriptor);
+    }
+  };
+
+  // Records a membership change as a local notice in the group's conversation
+  const applyGroupChange = async (group: Group, actor: string, notice: string) => {
+    setGroups(prev => ({ ...prev, [group.id]: group }));
+    const self = currentUserRef.current ?? '';
+    const text = encodeSystemEvent({ event: 'group', notice });
+    const message: Message = {
+      id: newMessageId(),
+      sender: actor,
+      recipient: group.id,
+      groupId: group.id,
+      content: '',
+      timestamp: Date.now(),
+      status: 'read',
+      type: 'system'
+    };
+    seenMessageIds.current.add(message.id);
+    setDecryptedMessages(prev => ({ ...prev, [message.id]: text }));
+    setMessages(prev => [...prev, message]);
+    await storageService.saveMessage(group.id, message, text);
+    updateConversation(conversationService.recordMessage(group.id, message, notice, actor !== self && viewingChatRef.current !== group.id));
+  };
+
+  // Shows an edited, deleted or reacted-to message as stored; deleting also drops its attachment
+  const showMutation = async (chat: string, { message, text }: StoredMessage) => {
+    setMessages(prev => prev.map(m => m.id === message.id ? message : m));
+    setDecryptedMessages(prev => ({ ...prev, [message.id]: text }));
+    if (message.deleted) {
+      await outboxService.cancel([message.id]);
+      await attachmentService.remove(message.id);
+      setAttachmentUrls(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== message.id)));
+    }
+    if (message.deleted || message.editedAt) {
+      await searchService.index(chat, message, text);
+      updateConversation(conversationService.reviseMessage(chat, message.id, describeMessage(message, text, currentUserRef.current ?? '')));
+    }
+  };
+
+  // Encrypts separately for, and queues a copy to, each of the recipient's devices. A message
+  // to ourselves goes to our other devices. Returns the ciphertexts, one per device.
+  const enqueueForDevices = async (message: Message, recipientKey: string, text: string) => {
+    const contents: string[] = [];
+    for (const address of deviceService.addressesOf(message.recipient)) {
+      const content = await ratchetService.encrypt(address, recipientKey, text);
+      contents.push(content);
+      await outboxService.enqueue({ ...message, content, recipientDevice: parseAddress(address).deviceId });
+    }
+    return contents;
+  };
+
+  // Group control events go to one member (or our own other devices) over pairwise sessions, hidden from the chat
+  const sendGroupControl = async (peer: string, control: GroupControl) => {
+    const self = currentUserRef.current;
+    const recipientKey = peer === self ? cryptoService.getIdentityPublicKey() : await signalingService.requestPeerKey(peer);
+    if (!self || !recipientKey) return false;
+    await enqueueForDevices({
+      id: newMessageId(),
+      sender: self,
+      recipient: peer,
+      content: '',
+      timestamp: Date.now(),
+      status: 'pending',
+      type: 'system'
+    }, recipientKey, JSON.stringify(control));
+    return true;
+  };
+
+  // Same as nameOf, but read from the services: handlers cannot rely on render state
+  const currentNameOf = (username: string) =>
+    contactService.get(username)?.nickname || profileService.get(username)?.displayName || `@${username}`;
+
+  const notifyMessage = (chat: string, sender: string, preview: string) => {
+    const group = groupService.get(chat);
+    notificationService.message(chat, group ? group.name : currentNameOf(sender), preview, group ? currentNameOf(sender) : undefined);
   };
 
-  const handleIncomingCall = (type: 'audio' | 'video', from: string) => {
+  const handleIncomingCall = (call: MediaConnection, type: 'audio' | 'video', address: string) => {
+    if (!callService.incoming(call, type, address)) return;
+    const { username: from } = parseAddress(address);
+    notificationService.call(from, currentNameOf(from), type);
     signalingService.findOrCreateUser(from).then(user => {
       setActiveChatUser(user);
-      setCallState({
-        isActive: true,
-        type,
-        remoteParticipant: from,
-        startTime: Date.now(),
-        status: 'connecting'
-      });
       setCurrentScreen(AppScreen.CALL);
     });
   };
 
+  const handleCallState = (state: CallState) => {
+    setCallState(state);
+    if (state.status !== 'ended') return;
+    // Leave the ended screen up briefly so the reason can be read
+    setTimeout(() => {
+      if (callService.getState().isActive) return;
+      setCurrentScreen(prev => prev === AppScreen.CALL ? AppScreen.CHAT_DETAIL : prev);
+    }, CALL_ENDED_DISPLAY);
+  };
+
+  const startCall = (type: 'audio' | 'video') => {
+    if (!activeChatUser) return;
+    setCurrentScreen(AppScreen.CALL);
+    callService.start(activeChatUser.username, type);
+  };
+
+  const handleIdentity = (identity: TrustedIdentity, status: TrustStatus) => {
+    if (status === 'changed') console.warn('Identity key changed for @' + identity.username);
+    setIdentities(prev => ({ ...prev, [identity.username]: { ...identity } }));
+  };
+
+  const handleDeviceList = async (username: string, status: 'updated' | 'revoked') => {
+    if (status === 'revoked') {
+      // Another of our devices removed this one: nothing may be left behind
+      await panicWipe();
+      return;
+    }
+    if (username === currentUserRef.current) setDevices(deviceService.list());
+  };
+
+  const handleLinkRequest = async (from: string, frame: LinkRequestFrame) => {
+    const bundle = await deviceService.acceptLink(from, frame);
+    if (bundle) {
+      setPairingCode(null);
+      setDevices(deviceService.list());
+    }
+    return bundle;
+  };
+
+  const handleProfile = async (username: string, card: ProfileCard) => {
+    if (username === currentUserRef.current) {
+      // Edited on another of our devices
+      const profile = await storageService.get<UserProfile>('settings', 'profile');
+      if (!profile) return;
+      const updated = withCard(profile, card);
+      await storageService.put('settings', 'profile', updated);
+      await profileService.publish(updated);
+      setCurrentUser(updated);
+      return;
+    }
+    setProfiles(prev => ({ ...prev, [username]: card }));
+    setActiveChatUser(prev => prev?.username === username ? withCard(prev, card) : prev);
+  };
+
+  const signalingHandlers = (): SignalingHandlers => ({
+    onMessage: handleIncomingMessage,
+    onCall: handleIncomingCall,
+    onCallSignal: (from, action) => callService.handleSignal(from, action),
+    onPeerUnavailable: (address) => callService.peerUnavailable(address),
+    onIdentity: handleIdentity,
+    onReceipt: handleReceipt,
+    onPeerReady: (address) => {
+      outboxService.peerReady(address);
+      attachmentService.resume(address);
+    },
+    onConnectionState: setConnectionStatus,
+    onTyping: (from, state) => typingService.received(from, state),
+    onFileFrame: (from, frame) => attachmentService.handleFrame(from, frame),
+    onDeviceList: handleDeviceList,
+    onLinkRequest: handleLinkRequest,
+    onProfile: handleProfile
+  });
+
   // Initialize Signaling when user is logged in
   useEffect(() => {
-    if (currentUser) {
-      signalingService.init(currentUser.username, handleIncomingMessage, handleIncomingCall);
-    }
+    if (currentUser) signalingService.init(currentUser.username, signalingHandlers());
+    // The handlers are rebuilt every render, but signaling keeps the first set: init again only for a new user
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentUser]);
 
-  // Load user session
   useEffect(() => {
-    const storedUser = localStorage.getItem('whisperline_current_user');
-    if (storedUser) {
-      const parsed = JSON.parse(storedUser);
-      setCurrentUser(parsed);
-      setCurrentScreen(AppScreen.CHAT_LIST);
-    }
+    callService.init(handleCallState);
+    typingService.init(setTypingPeers);
+    updateService.register(() => setUpdateAvailable(true));
+    notificationService.init(chat => {
+      if (currentUserRef.current) openChat(chat);
+    });
+    // Registered once; openChat only sets state and reads services, so the first render's copy stays correct
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Drives the call timer while media is flowing, and disappearing-message countdowns on screen
+  const hasCountdowns = currentScreen === AppScreen.CHAT_DETAIL && messages.some(m => m.expiresAt);
+  useEffect(() => {
+    if (callState.status !== 'connected' && !hasCountdowns) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [callState.status, hasCountdowns]);
+
+  const activateIdentity = async (keys: IdentityKeys, profile: UserProfile) => {
+    const { username } = profile;
+    await cryptoService.loadIdentity(keys);
+    setDevices(await deviceService.load(username));
+    await ratchetService.load();
+    await trustService.load();
+    setIdentities(trustService.all());
+    setProfiles(await profileService.load());
+    await profileService.publish(profile);
+    const loaded = await conversationService.load(username);
+    setConversations(loaded);
+    setContacts(await contactService.load(Object.keys(loaded).filter(peer => !isGroupId(peer))));
+    setPreferences(await preferencesService.load());
+    // Without a passphrase there is nothing to lock behind
+    if (!(await storageService.usesDeviceKey())) lockService.start(lockApp, preferencesService.get());
+    currentUserRef.current = username;
+    editNetworkConfig(await networkConfigService.load());
+    setPresence(await presenceService.load(p => setPresence(prev => ({ ...prev, [p.username]: p }))));
+    await outboxService.load(handleOutboxStatus);
+    setGroups(await groupService.load(username, sendGroupControl));
+    setTransfers(await attachmentService.load(handleTransferProgress));
+    await searchService.load(username);
+    await expiryService.load(handleExpired);
+  };
+
+  useEffect(() => {
+    const onVisibility = () => setPageVisible(!document.hidden);
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => document.removeEventListener('visibilitychange', onVisibility);
   }, []);
 
-  // Decrypt messages
+  // Decide between onboarding and unlocking an existing vault
   useEffect(() => {
-    const decryptAll = async () => {
-      const newDecrypted: Record<string, string> = { ...decryptedMessages };
-      let changed = false;
-      for (const msg of messages) {
-        if (!newDecrypted[msg.id]) {
-          newDecrypted[msg.id] = await cryptoService.decryptMessage(msg.content);
-          changed = true;
+    (async () => {
+      if (await storageService.hasVault()) {
+        const legacyPassphrase = localStorage.getItem(LEGACY_DEVICE_PASSPHRASE_KEY);
+        if (legacyPassphrase) {
+          await storageService.moveToDeviceKey(legacyPassphrase);
+          localStorage.removeItem(LEGACY_DEVICE_PASSPHRASE_KEY);
+        }
+        if (await storageService.usesDeviceKey()) {
+          await storageService.unlock(null);
+          setVaultProtected(false);
+          await enterVault();
+          return;
         }
+        setAuthenticatorEnrolled(await lockService.authenticatorEnrolled());
+        setCurrentScreen(AppScreen.UNLOCK);
+      } else if (localStorage.getItem(LEGACY_USER_KEY) && localStorage.getItem(LEGACY_KEYS_KEY)) {
+        setIsLegacyInstall(true);
+        setCurrentScreen(AppScreen.UNLOCK);
       }
-      if (changed) setDecryptedMessages(newDecrypted);
+    })();
+    // Opening the vault at startup happens once, on mount; a rebuilt enterVault is no reason to run it again
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleUnlock = async (passphrase: string) => {
+    setVaultError(null);
+    try {
+      if (isLegacyInstall) {
+        if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+          setVaultError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+          return;
+        }
+        await storageService.createVault(passphrase);
+        await storageService.put('settings', 'profile', JSON.parse(localStorage.getItem(LEGACY_USER_KEY)!));
+        await storageService.put('settings', 'identity', JSON.parse(localStorage.getItem(LEGACY_KEYS_KEY)!));
+        localStorage.removeItem(LEGACY_USER_KEY);
+        localStorage.removeItem(LEGACY_KEYS_KEY);
+        setIsLegacyInstall(false);
+      } else {
+        await storageService.unlock(passphrase);
+      }
+    } catch (e) {
+      if (!(e instanceof VaultError)) throw e;
+      setVaultError(e.message);
+      return;
+    }
+    await enterVault();
+  };
+
+  const handleAuthenticatorUnlock = async () => {
+    setVaultError(null);
+    try {
+      await lockService.unlockWithAuthenticator();
+    } catch (e) {
+      if (!(e instanceof LockError || e instanceof VaultError)) throw e;
+      setVaultError(e.message);
+      return;
+    }
+    await enterVault();
+  };
+
+  // Activates the identity in the unlocked vault and opens the inbox
+  const enterVault = async () => {
+    const profile = await storageService.get<UserProfile>('settings', 'profile');
+    let keys = await storageService.get<IdentityKeys>('settings', 'identity');
+    if (!profile || !keys) {
+      setVaultError('Vault has no identity');
+      return;
+    }
+    // Identities created before signed handshakes only have the X25519 pair
+    if (!keys.signingPublicKey) {
+      keys = { ...keys, ...await cryptoService.generateSigningKeyPair() };
+      await storageService.put('settings', 'identity', keys);
+    }
+    await activateIdentity(keys, profile);
+    setPassphraseInput('');
+    setCurrentUser(profile);
+    setCurrentScreen(AppScreen.CHAT_LIST);
+  };
+
+  // Probes the signaling server for the username being typed, once typing pauses
+  useEffect(() => {
+    const username = normalizeUsername(usernameInput);
+    if (currentScreen !== AppScreen.ONBOARDING || onboardingMode !== 'create' || validateUsername(username).length > 0) {
+      setAvailability(null);
+      return;
+    }
+    setAvailability('checking');
+    let stale = false;
+    const timeout = setTimeout(async () => {
+      const result = await signalingService.checkAvailability(username);
+      if (!stale) setAvailability(result);
+    }, AVAILABILITY_DELAY);
+    return () => {
+      stale = true;
+      clearTimeout(timeout);
     };
-    decryptAll();
-  }, [messages]);
+  }, [usernameInput, onboardingMode, currentScreen]);
+
+  // Makes a fresh identity for the chosen username and shows its fingerprint
+  const generateDraftIdentity = async () => {
+    const username = normalizeUsername(usernameInput);
+    const keys = await cryptoService.generateIdentity();
+    const fingerprint = await cryptoService.getFingerprint({ username, publicKey: keys.publicKey, signingKey: keys.signingPublicKey });
+    setDraftIdentity({ username, keys, fingerprint });
+  };
 
-  const handleRegister = async (username: string) => {
-    if (!username.trim()) return;
-    const { publicKey } = await cryptoService.generateIdentityKeyPair();
+  const chooseUsername = async () => {
+    const username = normalizeUsername(usernameInput);
+    if (validateUsername(username).length > 0 || availability === 'taken' || availability === 'checking') return;
+    // Keys belong to a username; a different name gets new ones
+    if (draftIdentity?.username !== username) await generateDraftIdentity();
+    setOnboardingStep('keys');
+  };
+
+  // `passphrase` null seals the vault under a non-extractable key held by this browser: it opens without
+  // a prompt, and anyone with access to this browser profile can read it, so it is not protected at rest
+  const handleRegister = async (passphrase: string | null) => {
+    if (!draftIdentity) return;
+    if (passphrase !== null && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setVaultError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== null && passphrase !== passphraseConfirm) {
+      setVaultError('The passphrases do not match');
+      return;
+    }
+    setVaultError(null);
+    const { username, keys } = draftIdentity;
     const profile: UserProfile = {
-      username: username.toLowerCase().replace(/\s+/g, '_'),
-      publicKey,
+      username,
+      publicKey: keys.publicKey,
       avatarSeed: username,
       createdAt: Date.now(),
       displayName: username,
       bio: "Secure P2P Node"
     };
 
+    await storageService.createVault(passphrase);
+    setVaultProtected(passphrase !== null);
+    await storageService.put('settings', 'identity', keys);
+    await activateIdentity(keys, profile);
     await signalingService.registerUser(profile);
+    setPassphraseInput('');
+    setPassphraseConfirm('');
+    setDraftIdentity(null);
     setCurrentUser(profile);
     setCurrentScreen(AppScreen.CHAT_LIST);
   };
 
+  // Joins an existing account from a pairing code shown on one of its devices
+  const handleLink = async (code: string, name: string, passphrase: string) => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setVaultError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    setVaultError(null);
+    setLinking(true);
+    try {
+      const { username, from, request } = await deviceService.startJoin(code, name);
+      signalingService.init(username, signalingHandlers());
+      const frame = await signalingService.requestLink(from, request);
+      if (!frame) throw new DeviceError('The other device did not answer. Keep it online with the code showing and try again.');
+      const bundle = await deviceService.adopt(frame);
+
+      await storageService.createVault(passphrase);
+      await storageService.put('settings', 'profile', bundle.profile);
+      await storageService.put('settings', 'identity', bundle.identity);
+      await deviceService.saveAdopted(bundle);
+      await activateIdentity(bundle.identity, bundle.profile);
+      setPassphraseInput('');
+      setPairingInput('');
+      setCurrentUser(bundle.profile);
+      setCurrentScreen(AppScreen.CHAT_LIST);
+      // Reconnect now that there is an identity to present in handshakes
+      signalingService.restart();
+    } catch (e) {
+      if (!(e instanceof DeviceError) && !(e instanceof VaultError)) throw e;
+      setVaultError(e.message);
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  // Recreates the vault from a backup file, under a new passphrase for this device
+  const handleRestore = async (file: { text: string } | null, backupPass: string, passphrase: string) => {
+    if (!file) {
+      setVaultError('Choose a backup file');
+      return;
+    }
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setVaultError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    setVaultError(null);
+    setBackupBusy(true);
+    try {
+      const contents = await backupService.open(file.text, backupPass);
+      await storageService.createVault(passphrase);
+      try {
+        await backupService.restore(contents);
+      } catch (e) {
+        // A half-restored vault would be unlocked next time as if it were complete
+        await storageService.destroy();
+        throw e instanceof BackupError ? e : new BackupError('The backup could not be restored. Try again.');
+      }
+    } catch (e) {
+      if (!(e instanceof BackupError) && !(e instanceof VaultError)) throw e;
+      setVaultError(e.message);
+      return;
+    } finally {
+      setBackupBusy(false);
+    }
+    setBackupFile(null);
+    setBackupPassphrase('');
+    await enterVault();
+    await announceResync();
+  };
+
+  // The restore started new sessions; a first message under them lets every contact (and our
+  // other devices) follow, so what they send next can be read
+  const announceResync = async () => {
+    const self = currentUserRef.current;
+    if (!self) return;
+    const peers = [...Object.values(trustService.all()).map(contact => [contact.username, contact.publicKey]), [self, cryptoService.getIdentityPublicKey()!]];
+    for (const [peer, recipientKey] of peers) {
+      await enqueueForDevices({
+        id: newMessageId(),
+        sender: self,
+        recipient: peer,
+        content: '',
+        timestamp: Date.now(),
+        status: 'pending',
+        type: 'system'
+      }, recipientKey, encodeSystemEvent({ event: 'resync' }));
+    }
+  };
+
+  const pickBackupFile = async (file: File | undefined) => {
+    if (!file) return;
+    setVaultError(null);
+    setBackupFile({ name: file.name, text: await file.text() });
+  };
+
+  const exportBackup = async () => {
+    if (backupPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setBackupError(`Backup passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    setBackupError(null);
+    setBackupSaved(false);
+    setBackupBusy(true);
+    try {
+      const blob = await backupService.create(backupPassphrase);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `whisperline-${currentUser?.username}-${new Date().toISOString().slice(0, 10)}${BACKUP_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setBackupPassphrase('');
+      setBackupSaved(true);
+    } catch (e) {
+      setBackupError(e instanceof Error ? e.message : 'The backup could not be created');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const openEditProfile = () => {
+    if (!currentUser) return;
+    setProfileDraft({
+      displayName: currentUser.displayName && currentUser.displayName !== currentUser.username ? currentUser.displayName : '',
+      bio: currentUser.bio ?? '',
+      avatarData: currentUser.avatarData
+    });
+    discardAvatarDraft();
+    setProfileError(null);
+    setCurrentScreen(AppScreen.EDIT_PROFILE);
+  };
+
+  const discardAvatarDraft = () => {
+    if (avatarDraft) URL.revokeObjectURL(avatarDraft.url);
+    setAvatarDraft(null);
+  };
+
+  const pickAvatar = (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setProfileError('Choose an image file');
+      return;
+    }
+    discardAvatarDraft();
+    setProfileError(null);
+    setAvatarDraft({ file, url: URL.createObjectURL(file), crop: DEFAULT_CROP });
+  };
+
+  const saveProfile = async () => {
+    if (!currentUser) return;
+    setProfileError(null);
+    setSavingProfile(true);
+    let profile: UserProfile;
+    try {
+      const avatarData = avatarDraft ? await cropAvatar(avatarDraft.file, avatarDraft.crop) : profileDraft.avatarData;
+      profile = {
+        ...currentUser,
+        displayName: profileDraft.displayName.trim() || currentUser.username,
+        bio: profileDraft.bio.trim() || undefined,
+        avatarData,
+        updatedAt: Date.now()
+      };
+    } catch (e) {
+      if (!(e instanceof ProfileError)) throw e;
+      setProfileError(e.message);
+      return;
+    } finally {
+      setSavingProfile(false);
+    }
+    await storageService.put('settings', 'profile', profile);
+    await profileService.publish(profile);
+    signalingService.broadcastProfile();
+    setCurrentUser(profile);
+    discardAvatarDraft();
+    setCurrentScreen(AppScreen.SETTINGS);
+  };
+
+  const linkNewDevice = async () => {
+    setDeviceError(null);
+    try {
+      setPairingCode(await deviceService.startPairing());
+    } catch (e) {
+      if (!(e instanceof DeviceError)) throw e;
+      setDeviceError(e.message);
+    }
+  };
+
+  const cancelPairing = () => {
+    deviceService.cancelPairing();
+    setPairingCode(null);
+  };
+
+  const revokeDevice = async (device: DeviceInfo) => {
+    setDeviceError(null);
+    try {
+      await deviceService.revoke(device.id);
+    } catch (e) {
+      if (!(e instanceof DeviceError)) throw e;
+      setDeviceError(e.message);
+      return;
+    }
+    signalingService.broadcastDevices();
+    setDevices(deviceService.list());
+  };
+
+  // Loads one page of stored history for a conversation, older than `before` if given
+  const loadHistory = async (peer: string, before?: number) => {
+    const page = await storageService.getMessages(peer, { before, limit: HISTORY_PAGE_SIZE });
+    page.forEach(({ message }) => seenMessageIds.current.add(message.id));
+    setDecryptedMessages(prev => ({ ...prev, ...Object.fromEntries(page.map(({ message, text }) => [message.id, text])) }));
+    setMessages(prev => {
+      const known = new Set(prev.map(m => m.id));
+      return [...page.map(({ message }) => message).filter(m => !known.has(m.id)), ...prev];
+    });
+    setHasMoreHistory(prev => ({ ...prev, [peer]: page.length === HISTORY_PAGE_SIZE }));
+  };
+
+  const activeChatName = activeChatUser?.username;
+  const activeUnreadCount = conversations[activeChatName ?? '']?.unreadCount;
+
+  useEffect(() => {
+    if (activeChatName && storageService.isUnlocked()) loadHistory(activeChatName);
+  }, [activeChatName]);
+
+  // Decrypt finished attachments in the open chat for display
+  useEffect(() => {
+    if (currentScreen !== AppScreen.CHAT_DETAIL) return;
+    messages
+      .filter(m => m.type !== 'text' && m.type !== 'system' && transfers[m.id]?.state === 'complete' && !attachmentUrls[m.id])
+      .forEach(m => {
+        attachmentService.open(m.id)
+          .then(url => { if (url) setAttachmentUrls(prev => ({ ...prev, [m.id]: url })); })
+          .catch(err => console.error('Failed to open attachment', err));
+      });
+  }, [currentScreen, messages, transfers, attachmentUrls]);
+
+  // Track the open chat and clear its unread badge
+  useEffect(() => {
+    const viewing = currentScreen === AppScreen.CHAT_DETAIL && activeChatName ? activeChatName : null;
+    viewingChatRef.current = viewing;
+    if (!viewing) typingService.stop();
+    if (viewing) updateConversation(conversationService.markRead(viewing));
+  }, [currentScreen, activeChatName, activeUnreadCount]);
+
+  // Messages on screen count as read; acknowledge them unless read receipts are off
+  useEffect(() => {
+    if (currentScreen !== AppScreen.CHAT_DETAIL || !activeChatName || !currentUser || !pageVisible) return;
+    const peer = activeChatName;
+    const inChat = isGroupId(peer)
+      ? (m: Message) => m.groupId === peer && m.sender !== currentUser.username
+      : (m: Message) => m.sender === peer && m.recipient === currentUser.username;
+    const unread = messages.filter(m => inChat(m) && m.status !== 'read');
+    if (unread.length === 0) return;
+    applyStatus(peer, unread.map(m => m.id), 'read', inChat);
+    // Someone we have not accepted yet does not learn whether we looked
+    if (!preferences.readReceipts || isRequest(peer)) return;
+    // Each sending device only hears about its own messages
+    const senderOf = (m: Message) => deviceAddress(m.sender, m.senderDevice);
+    new Set<string>(unread.map(senderOf)).forEach(address => {
+      signalingService.sendReceipt(address, 'read', unread.filter(m => senderOf(m) === address).map(m => m.id));
+    });
+    // isRequest is rebuilt every render; accepting a contact is no reason to look at the same messages again
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentScreen, activeChatName, currentUser, messages, pageVisible, preferences.readReceipts]);
+
+  // Once the app is back in view, its notifications have served their purpose
+  useEffect(() => {
+    if (!pageVisible) return;
+    notificationService.clear();
+    if (currentScreen === AppScreen.CHAT_DETAIL && activeChatName) notificationService.clear(activeChatName);
+  }, [currentScreen, activeChatName, pageVisible]);
+
+  const editNetworkConfig = (config: NetworkConfig) => {
+    setNetworkDraft({ ...config, port: String(config.port), iceServers: formatIceServers(config.iceServers) });
+    setNetworkErrors([]);
+  };
+
+  const saveNetworkConfig = async () => {
+    setNetworkSaved(false);
+    try {
+      const saved = await networkConfigService.update({
+        ...networkDraft,
+        host: networkDraft.host.trim(),
+        port: Number(networkDraft.port),
+        iceServers: parseIceServers(networkDraft.iceServers)
+      });
+      editNetworkConfig(saved);
+      signalingService.restart();
+      setNetworkSaved(true);
+    } catch (e) {
+      if (!(e instanceof NetworkConfigError)) throw e;
+      setNetworkErrors(e.problems);
+    }
+  };
+
+  const updatePreferences = async (changes: Partial<Preferences>) => {
+    const updated = await preferencesService.update(changes);
+    lockService.configure(updated);
+    setPreferences(updated);
+  };
+
+  const toggleNotifications = async (notifications: boolean) => {
+    setNotificationError(null);
+    if (notifications && !(await notificationService.requestPermission())) {
+      setNotificationError(notificationService.supported()
+        ? 'Notifications are blocked. Allow them for this site in your browser settings.'
+        : 'This browser does not support notifications');
+      return;
+    }
+    await updatePreferences({ notifications });
+  };
+
+  const openSettings = async () => {
+    setLockError(null);
+    setAuthenticatorAvailable(await lockService.authenticatorAvailable());
+    setAuthenticatorEnrolled(await lockService.authenticatorEnrolled());
+    setCurrentScreen(AppScreen.SETTINGS);
+  };
+
+  const enrollAuthenticator = async () => {
+    if (!currentUser) return;
+    setLockError(null);
+    setLockBusy(true);
+    try {
+      await lockService.enrollAuthenticator(lockPassphrase, currentUser.username);
+      setAuthenticatorEnrolled(true);
+      setLockPassphrase('');
+    } catch (e) {
+      if (!(e instanceof LockError || e instanceof VaultError)) throw e;
+      setLockError(e.message);
+    } finally {
+      setLockBusy(false);
+    }
+  };
+
+  // Moves a vault created without a passphrase under one, which also makes the app lockable
+  const setVaultPassphrase = async () => {
+    if (vaultProtected) return;
+    if (lockPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setLockError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (lockPassphrase !== lockPassphraseConfirm) {
+      setLockError('The passphrases do not match');
+      return;
+    }
+    setLockError(null);
+    setLockBusy(true);
+    try {
+      await storageService.changePassphrase(null, lockPassphrase);
+      setVaultProtected(true);
+      setLockPassphrase('');
+      setLockPassphraseConfirm('');
+      lockService.start(lockApp, preferencesService.get());
+    } finally {
+      setLockBusy(false);
+    }
+  };
+
+  const removeAuthenticator = async () => {
+    await lockService.removeAuthenticator();
+    setAuthenticatorEnrolled(false);
+  };
+
+  // Our nickname for them, else the name they chose, else their username
+  const nameOf = (username: string) => contacts[username]?.nickname || profiles[username]?.displayName || `@${username}`;
+  const chatName = (chat: string) => groups[chat]?.name ?? nameOf(chat);
+
+  // Conversations with people outside the contact book are message requests
+  const isRequest = (peer: string) => !isGroupId(peer) && peer !== currentUser?.username && !contacts[peer]?.saved;
+
+  const saveContact = (username: string) => {
+    contactService.add(username);
+    setContacts(contactService.all());
+  };
+
+  const blockUser = (username: string, blocked: boolean) => {
+    contactService.setBlocked(username, blocked);
+    if (blocked) {
+      signalingService.disconnectUser(username);
+      typingService.clear(username);
+    }
+    setContacts(contactService.all());
+  };
+
+  const removeContact = (username: string) => {
+    contactService.remove(username);
+    setContacts(contactService.all());
+    setContactEdit(null);
+  };
+
+  const addContact = async () => {
+    const username = contactInput.trim().replace(/^@/, '').toLowerCase();
+    setContactError(null);
+    if (!username) return;
+    if (username === currentUser?.username) {
+      setContactError('That is you');
+      return;
+    }
+    if (isGroupId(username)) {
+      setContactError('Not a valid username');
+      return;
+    }
+    if (contacts[username]?.saved) {
+      setContactError(`@${username} is already a contact`);
+      return;
+    }
+    saveContact(username);
+    setContactInput('');
+    signalingService.connectToUser(username); // Fetches their keys and profile if they are online
+  };
+
+  const saveContactEdit = () => {
+    if (!contactEdit) return;
+    contactService.update(contactEdit.username, {
+      nickname: contactEdit.nickname.trim().slice(0, MAX_DISPLAY_NAME_LENGTH) || undefined,
+      notes: contactEdit.notes.trim() || undefined
+    });
+    setContacts(contactService.all());
+    setContactEdit(null);
+  };
+
+  // Declining a request drops the conversation and everything in it
+  const deleteConversation = async (peer: string) => {
+    const ids = new Set<string>(await storageService.deleteMessages(peer));
+    await searchService.remove([...ids]);
+    conversationService.remove(peer);
+    setConversations(prev => {
+      const { [peer]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setMessages(prev => prev.filter(m => !ids.has(m.id)));
+    if (activeChatUser?.username === peer) setCurrentScreen(AppScreen.CHAT_LIST);
+  };
+
+  // Profile for a peer: their signed card if they have sent one, otherwise just the username
+  const peerProfile = (username: string): UserProfile => withCard({
+    username,
+    publicKey: identities[username]?.publicKey ?? '',
+    avatarSeed: username,
+    displayName: username,
+    createdAt: 0
+  }, profiles[username] ?? null);
+
+  // Groups open in the chat screen under a stand-in profile keyed by the group id
+  const groupProfile = (group: Group): UserProfile => ({
+    username: group.id,
+    publicKey: '',
+    avatarSeed: group.avatarSeed,
+    displayName: group.name,
+    createdAt: group.createdAt
+  });
+
+  const openChat = async (username: string) => {
+    setConversationMenu(null);
+    setDisappearingMenu(false);
+    setGroupPanel(false);
+    setGroupError(null);
+    setMessageMenu(null);
+    setReplyingTo(null);
+    setEditingMessage(null);
+    if (isGroupId(username)) {
+      const group = groupService.get(username);
+      if (!group) return;
+      setActiveChatUser(groupProfile(group));
+      setCurrentScreen(AppScreen.CHAT_DETAIL);
+      return;
+    }
+    setActiveChatUser(await signalingService.findOrCreateUser(username));
+    setCurrentScreen(AppScreen.CHAT_DETAIL);
+    signalingService.connectToUser(username); // Refreshes their presence
+  };
+
+  // Members need a pinned identity key so their sender keys can be delivered over a pairwise session
+  const unreachableMember = (usernames: string[]) => usernames.find(username => !trustService.get(username));
+
+  const runGroupAction = async (action: () => Promise<{ group: Group; notice: string }>) => {
+    setGroupError(null);
+    try {
+      const { group, notice } = await action();
+      await applyGroupChange(group, currentUser?.username ?? '', notice);
+      return group;
+    } catch (e) {
+      if (!(e instanceof GroupError)) throw e;
+      setGroupError(e.message);
+      return null;
+    }
+  };
+
+  const parseMembers = (list: string) => list.split(/[\s,]+/).map(u => u.replace(/^@/, '').toLowerCase()).filter(Boolean);
+
+  const createGroup = async () => {
+    if (!groupDraft) return;
+    const members = parseMembers(groupDraft.members).filter(u => u !== currentUser?.username);
+    const unknown = unreachableMember(members);
+    if (unknown) {
+      setGroupError(`Start a chat with @${unknown} first`);
+      return;
+    }
+    const group = await runGroupAction(() => groupService.create(groupDraft.name, members));
+    if (!group) return;
+    setGroupDraft(null);
+    openChat(group.id);
+  };
+
+  const addGroupMembers = async (groupId: string) => {
+    const members = parseMembers(memberDraft);
+    const unknown = unreachableMember(members);
+    if (unknown) {
+      setGroupError(`Start a chat with @${unknown} first`);
+      return;
+    }
+    if (await runGroupAction(() => groupService.addMembers(groupId, members))) setMemberDraft('');
+  };
+
   const handleSearch = async (val: string) => {
     setSearchQuery(val);
     if (val.length >= 3) {
@@ -106,30 +1244,343 @@ const App: React.FC = () => {
     }
   };
 
-  const sendMessage = async (text: string) => {
-    if (!currentUser || !activeChatUser || !text.trim()) return;
+  // Searches message history whenever the query or its filters change
+  useEffect(() => {
+    if (!storageService.isUnlocked()) return;
+    let stale = false;
+    searchService.search(searchQuery, searchFilter).then(results => {
+      if (!stale) setMessageResults(results);
+    });
+    return () => { stale = true; };
+  }, [searchQuery, searchFilter]);
+
+  // Opens the result's conversation with everything from that message on loaded, and points at it
+  const jumpToMessage = async (result: SearchResult) => {
+    setSearchQuery('');
+    await openChat(result.chat);
+    const page = await storageService.getMessages(result.chat, { since: result.timestamp });
+    page.forEach(({ message }) => seenMessageIds.current.add(message.id));
+    setDecryptedMessages(prev => ({ ...prev, ...Object.fromEntries(page.map(({ message, text }) => [message.id, text])) }));
+    setMessages(prev => {
+      const known = new Set(prev.map(m => m.id));
+      return [...page.map(({ message }) => message).filter(m => !known.has(m.id)), ...prev];
+    });
+    setHighlightedMessage(result.id);
+  };
+
+  useEffect(() => {
+    if (!highlightedMessage) return;
+    document.getElementById(`message-${highlightedMessage}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const timeout = setTimeout(() => setHighlightedMessage(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessage]);
+
+  const sendToPeer = async (peer: string, text: string, type: Message['type'] = 'text', id = newMessageId(), fields: Partial<Message> = {}) => {
+    if (!currentUser) return;
 
-    const encrypted = await cryptoService.encryptMessage(text, activeChatUser.publicKey);
+    const group = isGroupId(peer) ? groupService.get(peer) : null;
+    let encrypted = '';
+    let recipientKey: string | null = null;
+    if (group) {
+      try {
+        // Encrypted once under our sender key; every member device gets the same ciphertext
+        encrypted = await groupService.encrypt(peer, text);
+      } catch (e) {
+        if (!(e instanceof GroupError)) throw e;
+        console.error('Could not send group message: ' + e.message);
+        return;
+      }
+    } else {
+      // Without a key (never seen online, or a key change awaiting approval) the message is kept as failed for a resend
+      recipientKey = await signalingService.requestPeerKey(peer);
+      // Writing to someone, including answering their request, puts them in the contact book
+      if (!contactService.get(peer)?.saved) saveContact(peer);
+    }
+    const timer = type !== 'system' && type !== 'mutation' ? conversations[peer]?.disappearingAfter : null;
     const newMessage: Message = {
-      id: Math.random().toString(36).substr(2, 12),
+      id,
       sender: currentUser.username,
-      recipient: activeChatUser.username,
+      recipient: peer,
       content: encrypted,
       timestamp: Date.now(),
-      status: 'sent',
-      type: 'text'
+      status: group || recipientKey ? 'pending' : 'failed',
+      type,
+      ...(group ? { groupId: group.id } : {}),
+      ...(timer ? { isEphemeral: true, expiresIn: timer, expiresAt: Date.now() + timer } : {}),
+      ...fields
+    };
+    const preview = describeMessage(newMessage, text, currentUser.username);
+    if (recipientKey) {
+      // One ciphertext per recipient device; the first stands in for the stored copy
+      [newMessage.content] = await enqueueForDevices(newMessage, recipientKey, text);
+    }
+
+    seenMessageIds.current.add(newMessage.id);
+    if (type !== 'mutation') {
+      setDecryptedMessages(prev => ({ ...prev, [newMessage.id]: text }));
+      setMessages(prev => [...prev, newMessage]);
+      await storageService.saveMessage(newMessage.recipient, newMessage, text);
+      await searchService.index(newMessage.recipient, newMessage, text);
+      if (newMessage.expiresAt) await expiryService.track({ id: newMessage.id, peer, expiresAt: newMessage.expiresAt });
+      updateConversation(conversationService.recordMessage(newMessage.recipient, newMessage, preview, false));
+    }
+    if (group) {
+      const members = group.members.filter(member => member !== currentUser.username);
+      for (const member of members) {
+        for (const address of deviceService.addressesOf(member)) {
+          await outboxService.enqueue({ ...newMessage, recipient: member, recipientDevice: parseAddress(address).deviceId });
+        }
+      }
+    }
+    // Our other devices get their own copy, so the conversation reads the same everywhere
+    const { groupId, ...synced } = newMessage;
+    await enqueueForDevices({ ...synced, recipient: currentUser.username, syncFor: peer }, cryptoService.getIdentityPublicKey()!, text);
+  };
+
+  // Failed messages that never reached the outbox had no key for the recipient; encrypt them now if there is one
+  const resendMessage = async (message: Message) => {
+    if (outboxService.isQueued(message.id)) return outboxService.retry(message.id);
+    const stored = await storageService.get<StoredMessage>('messages', message.id);
+    const group = message.groupId ? groupService.get(message.groupId) : null;
+    if (stored && group) {
+      // Encrypted afresh: the chain it was first sent under may be gone, as after a restore
+      let content: string;
+      try {
+        content = await groupService.encrypt(group.id, stored.text);
+      } catch (e) {
+        if (!(e instanceof GroupError)) throw e;
+        console.error('Could not resend group message: ' + e.message);
+        return;
+      }
+      await handleOutboxStatus(stored.message, 'pending');
+      for (const member of group.members.filter(member => member !== currentUser?.username)) {
+        for (const address of deviceService.addressesOf(member)) {
+          await outboxService.enqueue({ ...stored.message, content, status: 'pending', recipient: member, recipientDevice: parseAddress(address).deviceId });
+        }
+      }
+      return;
+    }
+    const recipientKey = await signalingService.requestPeerKey(message.recipient);
+    if (!stored || !recipientKey) return;
+    await handleOutboxStatus(stored.message, 'pending');
+    await enqueueForDevices({ ...stored.message, status: 'pending' }, recipientKey, stored.text);
+  };
+
+  const sendMessage = async (text: string) => {
+    if (!activeChatUser || !text.trim()) return;
+    typingService.stop();
+    if (editingMessage) {
+      const target = editingMessage.id;
+      setEditingMessage(null);
+      await mutate(activeChatUser.username, { action: 'edit', target, text });
+      return;
+    }
+    const replyTo = replyingTo?.id;
+    setReplyingTo(null);
+    await sendToPeer(activeChatUser.username, text, 'text', newMessageId(), replyTo ? { replyTo } : {});
+  };
+
+  // Applies a mutation to our copy first, then sends it to everyone who has the message
+  const mutate = async (peer: string, mutation: Mutation) => {
+    if (!currentUser) return;
+    setMessageMenu(null);
+    const timestamp = Date.now();
+    const updated = await mutationService.apply(peer, currentUser.username, mutation, timestamp, currentUser.username);
+    if (!updated) return;
+    await showMutation(peer, updated);
+    await sendToPeer(peer, encodeMutation(mutation), 'mutation', newMessageId(), { timestamp });
+  };
+
+  const startEdit = (m: Message) => {
+    setMessageMenu(null);
+    setReplyingTo(null);
+    setEditingMessage(m);
+    if (composerRef.current) {
+      composerRef.current.value = decryptedMessages[m.id] ?? '';
+      composerRef.current.focus();
+    }
+  };
+
+  const showEditHistory = async (m: Message) => {
+    setMessageMenu(null);
+    const stored = await storageService.get<StoredMessage>('messages', m.id);
+    if (stored) setEditHistory([...(stored.edits ?? []), { text: stored.text, at: m.editedAt ?? m.timestamp }]);
+  };
+
+  const handleTransferProgress = (progress: TransferProgress) => {
+    setTransfers(prev => ({ ...prev, [progress.fileId]: progress }));
+  };
+
+  const sendAttachment = async (blob: Blob, kind: AttachmentKind, name: string, duration?: number) => {
+    if (!activeChatUser) return;
+    setAttachmentError(null);
+    const peer = activeChatUser.username;
+    const id = newMessageId();
+    try {
+      const descriptor = await attachmentService.prepare(peer, id, blob, name, duration);
+      handleTransferProgress({ fileId: id, done: descriptor.chunkCount, total: descriptor.chunkCount, state: 'complete' });
+      await sendToPeer(peer, JSON.stringify(descriptor), kind, id);
+    } catch (e) {
+      if (!(e instanceof AttachmentError)) throw e;
+      setAttachmentError(e.message);
+    }
+  };
+
+  const pickFile = (file: File | undefined) => {
+    if (file) sendAttachment(file, file.type.startsWith('image/') ? 'image' : 'file', file.name);
+  };
+
+  const toggleRecording = async () => {
+    if (recording) {
+      recording.recorder.stop();
+      return;
+    }
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setAttachmentError('Microphone access was denied');
+      return;
+    }
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    recorder.ondataavailable = (e) => chunks.push(e.data);
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      setRecording(null);
+      const blob = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+      sendAttachment(blob, 'voice', 'voice-note.webm', (Date.now() - startedAt) / 1000);
     };
+    recorder.start();
+    setRecording({ recorder, startedAt });
+  };
+
+  // Both sides apply the timer when the system message is sent or received
+  const setDisappearing = async (peer: string, duration: number | null) => {
+    setDisappearingMenu(false);
+    if ((conversations[peer]?.disappearingAfter ?? null) === duration) return;
+    updateConversation(conversationService.setDisappearing(peer, duration));
+    await sendToPeer(peer, encodeSystemEvent({ event: 'disappearing', duration }), 'system');
+  };
+
+  const openSafetyNumber = async (username: string) => {
+    const pinned = trustService.get(username);
+    const localSigningKey = cryptoService.getSigningPublicKey();
+    if (!currentUser || !pinned || !localSigningKey) return;
+    setSafetyNumber(null);
+    setCurrentScreen(AppScreen.SAFETY_NUMBER);
+    setSafetyNumber(await cryptoService.getSafetyNumber(
+      { username: currentUser.username, publicKey: currentUser.publicKey, signingKey: localSigningKey },
+      {
+        username,
+        publicKey: pinned.pendingPublicKey ?? pinned.publicKey,
+        signingKey: pinned.pendingSigningKey ?? pinned.signingKey
+      }
+    ));
+  };
+
+  const acceptKeyChange = (username: string) => {
+    const accepted = trustService.acceptPending(username);
+    if (!accepted) return;
+    // The old sessions were bound to the previous identity key
+    deviceService.addressesOf(username).forEach(address => ratchetService.reset(address));
+    setIdentities(prev => ({ ...prev, [username]: accepted }));
+    if (activeChatUser?.username === username) setActiveChatUser({ ...activeChatUser, publicKey: accepted.publicKey });
+  };
 
-    setMessages(prev => [...prev, newMessage]);
-    await signalingService.sendMessage(newMessage);
+  const toggleVerified = (username: string) => {
+    const pinned = trustService.get(username);
+    if (!pinned) return;
+    trustService.setVerified(username, !pinned.verified);
+    setIdentities(prev => ({ ...prev, [username]: { ...trustService.get(username)! } }));
   };
 
+  const SettingToggle = ({ label, description, value, onChange }: { label: string, description: string, value: boolean, onChange: (value: boolean) => void }) => (
+    <button onClick={() => onChange(!value)} className="w-full flex items-center gap-4 p-5 glass rounded-3xl text-left transition active:scale-[0.98]">
+      <div className="flex-1">
+        <div className="text-sm font-bold text-white">{label}</div>
+        <div className="text-[10px] text-neutral-500 font-medium mt-0.5">{description}</div>
+      </div>
+      <div className={`w-11 h-6 rounded-full p-1 transition-colors ${value ? 'bg-emerald-500' : 'bg-neutral-800'}`}>
+        <div className={`w-4 h-4 rounded-full bg-black transition-transform ${value ? 'translate-x-5' : ''}`}></div>
+      </div>
+    </button>
+  );
+
   const Avatar = ({ user, size = "w-10 h-10" }: { user: UserProfile | null, size?: string }) => {
     const src = user?.avatarData || getAvatarUrl(user?.avatarSeed || 'default');
     return <img src={src} className={`${size} rounded-full border border-neutral-800 bg-neutral-900 object-cover`} alt="avatar" />;
   };
 
   // Render Screens
+  const renderUsernameStep = () => {
+    const username = normalizeUsername(usernameInput);
+    const problems = usernameInput ? validateUsername(username) : [];
+    const blocked = !usernameInput || problems.length > 0 || availability === 'taken' || availability === 'checking';
+    return (
+      <>
+        <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Identity Username</label>
+        <input 
+          type="text" 
+          placeholder="e.g. nirob_07" 
+          autoFocus
+          autoCapitalize="none"
+          autoCorrect="off"
+          spellCheck={false}
+          className={`w-full bg-black border rounded-2xl px-5 py-4 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500/50 ${problems.length > 0 || availability === 'taken' ? 'border-red-500/50' : 'border-neutral-800'}`}
+          value={usernameInput}
+          onChange={(e) => setUsernameInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && !blocked && chooseUsername()}
+        />
+        <div className="text-left text-[10px] font-bold mt-2 mb-6 ml-2 space-y-1 min-h-4">
+          {problems.map(problem => <p key={problem} className="text-red-500">{problem}</p>)}
+          {availability === 'checking' && <p className="text-neutral-500">Checking availability…</p>}
+          {availability === 'available' && <p className="text-emerald-500">@{username} is available</p>}
+          {availability === 'taken' && <p className="text-red-500">@{username} is in use right now. Choose another username.</p>}
+          {availability === 'unknown' && <p className="text-neutral-500">Could not reach the network to check @{username}. You can still continue.</p>}
+        </div>
+        <button 
+          onClick={chooseUsername}
+          disabled={blocked}
+          className="w-full bg-emerald-500 hover:bg-emerald-400 disabled:opacity-40 text-black font-black rounded-2xl py-4 transition-all transform active:scale-95 shadow-xl shadow-emerald-500/10"
+        >
+          CONTINUE
+        </button>
+      </>
+    );
+  };
+
+  const renderKeysStep = () => (
+    <>
+      <p className="text-xs text-neutral-500 text-left mb-4">
+        These keys were just created on this device and never leave it. Contacts who verify your safety number are checking this fingerprint.
+      </p>
+      <div className="grid grid-cols-3 gap-3 p-5 rounded-2xl bg-black border border-neutral-800 font-mono text-lg text-white tracking-widest mb-6">
+        {(draftIdentity?.fingerprint.match(/.{5}/g) ?? []).map((group, i) => <span key={i}>{group}</span>)}
+      </div>
+      <button 
+        onClick={() => setOnboardingStep('passphrase')}
+        disabled={!draftIdentity}
+        className="w-full bg-emerald-500 hover:bg-emerald-400 disabled:opacity-40 text-black font-black rounded-2xl py-4 transition-all transform active:scale-95 shadow-xl shadow-emerald-500/10"
+      >
+        CONTINUE
+      </button>
+      <button
+        onClick={generateDraftIdentity}
+        className="w-full mt-3 text-neutral-500 hover:text-white font-bold py-3 uppercase text-[10px] tracking-[0.2em] transition"
+      >
+        Generate new keys
+      </button>
+      <button
+        onClick={() => setOnboardingStep('username')}
+        className="w-full text-neutral-500 hover:text-white font-bold py-3 uppercase text-[10px] tracking-[0.2em] transition"
+      >
+        Back
+      </button>
+    </>
+  );
+
   const renderOnboarding = () => (
     <div className="flex flex-col items-center justify-center h-screen p-8 text-center bg-[#050505]">
       <div className="mb-12">
@@ -140,139 +1591,669 @@ const App: React.FC = () => {
         <p className="text-neutral-500 text-sm font-light">Global P2P Secure Messenger</p>
       </div>
       <div className="w-full max-w-sm glass rounded-[2.5rem] p-8">
-        <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Identity Username</label>
-        <input 
-          type="text" 
-          placeholder="e.g. nirob_07" 
+        {onboardingMode === 'create' && (
+          <p className="text-[9px] uppercase tracking-[0.3em] font-black text-emerald-500 mb-6">
+            Step {['username', 'keys', 'passphrase'].indexOf(onboardingStep) + 1} of 3 · {onboardingStep === 'username' ? 'Choose a Username' : onboardingStep === 'keys' ? 'Your Identity Keys' : 'Protect Your Vault'}
+          </p>
+        )}
+        {onboardingMode === 'link' && (
+          <>
+            <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Pairing Code</label>
+            <textarea
+              placeholder="Settings → Devices → Link a New Device on your other device"
+              rows={3}
+              className="w-full bg-black border border-neutral-800 rounded-2xl px-5 py-4 text-white font-mono text-xs focus:outline-none focus:ring-1 focus:ring-emerald-500/50 mb-6 resize-none"
+              value={pairingInput}
+              onChange={(e) => setPairingInput(e.target.value)}
+            />
+            <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Device Name</label>
+            <input 
+              type="text" 
+              placeholder="e.g. Laptop" 
+              className="w-full bg-black border border-neutral-800 rounded-2xl px-5 py-4 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500/50 mb-6"
+              value={deviceNameInput}
+              onChange={(e) => setDeviceNameInput(e.target.value)}
+            />
+            <p className="text-xs text-neutral-500 text-left mb-6">Your contacts come across, your message history does not. This device shows messages sent and received from now on.</p>
+          </>
+        )}
+        {onboardingMode === 'restore' && (
+          <>
+            <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Backup File</label>
+            <label className="block w-full bg-black border border-neutral-800 rounded-2xl px-5 py-4 text-left text-sm cursor-pointer hover:border-emerald-500/50 transition mb-6 truncate">
+              <span className={backupFile ? 'text-white' : 'text-neutral-600'}>{backupFile?.name ?? `Choose a ${BACKUP_EXTENSION} file`}</span>
+              <input type="file" accept={`${BACKUP_EXTENSION},application/json`} className="hidden" onChange={(e) => { pickBackupFile(e.target.files?.[0]); e.target.value = ''; }} />
+            </label>
+            <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Backup Passphrase</label>
+            <input 
+              type="password" 
+              placeholder="The passphrase the backup was made with" 
+              className="w-full bg-black border border-neutral-800 rounded-2xl px-5 py-4 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500/50 mb-6"
+              value={backupPassphrase}
+              onChange={(e) => setBackupPassphrase(e.target.value)}
+            />
+          </>
+        )}
+        {onboardingMode === 'create' && onboardingStep === 'username' && renderUsernameStep()}
+        {onboardingMode === 'create' && onboardingStep === 'keys' && renderKeysStep()}
+        {onboardingMode === 'create' && onboardingStep === 'passphrase' && (
+          <>
+            <p className="text-xs text-neutral-500 text-left mb-6">Your passphrase encrypts your keys and history on this device. Without one, your vault is not protected at rest: anyone who can open this browser, or copy its data, can read your messages and use your identity.</p>
+            <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Vault Passphrase</label>
+            <input 
+              type="password" 
+              placeholder="At least 8 characters" 
+              autoFocus
+              className="w-full bg-black border border-neutral-800 rounded-2xl px-5 py-4 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500/50 mb-6"
+              value={passphraseInput}
+              onChange={(e) => setPassphraseInput(e.target.value)}
+            />
+            <input 
+              type="password" 
+              placeholder="Repeat passphrase" 
+              className="w-full bg-black border border-neutral-800 rounded-2xl px-5 py-4 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500/50 mb-6"
+              value={passphraseConfirm}
+              onChange={(e) => setPassphraseConfirm(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRegister(passphraseInput)}
+            />
+          </>
+        )}
+        {onboardingMode !== 'create' && (
+          <>
+            <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Vault Passphrase</label>
+            <input 
+              type="password" 
+              placeholder="At least 8 characters" 
+              className="w-full bg-black border border-neutral-800 rounded-2xl px-5 py-4 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500/50 mb-6"
+              value={passphraseInput}
+              onChange={(e) => setPassphraseInput(e.target.value)}
+            />
+          </>
+        )}
+        {vaultError && <p className="text-xs text-red-500 font-bold mb-4">{vaultError}</p>}
+        {onboardingMode === 'link' && (
+          <button 
+            onClick={() => handleLink(pairingInput, deviceNameInput, passphraseInput)}
+            disabled={linking || !pairingInput.trim()}
+            className="w-full bg-emerald-500 hover:bg-emerald-400 disabled:opacity-40 text-black font-black rounded-2xl py-4 transition-all transform active:scale-95 shadow-xl shadow-emerald-500/10"
+          >
+            {linking ? 'WAITING FOR YOUR OTHER DEVICE…' : 'LINK THIS DEVICE'}
+          </button>
+        )}
+        {onboardingMode === 'restore' && (
+          <button 
+            onClick={() => handleRestore(backupFile, backupPassphrase, passphraseInput)}
+            disabled={backupBusy || !backupFile}
+            className="w-full bg-emerald-500 hover:bg-emerald-400 disabled:opacity-40 text-black font-black rounded-2xl py-4 transition-all transform active:scale-95 shadow-xl shadow-emerald-500/10"
+          >
+            {backupBusy ? 'RESTORING…' : 'RESTORE BACKUP'}
+          </button>
+        )}
+        {onboardingMode === 'create' && onboardingStep === 'passphrase' && (
+          <>
+            <button 
+              onClick={() => handleRegister(passphraseInput)}
+              className="w-full bg-emerald-500 hover:bg-emerald-400 text-black font-black rounded-2xl py-4 transition-all transform active:scale-95 shadow-xl shadow-emerald-500/10"
+            >
+              GO ONLINE
+            </button>
+            <button
+              onClick={() => handleRegister(null)}
+              className="w-full mt-3 text-neutral-500 hover:text-white font-bold py-3 uppercase text-[10px] tracking-[0.2em] transition"
+            >
+              Continue without a passphrase (not protected)
+            </button>
+            <button
+              onClick={() => { setOnboardingStep('keys'); setVaultError(null); }}
+              className="w-full text-neutral-500 hover:text-white font-bold py-3 uppercase text-[10px] tracking-[0.2em] transition"
+            >
+              Back
+            </button>
+          </>
+        )}
+        {(onboardingMode !== 'create' || onboardingStep === 'username') && (
+          <div className="flex flex-col mt-3">
+            {(['create', 'link', 'restore'] as const).filter(mode => mode !== onboardingMode).map(mode => (
+              <button
+                key={mode}
+                onClick={() => { setOnboardingMode(mode); setVaultError(null); }}
+                disabled={linking || backupBusy}
+                className="w-full text-neutral-500 hover:text-white font-bold py-3 uppercase text-[10px] tracking-[0.2em] transition"
+              >
+                {mode === 'create' ? 'Create a new identity instead' : mode === 'link' ? 'Link to an existing account' : 'Restore from a backup'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderUnlock = () => (
+    <div className="flex flex-col items-center justify-center h-screen p-8 text-center bg-[#050505]">
+      <div className="mb-12">
+        <div className="w-24 h-24 rounded-full bg-emerald-500/10 flex items-center justify-center emerald-glow mx-auto mb-8">
+          <ICONS.Lock />
+        </div>
+        <h1 className="text-4xl font-black text-white tracking-tighter mb-2">{isLegacyInstall ? 'Secure Your Vault' : 'Vault Locked'}</h1>
+        <p className="text-neutral-500 text-sm font-light">
+          {isLegacyInstall ? 'Choose a passphrase to encrypt your identity and history on this device' : 'Enter your passphrase to decrypt local data'}
+        </p>
+      </div>
+      <div className="w-full max-w-sm glass rounded-[2.5rem] p-8">
+        <input 
+          type="password" 
+          placeholder="Passphrase" 
+          autoFocus
           className="w-full bg-black border border-neutral-800 rounded-2xl px-5 py-4 text-white focus:outline-none focus:ring-1 focus:ring-emerald-500/50 mb-6"
-          onKeyDown={(e) => e.key === 'Enter' && handleRegister((e.target as HTMLInputElement).value)}
+          value={passphraseInput}
+          onChange={(e) => setPassphraseInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleUnlock(passphraseInput)}
         />
+        {vaultError && <p className="text-xs text-red-500 font-bold mb-4">{vaultError}</p>}
         <button 
-          onClick={() => handleRegister((document.querySelector('input') as HTMLInputElement).value)}
+          onClick={() => handleUnlock(passphraseInput)}
           className="w-full bg-emerald-500 hover:bg-emerald-400 text-black font-black rounded-2xl py-4 transition-all transform active:scale-95 shadow-xl shadow-emerald-500/10"
         >
-          GO ONLINE
+          {isLegacyInstall ? 'ENCRYPT & CONTINUE' : 'UNLOCK'}
         </button>
+        {authenticatorEnrolled && !isLegacyInstall && (
+          <button
+            onClick={handleAuthenticatorUnlock}
+            className="w-full mt-3 bg-neutral-900 text-emerald-500 font-black rounded-2xl py-4 border border-neutral-800 transition-all transform active:scale-95 uppercase text-xs tracking-[0.2em]"
+          >
+            Unlock with Device
+          </button>
+        )}
       </div>
     </div>
   );
 
-  const renderChatList = () => (
-    <div className="flex flex-col h-screen bg-black">
-      <header className="px-6 pt-10 pb-6 flex items-center justify-between">
-        <div>
-          <h2 className="text-3xl font-black text-white">Inbox</h2>
-          <div className="flex items-center gap-1.5 mt-1">
-            <div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></div>
-            <span className="text-[10px] font-bold text-emerald-500/80 uppercase tracking-widest">P2P Network Active</span>
+  const renderConversationRow = (conversation: Conversation) => {
+    const group = groups[conversation.peer];
+    const peer = group ? groupProfile(group) : peerProfile(conversation.peer);
+    const menuOpen = conversationMenu === conversation.peer;
+    return (
+      <div key={conversation.peer} className="rounded-[2rem] hover:bg-neutral-900/40 transition-all">
+        <div 
+          onClick={() => openChat(conversation.peer)} 
+          className="flex items-center gap-4 p-5 cursor-pointer border border-transparent active:bg-neutral-900 rounded-[2rem]"
+        >
+          <div className="relative">
+            <Avatar user={peer} size="w-14 h-14" />
+            {presence[conversation.peer]?.online && <div className="absolute bottom-0 right-0 w-3.5 h-3.5 bg-emerald-500 border-2 border-black rounded-full"></div>}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-between items-center mb-0.5">
+              <span className="font-bold text-white truncate flex items-center gap-1.5">
+                {conversation.pinned && <span className="text-emerald-500"><ICONS.Pin /></span>}
+                {group ? group.name : nameOf(conversation.peer)}
+              </span>
+              <span className={`text-[10px] font-bold ${conversation.unreadCount > 0 ? 'text-emerald-500' : 'text-neutral-600'}`}>
+                {conversation.lastTimestamp ? formatTimestamp(conversation.lastTimestamp) : ''}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              {typingPeers.includes(conversation.peer) ? (
+                <div className="flex-1 text-sm truncate font-medium text-emerald-500 italic">typing…</div>
+              ) : (
+                <div className={`flex-1 text-sm truncate font-medium ${conversation.unreadCount > 0 ? 'text-neutral-300' : 'text-neutral-500'}`}>
+                  {conversation.lastSender === currentUser?.username ? 'You: ' : ''}{conversation.lastPreview || 'No messages yet'}
+                </div>
+              )}
+              {conversation.unreadCount > 0 && (
+                <span className="min-w-5 h-5 px-1.5 rounded-full bg-emerald-500 text-black text-[10px] font-black flex items-center justify-center">{conversation.unreadCount}</span>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); setConversationMenu(menuOpen ? null : conversation.peer); }}
+                className="w-6 h-6 flex items-center justify-center text-neutral-600 hover:text-white transition font-black"
+              >
+                ⋯
+              </button>
+            </div>
           </div>
         </div>
-        <button onClick={() => setCurrentScreen(AppScreen.SETTINGS)} className="w-12 h-12 rounded-2xl glass flex items-center justify-center text-neutral-400 hover:text-white transition">
-          <ICONS.Settings />
-        </button>
-      </header>
+        {menuOpen && (
+          <div className="flex gap-2 px-5 pb-4">
+            <button
+              onClick={() => { updateConversation(conversationService.setPinned(conversation.peer, !conversation.pinned)); setConversationMenu(null); }}
+              className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-2xl glass text-[10px] font-black uppercase tracking-[0.15em] text-neutral-400 hover:text-emerald-500 transition"
+            >
+              <ICONS.Pin /> {conversation.pinned ? 'Unpin' : 'Pin'}
+            </button>
+            <button
+              onClick={() => { updateConversation(conversationService.setArchived(conversation.peer, !conversation.archived)); setConversationMenu(null); }}
+              className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-2xl glass text-[10px] font-black uppercase tracking-[0.15em] text-neutral-400 hover:text-emerald-500 transition"
+            >
+              <ICONS.Archive /> {conversation.archived ? 'Unarchive' : 'Archive'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
 
-      <div className="px-6 pb-6">
-        <div className="relative group">
-          <div className="absolute inset-y-0 left-5 flex items-center text-neutral-500 group-focus-within:text-emerald-500 transition-colors"><ICONS.Search /></div>
-          <input 
-            type="text" 
-            placeholder="Search global username..." 
-            className="w-full bg-neutral-900/50 border border-neutral-800/50 rounded-[1.5rem] pl-14 pr-6 py-4 text-white focus:outline-none focus:bg-neutral-900 focus:border-emerald-500/30 transition-all"
-            value={searchQuery}
-            onChange={(e) => handleSearch(e.target.value)}
-          />
+  const renderChatList = () => {
+    const sorted = conversationService.sort(Object.values(conversations));
+    const requests = sorted.filter(c => isRequest(c.peer) && !contacts[c.peer]?.blocked);
+    const accepted = sorted.filter(c => !isRequest(c.peer));
+    const inbox = accepted.filter(c => !c.archived);
+    const archived = accepted.filter(c => c.archived);
+
+    return (
+      <div className="flex flex-col h-screen bg-black">
+        <header className="px-6 pt-10 pb-6 flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-black text-white">Inbox</h2>
+            <div className="flex items-center gap-1.5 mt-1">
+              <div className={`w-2 h-2 rounded-full bg-current ${CONNECTION_LABELS[connectionStatus.state].color} ${connectionStatus.state === 'connected' ? 'animate-pulse' : ''}`}></div>
+              <span className={`text-[10px] font-bold uppercase tracking-widest opacity-80 ${CONNECTION_LABELS[connectionStatus.state].color}`}>
+                {CONNECTION_LABELS[connectionStatus.state].label}
+                {connectionStatus.state === 'reconnecting' && connectionStatus.attempt > 1 ? ` (attempt ${connectionStatus.attempt})` : ''}
+              </span>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => { setGroupDraft(groupDraft ? null : { name: '', members: '' }); setGroupError(null); }}
+              title="New group"
+              className={`w-12 h-12 rounded-2xl glass flex items-center justify-center transition ${groupDraft ? 'text-emerald-500' : 'text-neutral-400 hover:text-white'}`}
+            >
+              <ICONS.Users />
+            </button>
+            <button onClick={() => { setContactEdit(null); setContactError(null); setCurrentScreen(AppScreen.CONTACTS); }} title="Contacts" className="w-12 h-12 rounded-2xl glass flex items-center justify-center text-neutral-400 hover:text-white transition">
+              <ICONS.Contacts />
+            </button>
+            <button onClick={openSettings} className="w-12 h-12 rounded-2xl glass flex items-center justify-center text-neutral-400 hover:text-white transition">
+              <ICONS.Settings />
+            </button>
+          </div>
+        </header>
+
+        {groupDraft && (
+          <div className="mx-6 mb-6 p-5 glass rounded-3xl space-y-3">
+            <div className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em]">New Group</div>
+            <input
+              type="text"
+              placeholder="Group name"
+              className={`w-full ${NETWORK_INPUT}`}
+              value={groupDraft.name}
+              onChange={(e) => setGroupDraft({ ...groupDraft, name: e.target.value })}
+            />
+            <input
+              type="text"
+              placeholder="Members, e.g. @alice, @bob"
+              className={`w-full ${NETWORK_INPUT}`}
+              value={groupDraft.members}
+              onChange={(e) => setGroupDraft({ ...groupDraft, members: e.target.value })}
+            />
+            {groupError && <p className="text-[10px] text-red-500 font-bold">{groupError}</p>}
+            <button onClick={createGroup} className="w-full bg-emerald-500 text-black font-black py-3 rounded-2xl uppercase text-[10px] tracking-[0.2em] transition transform active:scale-95">
+              Create Group
+            </button>
+          </div>
+        )}
+
+        {connectionStatus.error && (
+          <div className="mx-6 mt-4 p-4 rounded-2xl bg-red-500/10 border border-red-500/20 text-left">
+            <p className="text-xs text-red-400 font-bold">{connectionStatus.error}</p>
+            <button onClick={() => signalingService.restart()} className="mt-3 text-[10px] font-black uppercase tracking-[0.2em] text-red-500 hover:text-white transition">
+              Try Again
+            </button>
+          </div>
+        )}
+
+        <div className="px-6 pb-6">
+          <div className="relative group">
+            <div className="absolute inset-y-0 left-5 flex items-center text-neutral-500 group-focus-within:text-emerald-500 transition-colors"><ICONS.Search /></div>
+            <input 
+              type="text" 
+              placeholder={searchFilter.chat ? `Search messages in ${chatName(searchFilter.chat)}...` : 'Search messages or usernames...'} 
+              className="w-full bg-neutral-900/50 border border-neutral-800/50 rounded-[1.5rem] pl-14 pr-6 py-4 text-white focus:outline-none focus:bg-neutral-900 focus:border-emerald-500/30 transition-all"
+              value={searchQuery}
+              onChange={(e) => handleSearch(e.target.value)}
+            />
+          </div>
         </div>
-      </div>
 
-      <div className="flex-1 overflow-y-auto px-6 space-y-2">
-        {searchQuery.length > 0 ? (
-          <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
-            <h3 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] mb-4 ml-2">Global Discovery</h3>
-            {searchResults.length > 0 ? (
-              searchResults.map(user => (
-                <div 
-                  key={user.username}
-                  onClick={() => {
-                    setActiveChatUser(user);
-                    setSearchQuery('');
-                    setCurrentScreen(AppScreen.CHAT_DETAIL);
-                  }}
-                  className="flex items-center gap-4 p-5 glass rounded-3xl cursor-pointer hover:bg-emerald-500/5 transition-all border border-transparent hover:border-emerald-500/20"
-                >
-                  <Avatar user={user} size="w-12 h-12" />
-                  <div className="flex-1">
-                    <div className="font-bold text-white">@{user.username}</div>
-                    <div className="text-[10px] text-neutral-500 font-medium">Ready to connect</div>
-                  </div>
-                  <div className="w-8 h-8 rounded-full bg-emerald-500/10 flex items-center justify-center text-emerald-500"><ICONS.Plus /></div>
-                </div>
-              ))
-            ) : (
-              <div className="p-10 text-center opacity-30 italic text-sm">Searching network...</div>
+        {(searchQuery.length > 0 || searchFilter.chat) && (
+          <div className="px-6 pb-4 flex flex-wrap gap-2">
+            <select
+              value={searchFilter.chat ?? ''}
+              onChange={(e) => setSearchFilter({ ...searchFilter, chat: e.target.value || undefined })}
+              className={`${NETWORK_INPUT} flex-1 min-w-[8rem]`}
+            >
+              <option value="">All conversations</option>
+              {conversationService.sort(Object.values(conversations)).map(c => (
+                <option key={c.peer} value={c.peer}>{chatName(c.peer)}</option>
+              ))}
+            </select>
+            {(['from', 'to'] as const).map(bound => (
+              <input
+                key={bound}
+                type="date"
+                title={bound === 'from' ? 'From' : 'Until'}
+                value={searchFilter[bound] === undefined ? '' : new Date(searchFilter[bound]!).toLocaleDateString('en-CA')}
+                onChange={(e) => setSearchFilter({
+                  ...searchFilter,
+                  [bound]: e.target.value ? new Date(`${e.target.value}T${bound === 'from' ? '00:00:00' : '23:59:59.999'}`).getTime() : undefined
+                })}
+                className={NETWORK_INPUT}
+              />
+            ))}
+            {(searchFilter.chat || searchFilter.from !== undefined || searchFilter.to !== undefined) && (
+              <button onClick={() => setSearchFilter({})} className="px-3 text-[10px] font-black uppercase tracking-[0.2em] text-neutral-500 hover:text-white transition">
+                Clear
+              </button>
             )}
           </div>
-        ) : (
-          <div className="space-y-3">
-            {activeChatUser && (
-              <div 
-                onClick={() => setCurrentScreen(AppScreen.CHAT_DETAIL)} 
-                className="flex items-center gap-4 p-5 hover:bg-neutral-900/40 rounded-[2rem] cursor-pointer transition-all border border-transparent active:bg-neutral-900"
-              >
-                <div className="relative">
-                  <Avatar user={activeChatUser} size="w-14 h-14" />
-                  <div className="absolute bottom-0 right-0 w-4 h-4 bg-emerald-500 border-4 border-black rounded-full"></div>
+        )}
+
+        <div className="flex-1 overflow-y-auto px-6 space-y-2">
+          {searchQuery.length > 0 ? (
+            <div className="animate-in fade-in slide-in-from-bottom-2 duration-300">
+              <h3 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] mb-4 ml-2">Messages</h3>
+              {messageResults.length > 0 ? (
+                <div className="space-y-2 mb-8">
+                  {messageResults.map(result => (
+                    <div
+                      key={result.id}
+                      onClick={() => jumpToMessage(result)}
+                      className="p-4 glass rounded-3xl cursor-pointer hover:bg-emerald-500/5 transition-all border border-transparent hover:border-emerald-500/20"
+                    >
+                      <div className="flex justify-between gap-3">
+                        <span className="text-xs font-bold text-white truncate">
+                          {chatName(result.chat)}{groups[result.chat] ? ` · @${result.sender}` : ''}
+                        </span>
+                        <span className="text-[9px] font-bold uppercase opacity-40 shrink-0">{new Date(result.timestamp).toLocaleDateString()}</span>
+                      </div>
+                      <p className="text-xs text-neutral-400 mt-1 line-clamp-2 break-words">
+                        {result.sender === currentUser?.username ? 'You: ' : ''}{result.text}
+                      </p>
+                    </div>
+                  ))}
                 </div>
-                <div className="flex-1">
-                  <div className="flex justify-between items-center mb-0.5">
-                    <span className="font-bold text-white">@{activeChatUser.username}</span>
-                    <span className="text-[10px] font-bold text-neutral-600">NOW</span>
-                  </div>
-                  <div className="text-sm text-neutral-500 truncate font-medium">Active session established</div>
+              ) : (
+                <div className="p-6 mb-4 text-center opacity-30 italic text-sm">No matching messages</div>
+              )}
+              {!searchFilter.chat && (
+                <>
+                  <h3 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] mb-4 ml-2">Global Discovery</h3>
+                  {searchResults.length > 0 ? (
+                    searchResults.map(user => (
+                      <div 
+                        key={user.username}
+                        onClick={() => {
+                          setSearchQuery('');
+                          openChat(user.username);
+                        }}
+                        className="flex items-center gap-4 p-5 glass rounded-3xl cursor-pointer hover:bg-emerald-500/5 transition-all border border-transparent hover:border-emerald-500/20"
+                      >
+                        <Avatar user={user} size="w-12 h-12" />
+                        <div className="flex-1">
+                          <div className="font-bold text-white">@{user.username}</div>
+                          <div className="text-[10px] text-neutral-500 font-medium">Ready to connect</div>
+                        </div>
+                        <div className="w-8 h-8 rounded-full bg-emerald-500/10 flex items-center justify-center text-emerald-500"><ICONS.Plus /></div>
+                      </div>
+                    ))
+                  ) : (
+                    <div className="p-10 text-center opacity-30 italic text-sm">Searching network...</div>
+                  )}
+                </>
+              )}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {requests.length > 0 && (
+                <button
+                  onClick={() => setShowRequests(!showRequests)}
+                  className="w-full flex items-center justify-between px-5 py-4 rounded-[2rem] glass text-left transition hover:bg-emerald-500/5"
+                >
+                  <span className="text-[10px] font-black text-neutral-400 uppercase tracking-[0.2em]">Message Requests</span>
+                  <span className="min-w-5 h-5 px-1.5 rounded-full bg-emerald-500 text-black text-[10px] font-black flex items-center justify-center">{requests.length}</span>
+                </button>
+              )}
+              {showRequests && requests.map(renderConversationRow)}
+              {inbox.map(renderConversationRow)}
+              {archived.length > 0 && (
+                <button
+                  onClick={() => setShowArchived(!showArchived)}
+                  className="w-full flex items-center justify-center gap-2 py-4 text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] hover:text-neutral-400 transition"
+                >
+                  <ICONS.Archive /> {showArchived ? 'Hide' : 'Show'} Archived ({archived.length})
+                </button>
+              )}
+              {showArchived && archived.map(renderConversationRow)}
+              {inbox.length === 0 && archived.length === 0 && requests.length === 0 && (
+                <div className="flex flex-col items-center justify-center pt-20 opacity-20">
+                  <div className="w-16 h-16 rounded-full border-2 border-dashed border-neutral-500 flex items-center justify-center mb-4"><ICONS.Plus /></div>
+                  <p className="text-sm font-bold uppercase tracking-widest">No Active Connections</p>
                 </div>
-              </div>
-            )}
-            {!activeChatUser && (
-              <div className="flex flex-col items-center justify-center pt-20 opacity-20">
-                <div className="w-16 h-16 rounded-full border-2 border-dashed border-neutral-500 flex items-center justify-center mb-4"><ICONS.Plus /></div>
-                <p className="text-sm font-bold uppercase tracking-widest">No Active Connections</p>
-              </div>
-            )}
-          </div>
-        )}
+              )}
+            </div>
+          )}
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
+
+  const renderAttachment = (m: Message) => {
+    const descriptor = decryptedMessages[m.id] ? parseAttachment(decryptedMessages[m.id]) : null;
+    if (!descriptor) return decryptedMessages[m.id] ? 'Unreadable attachment' : 'Decrypting...';
+    const transfer = transfers[m.id];
+    const url = attachmentUrls[m.id];
+
+    if (transfer?.state === 'failed') {
+      return <span className="text-red-500 text-xs font-bold">{descriptor.name}: {transfer.error}</span>;
+    }
+    if (!url) {
+      const percent = transfer ? Math.round((transfer.done / transfer.total) * 100) : 0;
+      return (
+        <div className="w-48">
+          <div className="text-xs font-bold truncate">{descriptor.name}</div>
+          <div className="h-1 mt-2 rounded-full bg-black/30 overflow-hidden">
+            <div className="h-full bg-current transition-all" style={{ width: `${percent}%` }}></div>
+          </div>
+          <div className="text-[9px] font-black uppercase tracking-widest mt-1 opacity-60">{percent}% · {formatSize(descriptor.size)}</div>
+        </div>
+      );
+    }
+    const previewable = isPreviewable(descriptor.mime);
+    if (m.type === 'image' && previewable && descriptor.mime.startsWith('image/')) return <img src={url} alt={descriptor.name} className="max-h-64 rounded-xl" />;
+    if (m.type === 'voice' && previewable && descriptor.mime.startsWith('audio/')) return <audio src={url} controls className="w-56 h-10" />;
+    return (
+      <a href={url} download={descriptor.name} className="flex items-center gap-3 w-52">
+        <ICONS.File />
+        <div className="min-w-0">
+          <div className="text-xs font-bold truncate">{descriptor.name}</div>
+          <div className="text-[9px] font-black uppercase tracking-widest opacity-60">{formatSize(descriptor.size)} · Download</div>
+        </div>
+      </a>
+    );
+  };
 
   const renderChatDetail = () => {
     if (!activeChatUser) return null;
-    const chatMessages = messages.filter(m => 
+    const group = groups[activeChatUser.username];
+    const chatMessages = messages.filter(m => group ? m.groupId === group.id : !m.groupId && (
       (m.sender === currentUser?.username && m.recipient === activeChatUser.username) ||
       (m.sender === activeChatUser.username && m.recipient === currentUser?.username)
-    ).sort((a, b) => a.timestamp - b.timestamp);
+    )).sort((a, b) => a.timestamp - b.timestamp);
+    const identity = identities[activeChatUser.username];
+    const peerPresence = presence[activeChatUser.username];
+    const disappearingAfter = conversations[activeChatUser.username]?.disappearingAfter;
 
     return (
-      <div className="flex flex-col h-screen bg-black">
+      <div className="flex flex-col h-screen bg-black relative">
+        {editHistory && (
+          <div className="absolute inset-0 z-30 bg-black/95 flex flex-col p-8 overflow-y-auto">
+            <h2 className="text-xs font-black uppercase tracking-[0.3em] text-emerald-500 mb-6">Edit History</h2>
+            <div className="flex flex-col gap-3">
+              {editHistory.map((version, i) => (
+                <div key={i} className="p-4 rounded-2xl glass border border-neutral-800">
+                  <p className="text-sm text-white break-words">{version.text}</p>
+                  <p className="text-[9px] font-bold uppercase opacity-40 mt-2">
+                    {i === editHistory.length - 1 ? 'Current · ' : ''}{new Date(version.at).toLocaleString()}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <button onClick={() => setEditHistory(null)} className="mt-8 self-center text-[10px] font-black uppercase tracking-[0.2em] text-neutral-400 hover:text-white transition">
+              Close
+            </button>
+          </div>
+        )}
+        {identity?.pendingPublicKey && (
+          <div className="absolute inset-0 z-20 bg-black/95 flex flex-col items-center justify-center p-10 text-center">
+            <div className="w-20 h-20 rounded-full bg-red-500/10 text-red-500 flex items-center justify-center mb-8"><ICONS.Shield /></div>
+            <h3 className="text-2xl font-black text-white tracking-tight">Safety Number Changed</h3>
+            <p className="text-sm text-neutral-500 mt-3 leading-relaxed">
+              @{activeChatUser.username} is presenting a different identity key. They may have reinstalled WhisperLine, or someone else may be using their ID. Messaging is paused until you decide.
+            </p>
+            <div className="w-full mt-10 space-y-3">
+              <button onClick={() => openSafetyNumber(activeChatUser.username)} className="w-full bg-emerald-500 text-black font-black py-4 rounded-2xl uppercase text-xs tracking-[0.2em] transition transform active:scale-95">Compare Safety Number</button>
+              <button onClick={() => acceptKeyChange(activeChatUser.username)} className="w-full bg-neutral-900 text-red-500 font-black py-4 rounded-2xl border border-red-500/10 uppercase text-xs tracking-[0.2em] transition transform active:scale-95">Accept New Key</button>
+              <button onClick={() => setCurrentScreen(AppScreen.CHAT_LIST)} className="w-full text-neutral-500 font-bold py-3 uppercase text-[10px] tracking-[0.2em]">Back to Inbox</button>
+            </div>
+          </div>
+        )}
         <header className="p-5 border-b border-neutral-900/50 flex items-center justify-between glass">
           <div className="flex items-center gap-4">
             <button onClick={() => setCurrentScreen(AppScreen.CHAT_LIST)} className="p-2 -ml-2 text-neutral-400 hover:text-white transition"><ICONS.ArrowLeft /></button>
             <div className="relative">
               <Avatar user={activeChatUser} size="w-11 h-11" />
-              <div className="absolute -bottom-1 -right-1 w-3.5 h-3.5 bg-emerald-500 border-[3px] border-black rounded-full"></div>
-            </div>
-            <div>
-              <div className="font-black text-white text-sm tracking-tight">@{activeChatUser.username}</div>
-              <div className="text-[9px] text-emerald-500 uppercase tracking-[0.15em] font-black">Connected P2P</div>
+              {!group && peerPresence?.online && <div className="absolute -bottom-1 -right-1 w-3.5 h-3.5 bg-emerald-500 border-[3px] border-black rounded-full"></div>}
             </div>
+            {group ? (
+              <div>
+                <div className="font-black text-white text-sm tracking-tight">{group.name}</div>
+                <div className="text-[9px] uppercase tracking-[0.15em] font-black text-neutral-600">
+                  {group.left ? 'You left this group' : `${group.members.length} members`}
+                </div>
+              </div>
+            ) : (
+              <div>
+                <div className="font-black text-white text-sm tracking-tight">{nameOf(activeChatUser.username)}</div>
+                <div className={`text-[9px] uppercase tracking-[0.15em] font-black ${peerPresence?.online ? 'text-emerald-500' : 'text-neutral-600'}`}>
+                  {nameOf(activeChatUser.username) !== `@${activeChatUser.username}` && <span className="text-neutral-600 normal-case tracking-normal">@{activeChatUser.username} · </span>}
+                  {typingPeers.includes(activeChatUser.username) ? 'typing…' : peerPresence?.online ? 'Online' : formatLastSeen(peerPresence?.lastSeen ?? null)}
+                </div>
+              </div>
+            )}
           </div>
           <div className="flex gap-2">
-            <button onClick={() => setCurrentScreen(AppScreen.CALL)} className="w-10 h-10 rounded-xl glass flex items-center justify-center text-neutral-400 hover:text-emerald-500 transition"><ICONS.Phone /></button>
-            <button onClick={() => setCurrentScreen(AppScreen.CALL)} className="w-10 h-10 rounded-xl glass flex items-center justify-center text-neutral-400 hover:text-emerald-500 transition"><ICONS.Video /></button>
+            {group && (
+              <button
+                onClick={() => { setGroupPanel(!groupPanel); setGroupError(null); }}
+                title="Members"
+                className={`w-10 h-10 rounded-xl glass flex items-center justify-center transition ${groupPanel ? 'text-emerald-500' : 'text-neutral-400 hover:text-emerald-500'}`}
+              >
+                <ICONS.Users />
+              </button>
+            )}
+            <button
+              onClick={() => { setSearchFilter({ chat: activeChatUser.username }); setSearchQuery(''); setCurrentScreen(AppScreen.CHAT_LIST); }}
+              title="Search this conversation"
+              className="w-10 h-10 rounded-xl glass flex items-center justify-center text-neutral-400 hover:text-emerald-500 transition"
+            >
+              <ICONS.Search />
+            </button>
+            <button
+              onClick={() => setDisappearingMenu(!disappearingMenu)}
+              title="Disappearing messages"
+              className={`h-10 min-w-10 px-2 rounded-xl glass flex items-center justify-center gap-1 transition ${disappearingAfter ? 'text-emerald-500' : 'text-neutral-400 hover:text-emerald-500'}`}
+            >
+              <ICONS.Clock />
+              {disappearingAfter && <span className="text-[9px] font-black">{formatCountdown(disappearingAfter)}</span>}
+            </button>
+            {!group && (
+              <>
+                <button
+                  onClick={() => openSafetyNumber(activeChatUser.username)}
+                  disabled={!identity}
+                  className={`w-10 h-10 rounded-xl glass flex items-center justify-center transition disabled:opacity-30 ${identity?.verified ? 'text-emerald-500' : 'text-neutral-400 hover:text-emerald-500'}`}
+                >
+                  <ICONS.Shield />
+                </button>
+                <button onClick={() => startCall('audio')} disabled={callState.isActive} className="w-10 h-10 rounded-xl glass flex items-center justify-center text-neutral-400 hover:text-emerald-500 transition disabled:opacity-30"><ICONS.Phone /></button>
+                <button onClick={() => startCall('video')} disabled={callState.isActive} className="w-10 h-10 rounded-xl glass flex items-center justify-center text-neutral-400 hover:text-emerald-500 transition disabled:opacity-30"><ICONS.Video /></button>
+              </>
+            )}
           </div>
         </header>
 
+        {group && groupPanel && (
+          <div className="px-5 py-4 border-b border-neutral-900/50 space-y-3">
+            <div className="text-[9px] font-black text-neutral-600 uppercase tracking-[0.2em]">Members</div>
+            {group.members.map(member => (
+              <div key={member} className="flex items-center gap-3">
+                <Avatar user={peerProfile(member)} size="w-8 h-8" />
+                <span className="flex-1 text-xs font-bold text-white">
+                  @{member}{member === currentUser?.username ? ' (you)' : ''}
+                </span>
+                {member === group.admin && <span className="text-[9px] font-black uppercase tracking-widest text-emerald-500">Admin</span>}
+                {!group.left && group.admin === currentUser?.username && member !== group.admin && (
+                  <button
+                    onClick={() => runGroupAction(() => groupService.removeMember(group.id, member))}
+                    className="text-[9px] font-black uppercase tracking-widest text-red-500 hover:text-red-400 transition"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            {!group.left && group.admin === currentUser?.username && (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  placeholder="Add members, e.g. @carol"
+                  className={`flex-1 ${NETWORK_INPUT}`}
+                  value={memberDraft}
+                  onChange={(e) => setMemberDraft(e.target.value)}
+                />
+                <button onClick={() => addGroupMembers(group.id)} className="px-4 rounded-2xl bg-emerald-500 text-black text-[10px] font-black uppercase tracking-widest">Add</button>
+              </div>
+            )}
+            {groupError && <p className="text-[10px] text-red-500 font-bold">{groupError}</p>}
+            {!group.left && (
+              <button
+                onClick={() => runGroupAction(() => groupService.leave(group.id))}
+                className="w-full py-3 rounded-2xl glass text-[10px] font-black uppercase tracking-[0.2em] text-red-500 hover:text-red-400 transition"
+              >
+                Leave Group
+              </button>
+            )}
+          </div>
+        )}
+
+        {disappearingMenu && (
+          <div className="px-5 py-4 border-b border-neutral-900/50">
+            <div className="text-[9px] font-black text-neutral-600 uppercase tracking-[0.2em] mb-3">Disappearing Messages</div>
+            <div className="flex flex-wrap gap-2">
+              {[null, ...DISAPPEARING_OPTIONS].map(option => (
+                <button
+                  key={option ?? 'off'}
+                  onClick={() => setDisappearing(activeChatUser.username, option)}
+                  className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition ${(disappearingAfter ?? null) === option ? 'bg-emerald-500 text-black' : 'glass text-neutral-400 hover:text-white'}`}
+                >
+                  {option ? formatTimer(option) : 'Off'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="flex-1 overflow-y-auto p-5 space-y-4 flex flex-col-reverse">
           <div className="flex flex-col space-y-4">
+            {hasMoreHistory[activeChatUser.username] && chatMessages.length > 0 && (
+              <button
+                onClick={() => loadHistory(activeChatUser.username, chatMessages[0].timestamp)}
+                className="self-center text-[9px] uppercase tracking-[0.2em] font-black text-neutral-500 hover:text-emerald-500 transition py-2"
+              >
+                Load Earlier Messages
+              </button>
+            )}
             {chatMessages.length === 0 && (
               <div className="text-center py-10 opacity-20 flex flex-col items-center">
                 <ICONS.Lock />
@@ -281,16 +2262,101 @@ const App: React.FC = () => {
             )}
             {chatMessages.map(m => {
               const isMine = m.sender === currentUser?.username;
+              const parent = m.replyTo ? messages.find(p => p.id === m.replyTo) : undefined;
+              const reactions = Object.entries(
+                Object.values<string>(m.reactions ?? {}).reduce<Record<string, number>>((counts, emoji) => ({ ...counts, [emoji]: (counts[emoji] ?? 0) + 1 }), {})
+              );
+              const ownReaction = m.reactions?.[currentUser?.username ?? ''] ?? null;
+              if (m.type === 'system') {
+                return (
+                  <div key={m.id} className="self-center text-center text-[10px] font-bold text-neutral-500 uppercase tracking-widest px-4 py-2 rounded-full glass">
+                    {decryptedMessages[m.id] ? describeSystemEvent(parseSystemEvent(decryptedMessages[m.id]), m.sender, currentUser?.username ?? '') : 'Decrypting...'}
+                  </div>
+                );
+              }
               return (
-                <div key={m.id} className={`flex flex-col ${isMine ? 'items-end' : 'items-start'}`}>
-                  <div className={`max-w-[80%] px-5 py-3.5 rounded-[1.5rem] text-sm leading-relaxed shadow-sm ${
-                    isMine ? 'bg-emerald-600 text-black font-bold rounded-tr-none' : 'bg-neutral-900 text-white rounded-tl-none border border-neutral-800'
-                  }`}>
-                    {decryptedMessages[m.id] || "Decrypting..."}
+                <div key={m.id} id={`message-${m.id}`} className={`flex flex-col rounded-3xl transition-colors duration-700 ${isMine ? 'items-end' : 'items-start'} ${highlightedMessage === m.id ? 'bg-emerald-500/10' : ''}`}>
+                  {group && !isMine && <span className="text-[9px] font-black text-neutral-500 mb-1 px-1">@{m.sender}</span>}
+                  {m.deleted ? (
+                    <div className="max-w-[80%] px-5 py-3.5 rounded-[1.5rem] text-xs italic text-neutral-500 border border-neutral-800">
+                      This message was deleted
+                    </div>
+                  ) : (
+                  <div
+                    onClick={() => setMessageMenu(messageMenu === m.id ? null : m.id)}
+                    className={`max-w-[80%] px-5 py-3.5 rounded-[1.5rem] text-sm leading-relaxed shadow-sm cursor-pointer ${
+                      isMine ? 'bg-emerald-600 text-black font-bold rounded-tr-none' : 'bg-neutral-900 text-white rounded-tl-none border border-neutral-800'
+                    }`}
+                  >
+                    {m.replyTo && (
+                      <div className={`mb-2 pl-3 border-l-2 text-xs truncate ${isMine ? 'border-black/40 text-black/70' : 'border-emerald-500 text-neutral-400'}`}>
+                        {parent ? (
+                          <><span className="font-black">@{parent.sender}</span> {describeMessage(parent, decryptedMessages[parent.id] ?? '', currentUser?.username ?? '')}</>
+                        ) : 'Original message unavailable'}
+                      </div>
+                    )}
+                    {m.type === 'text' ? (decryptedMessages[m.id] || "Decrypting...") : renderAttachment(m)}
                   </div>
-                  <div className="flex items-center gap-1.5 mt-1.5 px-1 opacity-40">
-                    <span className="text-[9px] font-bold uppercase">{new Date(m.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                    {isMine && <ICONS.Check />}
+                  )}
+                  {reactions.length > 0 && (
+                    <div className="flex gap-1 -mt-2 px-2 z-10">
+                      {reactions.map(([emoji, count]) => (
+                        <button
+                          key={emoji}
+                          onClick={() => mutate(activeChatUser.username, { action: 'react', target: m.id, emoji: ownReaction === emoji ? null : emoji })}
+                          className={`text-xs px-2 py-0.5 rounded-full border ${ownReaction === emoji ? 'bg-emerald-500/20 border-emerald-500/50' : 'bg-neutral-900 border-neutral-800'}`}
+                        >
+                          {emoji}{count > 1 && <span className="ml-1 text-[9px] font-black text-neutral-400">{count}</span>}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {messageMenu === m.id && !m.deleted && (
+                    <div className="mt-2 glass rounded-2xl border border-neutral-800 p-2 flex flex-col gap-1 min-w-[12rem]">
+                      <div className="flex justify-between px-1">
+                        {REACTIONS.map(emoji => (
+                          <button
+                            key={emoji}
+                            onClick={() => mutate(activeChatUser.username, { action: 'react', target: m.id, emoji: ownReaction === emoji ? null : emoji })}
+                            className={`text-lg p-1 rounded-lg transition active:scale-90 ${ownReaction === emoji ? 'bg-emerald-500/20' : 'hover:bg-neutral-800'}`}
+                          >
+                            {emoji}
+                          </button>
+                        ))}
+                      </div>
+                      {([
+                        ['Reply', () => { setMessageMenu(null); setEditingMessage(null); setReplyingTo(m); composerRef.current?.focus(); }, true],
+                        ['Edit', () => startEdit(m), currentUser ? mutationService.canEdit(m, currentUser.username, now) : false],
+                        ['Edit History', () => showEditHistory(m), !!m.editedAt],
+                        ['Delete for Everyone', () => mutate(activeChatUser.username, { action: 'delete', target: m.id }), isMine]
+                      ] as const).filter(([, , shown]) => shown).map(([label, action]) => (
+                        <button
+                          key={label}
+                          onClick={action}
+                          className={`text-left px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-[0.15em] hover:bg-neutral-800 transition ${label === 'Delete for Everyone' ? 'text-red-500' : 'text-neutral-300'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-1.5 mt-1.5 px-1">
+                    <span className="text-[9px] font-bold uppercase opacity-40">{new Date(m.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    {m.editedAt && !m.deleted && <span className="text-[9px] font-bold uppercase opacity-40">Edited</span>}
+                    {m.expiresAt && (
+                      <span className="flex items-center gap-0.5 text-[9px] font-black text-emerald-500/70" title="Disappears">
+                        <ICONS.Clock />{formatCountdown(m.expiresAt - now)}
+                      </span>
+                    )}
+                    {isMine && m.status === 'pending' && <span className="opacity-40" title="Waiting for recipient"><ICONS.Clock /></span>}
+                    {isMine && m.status === 'failed' && (
+                      <button onClick={() => resendMessage(m)} className="text-[9px] font-black uppercase tracking-widest text-red-500 hover:text-red-400 transition">
+                        Not Sent · Retry
+                      </button>
+                    )}
+                    {isMine && m.status === 'sent' && <span className="opacity-40" title="Sent"><ICONS.Check /></span>}
+                    {isMine && m.status === 'delivered' && <span className="opacity-40" title="Delivered"><ICONS.CheckDouble /></span>}
+                    {isMine && m.status === 'read' && <span className="text-emerald-400" title="Read"><ICONS.CheckDouble /></span>}
                   </div>
                 </div>
               );
@@ -298,12 +2364,82 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {!group && isRequest(activeChatUser.username) && !contacts[activeChatUser.username]?.blocked && (
+          <div className="px-5 pt-4 glass border-t border-neutral-900/50 text-center">
+            <p className="text-xs text-neutral-400">
+              <span className="font-bold text-white">@{activeChatUser.username}</span> is not in your contacts. They will not see read receipts until you accept.
+            </p>
+            <div className="flex gap-2 mt-3">
+              {([
+                ['Accept', () => saveContact(activeChatUser.username), 'text-emerald-500'],
+                ['Block', () => blockUser(activeChatUser.username, true), 'text-red-500'],
+                ['Delete', () => deleteConversation(activeChatUser.username), 'text-neutral-400']
+              ] as const).map(([label, action, color]) => (
+                <button key={label} onClick={action} className={`flex-1 py-2.5 rounded-2xl glass text-[10px] font-black uppercase tracking-[0.15em] ${color} transition active:scale-95`}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {group?.left ? (
+          <div className="p-5 glass border-t border-neutral-900/50 text-center text-[10px] font-black uppercase tracking-[0.2em] text-neutral-600">
+            You are no longer a member of this group
+          </div>
+        ) : !group && contacts[activeChatUser.username]?.blocked ? (
+          <div className="p-5 glass border-t border-neutral-900/50 text-center">
+            <p className="text-[10px] font-black uppercase tracking-[0.2em] text-neutral-600">You blocked this user</p>
+            <button onClick={() => blockUser(activeChatUser.username, false)} className="mt-3 text-[10px] font-black uppercase tracking-[0.2em] text-emerald-500 hover:text-white transition">
+              Unblock
+            </button>
+          </div>
+        ) : (
         <div className="p-5 glass border-t border-neutral-900/50">
+          {attachmentError && (
+            <button onClick={() => setAttachmentError(null)} className="w-full text-left text-[10px] text-red-500 font-bold mb-3 ml-2">{attachmentError}</button>
+          )}
+          {(replyingTo || editingMessage) && (
+            <div className="flex items-center gap-3 mb-3 mx-2 pl-3 border-l-2 border-emerald-500">
+              <div className="flex-1 min-w-0">
+                <p className="text-[9px] font-black uppercase tracking-[0.2em] text-emerald-500">
+                  {editingMessage ? 'Editing message' : `Replying to @${replyingTo!.sender}`}
+                </p>
+                <p className="text-xs text-neutral-400 truncate">
+                  {describeMessage(editingMessage ?? replyingTo!, decryptedMessages[(editingMessage ?? replyingTo!).id] ?? '', currentUser?.username ?? '')}
+                </p>
+              </div>
+              <button
+                onClick={() => {
+                  if (editingMessage && composerRef.current) composerRef.current.value = '';
+                  setReplyingTo(null);
+                  setEditingMessage(null);
+                }}
+                className="text-[10px] font-black uppercase tracking-widest text-neutral-500 hover:text-white transition"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
           <div className="flex items-center gap-3 bg-neutral-900/80 rounded-[1.8rem] px-4 py-2 border border-neutral-800">
+            <label className="w-8 h-8 flex items-center justify-center text-neutral-500 hover:text-emerald-500 transition cursor-pointer">
+              <ICONS.Paperclip />
+              <input type="file" className="hidden" onChange={(e) => { pickFile(e.target.files?.[0]); e.target.value = ''; }} />
+            </label>
+            <button
+              onClick={toggleRecording}
+              title={recording ? 'Stop and send' : 'Record voice note'}
+              className={`w-8 h-8 flex items-center justify-center transition ${recording ? 'text-red-500 animate-pulse' : 'text-neutral-500 hover:text-emerald-500'}`}
+            >
+              <ICONS.Mic />
+            </button>
             <input 
+              ref={composerRef}
               type="text" 
-              placeholder="Type secure message..." 
+              placeholder={recording ? 'Recording… tap the mic to send' : 'Type secure message...'}
+              disabled={!!recording}
               className="flex-1 bg-transparent text-white text-sm py-3 focus:outline-none font-medium"
+              onChange={(e) => group ? undefined : e.target.value ? typingService.keystroke(activeChatUser.username) : typingService.stop()}
               onKeyDown={(e) => {
                 if (e.key === 'Enter') {
                   sendMessage((e.target as HTMLInputElement).value);
@@ -313,7 +2449,8 @@ const App: React.FC = () => {
             />
             <button 
               onClick={() => {
-                const input = document.querySelector('input[placeholder="Type secure message..."]') as HTMLInputElement;
+                const input = composerRef.current;
+                if (!input) return;
                 sendMessage(input.value);
                 input.value = '';
               }} 
@@ -323,41 +2460,149 @@ const App: React.FC = () => {
             </button>
           </div>
         </div>
+        )}
       </div>
     );
   };
 
-  const renderCall = () => (
-    <div className="flex flex-col h-screen bg-[#050505] items-center justify-between p-12 text-center overflow-hidden">
-      <div className="mt-16 animate-in zoom-in duration-500">
-        <div className="text-emerald-500 text-[10px] font-black uppercase tracking-[0.4em] mb-12 animate-pulse">
-          {callState.status === 'dialing' ? 'Establishing P2P Tunnel...' : 'Live Session Connected'}
-        </div>
-        <div className="relative w-40 h-40 mx-auto">
-          <div className="absolute inset-0 bg-emerald-500/20 rounded-full animate-ping"></div>
-          <div className="relative w-40 h-40 rounded-full border-2 border-emerald-500/40 flex items-center justify-center p-2 bg-black">
-            <Avatar user={activeChatUser} size="w-36 h-36" />
+  const renderCall = () => {
+    const { status, type, direction } = callState;
+    const showVideo = type === 'video' && status === 'connected';
+    const ringing = direction === 'incoming' && status === 'dialing';
+    const headline = {
+      dialing: direction === 'incoming' ? `Incoming ${type} call` : 'Establishing P2P Tunnel...',
+      connecting: 'Negotiating Media...',
+      connected: 'Live Session Connected',
+      ended: 'Session Closed'
+    }[status];
+    const detail = status === 'connected' && callState.startTime
+      ? formatDuration(now - callState.startTime)
+      : status === 'ended' ? (callState.endReason ?? 'Call ended')
+      : ringing || callState.ringing ? 'Ringing' : 'Connecting Node';
+
+    return (
+      <div className="flex flex-col h-screen bg-[#050505] items-center justify-between p-12 text-center overflow-hidden relative">
+        {showVideo && (
+          <video ref={bindStream(callService.getRemoteStream())} autoPlay playsInline className="absolute inset-0 w-full h-full object-cover"></video>
+        )}
+        {type === 'audio' && status === 'connected' && (
+          <audio ref={bindStream(callService.getRemoteStream())} autoPlay></audio>
+        )}
+        {type === 'video' && callState.isActive && !callState.cameraOff && (
+          <video ref={bindStream(callService.getLocalStream())} autoPlay playsInline muted className="absolute top-6 right-6 w-28 h-40 rounded-2xl object-cover border border-neutral-800 z-10 -scale-x-100"></video>
+        )}
+
+        {status === 'connected' && callState.stats && (
+          <div className="absolute top-6 left-6 z-10 glass rounded-2xl px-4 py-3 text-left text-[9px] font-black uppercase tracking-widest space-y-1">
+            <div className={QUALITY_COLORS[callState.stats.quality]}>{callState.stats.quality}</div>
+            <div className="text-neutral-400">{callState.stats.bitrate} kbps</div>
+            <div className="text-neutral-400">{callState.stats.latency} ms RTT</div>
+            <div className="text-neutral-400">{callState.stats.packetLoss}% loss</div>
+            {callState.audioOnly && <div className="text-red-500 pt-1">Video paused</div>}
+          </div>
+        )}
+
+        <div className="mt-16 animate-in zoom-in duration-500 relative">
+          <div className={`text-[10px] font-black uppercase tracking-[0.4em] mb-12 ${status === 'ended' ? 'text-neutral-600' : 'text-emerald-500 animate-pulse'}`}>
+            {headline}
+          </div>
+          {!showVideo && (
+            <div className="relative w-40 h-40 mx-auto">
+              {status !== 'ended' && <div className="absolute inset-0 bg-emerald-500/20 rounded-full animate-ping"></div>}
+              <div className="relative w-40 h-40 rounded-full border-2 border-emerald-500/40 flex items-center justify-center p-2 bg-black">
+                <Avatar user={activeChatUser} size="w-36 h-36" />
+              </div>
+            </div>
+          )}
+          <h2 className="text-4xl font-black text-white mt-10 tracking-tight">@{callState.remoteParticipant ?? activeChatUser?.username}</h2>
+          <div className="mt-4 flex items-center justify-center gap-2">
+             <div className={`w-1.5 h-1.5 rounded-full ${status === 'ended' ? 'bg-neutral-700' : 'bg-emerald-500'}`}></div>
+             <p className="text-neutral-500 text-xs font-bold uppercase tracking-widest">{detail}</p>
           </div>
         </div>
-        <h2 className="text-4xl font-black text-white mt-10 tracking-tight">@{activeChatUser?.username}</h2>
-        <div className="mt-4 flex items-center justify-center gap-2">
-           <div className="w-1.5 h-1.5 rounded-full bg-emerald-500"></div>
-           <p className="text-neutral-500 text-xs font-bold uppercase tracking-widest">{callState.status === 'dialing' ? 'Connecting Node' : '00:08'}</p>
-        </div>
-      </div>
 
-      <div className="w-full flex justify-center gap-8 mb-10">
-        <button onClick={() => setCallState(prev => ({ ...prev, isActive: false }))} className="w-20 h-20 rounded-3xl bg-red-600/10 border border-red-600/30 text-red-600 flex items-center justify-center transition-all hover:bg-red-600 hover:text-white transform active:scale-90 shadow-2xl shadow-red-600/10">
-          <div className="rotate-[135deg] scale-125"><ICONS.Phone /></div>
-        </button>
-        {callState.status === 'connecting' && (
-           <button onClick={() => setCallState(prev => ({...prev, status: 'connected'}))} className="w-20 h-20 rounded-3xl bg-emerald-500 text-black flex items-center justify-center transition-all transform active:scale-90 shadow-2xl shadow-emerald-500/20">
-             <div className="scale-125"><ICONS.Phone /></div>
-           </button>
+        {callState.isActive && (
+          <div className="w-full flex flex-col items-center gap-8 mb-10 relative">
+            {!ringing && (
+              <div className="flex justify-center gap-4">
+                <button
+                  onClick={() => callService.setMuted(!callState.muted)}
+                  className={`w-14 h-14 rounded-2xl flex items-center justify-center transition-all transform active:scale-90 ${callState.muted ? 'bg-white text-black' : 'glass text-neutral-300'}`}
+                >
+                  {callState.muted ? <ICONS.MicOff /> : <ICONS.Mic />}
+                </button>
+                {type === 'video' && (
+                  <button
+                    onClick={() => callService.setCameraOff(!callState.cameraOff)}
+                    className={`w-14 h-14 rounded-2xl flex items-center justify-center transition-all transform active:scale-90 ${callState.cameraOff ? 'bg-white text-black' : 'glass text-neutral-300'}`}
+                  >
+                    {callState.cameraOff ? <ICONS.VideoOff /> : <ICONS.Video />}
+                  </button>
+                )}
+              </div>
+            )}
+            <div className="flex justify-center gap-8">
+              <button onClick={() => ringing ? callService.reject() : callService.hangUp()} className="w-20 h-20 rounded-3xl bg-red-600/10 border border-red-600/30 text-red-600 flex items-center justify-center transition-all hover:bg-red-600 hover:text-white transform active:scale-90 shadow-2xl shadow-red-600/10">
+                <div className="rotate-[135deg] scale-125"><ICONS.Phone /></div>
+              </button>
+              {ringing && (
+                 <button onClick={() => callService.answer()} className="w-20 h-20 rounded-3xl bg-emerald-500 text-black flex items-center justify-center transition-all transform active:scale-90 shadow-2xl shadow-emerald-500/20">
+                   <div className="scale-125"><ICONS.Phone /></div>
+                 </button>
+              )}
+            </div>
+          </div>
         )}
       </div>
-    </div>
-  );
+    );
+  };
+
+  const renderSafetyNumber = () => {
+    if (!activeChatUser) return null;
+    const identity = identities[activeChatUser.username];
+    const groups = safetyNumber?.match(/.{5}/g) ?? [];
+
+    return (
+      <div className="flex flex-col h-screen bg-black">
+        <header className="p-6 flex items-center gap-4 border-b border-neutral-900/50">
+          <button onClick={() => setCurrentScreen(AppScreen.CHAT_DETAIL)} className="p-2 text-neutral-400 hover:text-white"><ICONS.ArrowLeft /></button>
+          <h2 className="text-2xl font-black text-white uppercase tracking-tight">Safety Number</h2>
+        </header>
+        <div className="flex-1 overflow-y-auto p-8 text-center">
+          <p className="text-sm text-neutral-500 leading-relaxed">
+            Compare these numbers and the pattern with @{activeChatUser.username}, in person or over a trusted channel. If they match on both devices, your chat cannot be intercepted.
+          </p>
+          {safetyNumber ? (
+            <>
+              <div className="grid grid-cols-10 gap-1 w-56 mx-auto mt-10 p-3 glass rounded-3xl">
+                {safetyNumber.split('').map((digit, i) => (
+                  <div key={i} className="aspect-square rounded-sm bg-emerald-500" style={{ opacity: 0.1 + Number(digit) * 0.1 }}></div>
+                ))}
+              </div>
+              <div className="grid grid-cols-4 gap-x-6 gap-y-3 mt-10 font-mono text-lg text-white tracking-widest">
+                {groups.map((group, i) => <span key={i}>{group}</span>)}
+              </div>
+            </>
+          ) : (
+            <div className="p-10 opacity-30 italic text-sm">Computing safety number...</div>
+          )}
+          {identity && !identity.pendingPublicKey && (
+            <button
+              onClick={() => toggleVerified(activeChatUser.username)}
+              className={`w-full mt-12 font-black py-5 rounded-3xl uppercase text-xs tracking-[0.2em] transition-all transform active:scale-95 ${identity.verified ? 'bg-neutral-900 text-neutral-400 border border-neutral-800' : 'bg-emerald-500 text-black'}`}
+            >
+              {identity.verified ? 'Clear Verification' : 'Mark As Verified'}
+            </button>
+          )}
+          {identity?.pendingPublicKey && (
+            <button onClick={() => { acceptKeyChange(activeChatUser.username); setCurrentScreen(AppScreen.CHAT_DETAIL); }} className="w-full mt-12 bg-neutral-900 text-red-500 font-black py-5 rounded-3xl border border-red-500/10 uppercase text-xs tracking-[0.2em] transition-all transform active:scale-95">
+              Accept New Key
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
 
   const renderSettings = () => (
     <div className="flex flex-col h-screen bg-black">
@@ -365,37 +2610,444 @@ const App: React.FC = () => {
         <button onClick={() => setCurrentScreen(AppScreen.CHAT_LIST)} className="p-2 text-neutral-400 hover:text-white"><ICONS.ArrowLeft /></button>
         <h2 className="text-2xl font-black text-white uppercase tracking-tight">Profile</h2>
       </header>
-      <div className="p-8 text-center">
+      <div className="flex-1 overflow-y-auto p-8 text-center">
         <div className="relative inline-block mb-6">
           <Avatar user={currentUser} size="w-32 h-32 border-4 border-emerald-500/10" />
           <div className="absolute bottom-1 right-1 w-6 h-6 bg-emerald-500 border-4 border-black rounded-full"></div>
         </div>
-        <h3 className="text-3xl font-black text-white tracking-tight">@{currentUser?.username}</h3>
+        <h3 className="text-3xl font-black text-white tracking-tight">{currentUser?.displayName || `@${currentUser?.username}`}</h3>
+        {currentUser?.displayName && currentUser.displayName !== currentUser.username && <p className="text-sm text-neutral-500 font-bold mt-1">@{currentUser.username}</p>}
+        {currentUser?.bio && <p className="text-sm text-neutral-400 mt-3 px-6 whitespace-pre-wrap">{currentUser.bio}</p>}
         <p className="text-[10px] text-neutral-600 mt-2 font-black uppercase tracking-widest break-all px-10">ID: {currentUser?.publicKey}</p>
+        <button onClick={openEditProfile} className="mt-6 px-6 bg-neutral-900 text-emerald-500 font-black py-3 rounded-2xl border border-neutral-800 uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+          Edit Profile
+        </button>
+
+        <div className="mt-12 space-y-3">
+          <h4 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] text-left ml-2 mb-4">Privacy</h4>
+          <SettingToggle
+            label="Read Receipts"
+            description="Let contacts know when you have read their messages"
+            value={preferences.readReceipts}
+            onChange={(readReceipts) => updatePreferences({ readReceipts })}
+          />
+        </div>
         
+        <div className="mt-12 space-y-3 text-left">
+          <h4 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] ml-2 mb-4">Network</h4>
+          <div className="grid grid-cols-3 gap-3">
+            <input value={networkDraft.host} onChange={(e) => setNetworkDraft({ ...networkDraft, host: e.target.value })} placeholder="Signaling host" className={`${NETWORK_INPUT} col-span-2`} />
+            <input value={networkDraft.port} onChange={(e) => setNetworkDraft({ ...networkDraft, port: e.target.value })} placeholder="Port" inputMode="numeric" className={NETWORK_INPUT} />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <input value={networkDraft.path} onChange={(e) => setNetworkDraft({ ...networkDraft, path: e.target.value })} placeholder="Path" className={NETWORK_INPUT} />
+            <input value={networkDraft.key} onChange={(e) => setNetworkDraft({ ...networkDraft, key: e.target.value })} placeholder="API key" className={NETWORK_INPUT} />
+            <input value={networkDraft.idPrefix} onChange={(e) => setNetworkDraft({ ...networkDraft, idPrefix: e.target.value })} placeholder="ID prefix" className={NETWORK_INPUT} />
+          </div>
+          <SettingToggle
+            label="Secure Connection"
+            description="Reach the signaling server over TLS"
+            value={networkDraft.secure}
+            onChange={(secure) => setNetworkDraft({ ...networkDraft, secure })}
+          />
+          <textarea
+            value={networkDraft.iceServers}
+            onChange={(e) => setNetworkDraft({ ...networkDraft, iceServers: e.target.value })}
+            placeholder="stun:stun.example.org:3478&#10;turn:turn.example.org:3478 user secret"
+            rows={3}
+            className={`${NETWORK_INPUT} w-full font-mono resize-none`}
+          />
+          <p className="text-[10px] text-neutral-600 ml-2">One STUN/TURN server per line: url, then username and credential for TURN.</p>
+          {networkErrors.map(error => <p key={error} className="text-[10px] text-red-500 font-bold ml-2">{error}</p>)}
+          {networkSaved && <p className="text-[10px] text-emerald-500 font-bold ml-2">Saved. Reconnecting with the new settings.</p>}
+          <div className="flex gap-3">
+            <button onClick={() => { editNetworkConfig(DEFAULT_NETWORK_CONFIG); setNetworkSaved(false); }} className="flex-1 bg-neutral-900 text-neutral-400 font-black py-4 rounded-2xl border border-neutral-800 uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+              Defaults
+            </button>
+            <button onClick={saveNetworkConfig} className="flex-1 bg-emerald-500 text-black font-black py-4 rounded-2xl uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+              Save & Reconnect
+            </button>
+          </div>
+        </div>
+
+        <div className="mt-12 space-y-3 text-left">
+          <h4 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] ml-2 mb-4">Devices</h4>
+          {devices.map(device => (
+            <div key={device.id} className="flex items-center justify-between p-5 rounded-2xl bg-neutral-900/50 border border-neutral-800">
+              <div className="min-w-0">
+                <div className="text-sm font-bold text-white truncate">{device.name}</div>
+                <div className="text-[10px] text-neutral-500 mt-1">
+                  {device.id === deviceService.current().id ? 'This device' : `Linked ${formatTimestamp(device.linkedAt)}`}
+                </div>
+              </div>
+              {device.id !== deviceService.current().id && (
+                <button onClick={() => revokeDevice(device)} className="text-[10px] font-black text-red-500 uppercase tracking-[0.2em] hover:text-red-400 transition">
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+          {pairingCode ? (
+            <div className="p-5 rounded-2xl bg-neutral-900/50 border border-emerald-500/20 space-y-3">
+              <p className="text-[10px] text-neutral-400">On the new device choose "Link to an existing account" and enter this code. Keep this screen open until it connects. Contacts are copied over, message history is not.</p>
+              <p className="font-mono text-[10px] text-emerald-500 break-all select-all bg-black rounded-xl p-3">{pairingCode}</p>
+              <button onClick={cancelPairing} className="w-full text-neutral-500 hover:text-white font-bold py-2 uppercase text-[10px] tracking-[0.2em] transition">Cancel</button>
+            </div>
+          ) : (
+            <button onClick={linkNewDevice} className="w-full bg-neutral-900 text-emerald-500 font-black py-4 rounded-2xl border border-neutral-800 uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+              Link a New Device
+            </button>
+          )}
+          {deviceError && <p className="text-[10px] text-red-500 font-bold ml-2">{deviceError}</p>}
+        </div>
+
+        <div className="mt-12 space-y-3 text-left">
+          <h4 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] ml-2 mb-4">Notifications</h4>
+          <SettingToggle
+            label="Notifications"
+            description="Alert me to messages and calls while WhisperLine is in the background"
+            value={preferences.notifications}
+            onChange={toggleNotifications}
+          />
+          {notificationError && <p className="text-[10px] text-red-500 font-bold ml-2">{notificationError}</p>}
+          {preferences.notifications && (
+            <div className="p-5 glass rounded-3xl">
+              <div className="text-sm font-bold text-white">Previews</div>
+              <div className="text-[10px] text-neutral-500 font-medium mt-0.5">Notifications can be read on a locked screen</div>
+              <div className="flex flex-wrap gap-2 mt-4">
+                {([['full', 'Name & Message'], ['sender', 'Name Only'], ['hidden', 'Nothing']] as const).map(([option, label]) => (
+                  <button
+                    key={option}
+                    onClick={() => updatePreferences({ notificationPreview: option })}
+                    className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition ${preferences.notificationPreview === option ? 'bg-emerald-500 text-black' : 'bg-neutral-900 text-neutral-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-12 space-y-3 text-left">
+          <h4 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] ml-2 mb-4">App Lock</h4>
+          {!vaultProtected ? (
+            <>
+              <p className="text-[10px] text-neutral-600 ml-2">Your vault has no passphrase, so anyone who can open this browser can read your messages. Set one to lock the app.</p>
+              <input
+                type="password"
+                value={lockPassphrase}
+                onChange={(e) => setLockPassphrase(e.target.value)}
+                placeholder="New passphrase (at least 8 characters)"
+                className={`${NETWORK_INPUT} w-full`}
+              />
+              <input
+                type="password"
+                value={lockPassphraseConfirm}
+                onChange={(e) => setLockPassphraseConfirm(e.target.value)}
+                placeholder="Repeat passphrase"
+                className={`${NETWORK_INPUT} w-full`}
+              />
+              {lockError && <p className="text-[10px] text-red-500 font-bold ml-2">{lockError}</p>}
+              <button onClick={setVaultPassphrase} disabled={lockBusy || !lockPassphrase} className="w-full bg-emerald-500 text-black disabled:opacity-40 font-black py-4 rounded-2xl uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+                {lockBusy ? 'Encrypting…' : 'Set Passphrase'}
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="p-5 glass rounded-3xl">
+                <div className="text-sm font-bold text-white">Auto-Lock</div>
+                <div className="text-[10px] text-neutral-500 font-medium mt-0.5">Lock after this long without interaction</div>
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {[null, ...AUTO_LOCK_OPTIONS].map(option => (
+                    <button
+                      key={option ?? 'never'}
+                      onClick={() => updatePreferences({ autoLockAfter: option })}
+                      className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition ${preferences.autoLockAfter === option ? 'bg-emerald-500 text-black' : 'bg-neutral-900 text-neutral-400 hover:text-white'}`}
+                    >
+                      {option ? formatTimer(option) : 'Never'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <SettingToggle
+                label="Lock in Background"
+                description="Lock as soon as you switch away from WhisperLine"
+                value={preferences.lockOnBackground}
+                onChange={(lockOnBackground) => updatePreferences({ lockOnBackground })}
+              />
+              {authenticatorEnrolled ? (
+                <button onClick={removeAuthenticator} className="w-full bg-neutral-900 text-neutral-400 font-black py-4 rounded-2xl border border-neutral-800 uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+                  Turn Off Device Unlock
+                </button>
+              ) : authenticatorAvailable && (
+                <>
+                  <p className="text-[10px] text-neutral-600 ml-2">Unlock with this device's fingerprint, face or PIN instead of typing your passphrase. Confirm your passphrase to turn it on.</p>
+                  <input
+                    type="password"
+                    value={lockPassphrase}
+                    onChange={(e) => setLockPassphrase(e.target.value)}
+                    placeholder="Vault passphrase"
+                    className={`${NETWORK_INPUT} w-full`}
+                  />
+                  <button onClick={enrollAuthenticator} disabled={lockBusy || !lockPassphrase} className="w-full bg-neutral-900 text-emerald-500 disabled:opacity-40 font-black py-4 rounded-2xl border border-neutral-800 uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+                    {lockBusy ? 'Setting Up…' : 'Turn On Device Unlock'}
+                  </button>
+                </>
+              )}
+              {lockError && <p className="text-[10px] text-red-500 font-bold ml-2">{lockError}</p>}
+              <button onClick={lockApp} className="w-full bg-emerald-500 text-black font-black py-4 rounded-2xl uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+                Lock Now
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="mt-12 space-y-3 text-left">
+          <h4 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] ml-2 mb-4">Backup</h4>
+          <p className="text-[10px] text-neutral-600 ml-2">Saves your identity, contacts and history to an encrypted file. Keep it and its passphrase somewhere safe: anyone with both can become you.</p>
+          <input
+            type="password"
+            value={backupPassphrase}
+            onChange={(e) => { setBackupPassphrase(e.target.value); setBackupSaved(false); }}
+            placeholder="Backup passphrase"
+            className={`${NETWORK_INPUT} w-full`}
+          />
+          {backupError && <p className="text-[10px] text-red-500 font-bold ml-2">{backupError}</p>}
+          {backupSaved && <p className="text-[10px] text-emerald-500 font-bold ml-2">Backup saved to your downloads.</p>}
+          <button onClick={exportBackup} disabled={backupBusy} className="w-full bg-neutral-900 text-emerald-500 disabled:opacity-40 font-black py-4 rounded-2xl border border-neutral-800 uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+            {backupBusy ? 'Encrypting…' : 'Export Encrypted Backup'}
+          </button>
+        </div>
+
         <div className="mt-16 space-y-3">
           <button 
-            onClick={() => {
-              localStorage.clear();
-              window.location.reload();
-            }} 
+            onClick={panicWipe} 
             className="w-full bg-neutral-900 text-red-500 font-black py-5 rounded-3xl border border-red-500/10 hover:bg-red-500 hover:text-white transition-all transform active:scale-95 uppercase text-xs tracking-[0.2em]"
           >
             TERMINATE SESSION
           </button>
+          <p className="text-[10px] text-neutral-600">Permanently erases your identity, history and all app data from this device.</p>
           <p className="text-[9px] text-neutral-700 uppercase tracking-widest pt-4">WhisperLine P2P Engine v2.0.1</p>
         </div>
       </div>
     </div>
   );
 
+  const renderContacts = () => {
+    const book: Contact[] = Object.values(contacts);
+    const saved = book.filter(c => c.saved).sort((a, b) => nameOf(a.username).localeCompare(nameOf(b.username)));
+    const blocked = book.filter(c => c.blocked && !c.saved);
+    return (
+      <div className="flex flex-col h-screen bg-black">
+        <header className="p-6 flex items-center gap-4 border-b border-neutral-900/50">
+          <button onClick={() => setCurrentScreen(AppScreen.CHAT_LIST)} className="p-2 text-neutral-400 hover:text-white"><ICONS.ArrowLeft /></button>
+          <h2 className="text-2xl font-black text-white uppercase tracking-tight">Contacts</h2>
+        </header>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3">
+          <div className="flex gap-3">
+            <input
+              value={contactInput}
+              onChange={(e) => setContactInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addContact()}
+              placeholder="Add by username, e.g. @alice"
+              className={`${NETWORK_INPUT} flex-1 text-sm`}
+            />
+            <button onClick={addContact} className="px-5 bg-emerald-500 text-black font-black rounded-2xl uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+              Add
+            </button>
+          </div>
+          {contactError && <p className="text-[10px] text-red-500 font-bold ml-2">{contactError}</p>}
+
+          {saved.length === 0 && <p className="p-10 text-center opacity-30 italic text-sm">No contacts yet</p>}
+          {saved.map(contact => {
+            const editing = contactEdit?.username === contact.username;
+            const identity = identities[contact.username];
+            return (
+              <div key={contact.username} className="rounded-3xl glass">
+                <div
+                  onClick={() => setContactEdit(editing ? null : { username: contact.username, nickname: contact.nickname ?? '', notes: contact.notes ?? '' })}
+                  className="flex items-center gap-4 p-4 cursor-pointer"
+                >
+                  <Avatar user={peerProfile(contact.username)} size="w-12 h-12" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-bold text-white truncate flex items-center gap-1.5">
+                      {nameOf(contact.username)}
+                      {identity?.verified && <span className="text-emerald-500" title="Verified"><ICONS.Shield /></span>}
+                    </div>
+                    <div className="text-[10px] text-neutral-500 font-medium truncate">
+                      @{contact.username}{contact.blocked ? ' · Blocked' : ''}{contact.notes ? ` · ${contact.notes}` : ''}
+                    </div>
+                  </div>
+                </div>
+                {editing && contactEdit && (
+                  <div className="px-4 pb-4 space-y-3">
+                    <input
+                      value={contactEdit.nickname}
+                      onChange={(e) => setContactEdit({ ...contactEdit, nickname: e.target.value })}
+                      maxLength={MAX_DISPLAY_NAME_LENGTH}
+                      placeholder={profiles[contact.username]?.displayName ?? 'Nickname'}
+                      className={`${NETWORK_INPUT} w-full`}
+                    />
+                    <textarea
+                      value={contactEdit.notes}
+                      onChange={(e) => setContactEdit({ ...contactEdit, notes: e.target.value })}
+                      rows={2}
+                      placeholder="Notes (only you can see these)"
+                      className={`${NETWORK_INPUT} w-full resize-none`}
+                    />
+                    <SettingToggle
+                      label="Verified"
+                      description={identity ? 'You compared safety numbers with this contact' : 'Available once you have connected'}
+                      value={!!identity?.verified}
+                      onChange={() => identity && toggleVerified(contact.username)}
+                    />
+                    <div className="flex gap-2">
+                      {([
+                        ['Save', saveContactEdit, 'text-emerald-500'],
+                        ['Message', () => openChat(contact.username), 'text-neutral-400'],
+                        [contact.blocked ? 'Unblock' : 'Block', () => blockUser(contact.username, !contact.blocked), 'text-red-500'],
+                        ['Remove', () => removeContact(contact.username), 'text-neutral-400']
+                      ] as const).map(([label, action, color]) => (
+                        <button key={label} onClick={action} className={`flex-1 py-2.5 rounded-2xl glass text-[10px] font-black uppercase tracking-[0.15em] ${color} transition active:scale-95`}>
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {blocked.length > 0 && (
+            <>
+              <h4 className="text-[10px] font-black text-neutral-600 uppercase tracking-[0.2em] ml-2 pt-6">Blocked</h4>
+              {blocked.map(contact => (
+                <div key={contact.username} className="flex items-center justify-between p-4 rounded-2xl bg-neutral-900/50 border border-neutral-800">
+                  <span className="text-sm font-bold text-white">@{contact.username}</span>
+                  <button onClick={() => blockUser(contact.username, false)} className="text-[10px] font-black text-emerald-500 uppercase tracking-[0.2em] hover:text-white transition">
+                    Unblock
+                  </button>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderEditProfile = () => {
+    const crop = avatarDraft?.crop;
+    const focus = crop ? `${(crop.x + 1) * 50}% ${(crop.y + 1) * 50}%` : undefined;
+    const setCrop = (changes: Partial<AvatarCrop>) => setAvatarDraft(prev => prev && { ...prev, crop: { ...prev.crop, ...changes } });
+    return (
+      <div className="flex flex-col h-screen bg-black">
+        <header className="p-6 flex items-center gap-4 border-b border-neutral-900/50">
+          <button onClick={() => { discardAvatarDraft(); setCurrentScreen(AppScreen.SETTINGS); }} className="p-2 text-neutral-400 hover:text-white"><ICONS.ArrowLeft /></button>
+          <h2 className="text-2xl font-black text-white uppercase tracking-tight">Edit Profile</h2>
+        </header>
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          <div className="flex flex-col items-center gap-4">
+            {avatarDraft && crop ? (
+              <div className="w-40 h-40 rounded-full overflow-hidden border-4 border-emerald-500/20 bg-neutral-900">
+                <img
+                  src={avatarDraft.url}
+                  alt="avatar preview"
+                  className="w-full h-full object-cover"
+                  style={{ objectPosition: focus, transform: `scale(${crop.zoom})`, transformOrigin: focus }}
+                />
+              </div>
+            ) : (
+              <Avatar user={currentUser && { ...currentUser, avatarData: profileDraft.avatarData }} size="w-40 h-40 border-4 border-emerald-500/10" />
+            )}
+            <div className="flex gap-3">
+              <label className="px-5 bg-neutral-900 text-emerald-500 font-black py-3 rounded-2xl border border-neutral-800 uppercase text-[10px] tracking-[0.2em] cursor-pointer transition-all transform active:scale-95">
+                Choose Photo
+                <input type="file" accept="image/*" className="hidden" onChange={(e) => { pickAvatar(e.target.files?.[0]); e.target.value = ''; }} />
+              </label>
+              {(avatarDraft || profileDraft.avatarData) && (
+                <button
+                  onClick={() => { discardAvatarDraft(); setProfileDraft({ ...profileDraft, avatarData: undefined }); }}
+                  className="px-5 bg-neutral-900 text-red-500 font-black py-3 rounded-2xl border border-neutral-800 uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95"
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+          </div>
+          {crop && (
+            <div className="space-y-3">
+              {([['zoom', 'Zoom', 1, 3], ['x', 'Left / Right', -1, 1], ['y', 'Up / Down', -1, 1]] as const).map(([key, label, min, max]) => (
+                <label key={key} className="flex items-center gap-4 text-[10px] font-black text-neutral-500 uppercase tracking-[0.2em]">
+                  <span className="w-24">{label}</span>
+                  <input
+                    type="range"
+                    min={min}
+                    max={max}
+                    step={0.01}
+                    value={crop[key]}
+                    onChange={(e) => setCrop({ [key]: Number(e.target.value) })}
+                    className="flex-1 accent-emerald-500"
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+          <div>
+            <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Display Name</label>
+            <input
+              value={profileDraft.displayName}
+              onChange={(e) => setProfileDraft({ ...profileDraft, displayName: e.target.value })}
+              maxLength={MAX_DISPLAY_NAME_LENGTH}
+              placeholder={currentUser?.username}
+              className={`${NETWORK_INPUT} w-full text-sm`}
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] uppercase tracking-[0.2em] text-neutral-500 mb-3 ml-2 font-bold">Bio</label>
+            <textarea
+              value={profileDraft.bio}
+              onChange={(e) => setProfileDraft({ ...profileDraft, bio: e.target.value })}
+              maxLength={MAX_BIO_LENGTH}
+              rows={3}
+              placeholder="A few words about you"
+              className={`${NETWORK_INPUT} w-full text-sm resize-none`}
+            />
+            <p className="text-[10px] text-neutral-600 text-right mr-2">{profileDraft.bio.length}/{MAX_BIO_LENGTH}</p>
+          </div>
+          <p className="text-[10px] text-neutral-600 ml-2">Your name, bio and photo are signed and sent to your contacts when they connect.</p>
+          {profileError && <p className="text-[10px] text-red-500 font-bold ml-2">{profileError}</p>}
+          <button onClick={saveProfile} disabled={savingProfile} className="w-full bg-emerald-500 disabled:opacity-40 text-black font-black py-4 rounded-2xl uppercase text-[10px] tracking-[0.2em] transition-all transform active:scale-95">
+            {savingProfile ? 'Saving…' : 'Save Profile'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="max-w-md mx-auto h-screen border-x border-neutral-900/50 shadow-2xl overflow-hidden bg-black text-white relative">
+      {updateAvailable && (
+        <div className="absolute top-3 inset-x-3 z-50 flex items-center gap-3 p-4 rounded-2xl bg-neutral-900 border border-emerald-500/30 shadow-2xl">
+          <div className="flex-1 text-left">
+            <p className="text-xs font-bold text-white">A new version of WhisperLine is ready</p>
+            <p className="text-[10px] text-neutral-500">Reloading locks the app; unlock again to continue.</p>
+          </div>
+          <button onClick={() => setUpdateAvailable(false)} className="text-[10px] font-black uppercase tracking-widest text-neutral-500 hover:text-white transition">Later</button>
+          <button onClick={() => updateService.apply()} className="px-3 py-2 rounded-xl bg-emerald-500 text-black text-[10px] font-black uppercase tracking-widest transition active:scale-95">Update</button>
+        </div>
+      )}
       {currentScreen === AppScreen.ONBOARDING && renderOnboarding()}
+      {currentScreen === AppScreen.UNLOCK && renderUnlock()}
       {currentScreen === AppScreen.CHAT_LIST && renderChatList()}
       {currentScreen === AppScreen.CHAT_DETAIL && renderChatDetail()}
       {currentScreen === AppScreen.CALL && renderCall()}
       {currentScreen === AppScreen.SETTINGS && renderSettings()}
+      {currentScreen === AppScreen.EDIT_PROFILE && renderEditProfile()}
+      {currentScreen === AppScreen.CONTACTS && renderContacts()}
+      {currentScreen === AppScreen.SAFETY_NUMBER && renderSafetyNumber()}
     </div>
   );
 };
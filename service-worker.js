@@ -1,46 +1,102 @@
+// Builds prepend `self.__WHISPERLINE_BUILD__` with a version derived from the bundle and the list
+// of files it contains (see vite.config.ts). The dev server serves this file without precaching.
+const BUILD = self.__WHISPERLINE_BUILD__ || { version: 'dev', assets: [] };
+const CACHE_PREFIX = 'whisperline-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${BUILD.version}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime-${BUILD.version}`;
+const SHELL_ASSETS = ['./', './index.html', ...BUILD.assets.map((file) => `./${file}`)];
 
-const CACHE_NAME = 'whisperline-v1.1';
-const ASSETS_TO_CACHE = [
-  './',
-  './index.html',
-  './manifest.json',
+// Styles, fonts and icons loaded from CDNs; served from cache and refreshed in the background
+const RUNTIME_ORIGINS = [
   'https://cdn.tailwindcss.com',
-  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap'
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+  'https://api.dicebear.com'
 ];
 
-// Install Event
+// Install Event: cache this build's shell. The new worker then waits until the page asks it to take over.
 self.addEventListener('install', (event) => {
   event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      console.log('Caching essential assets');
-      return cache.addAll(ASSETS_TO_CACHE);
-    })
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_ASSETS))
   );
-  self.skipWaiting();
 });
 
-// Activate Event
+// Activate Event: drop caches from earlier builds
 self.addEventListener('activate', (event) => {
   event.waitUntil(
-    caches.keys().then((cacheNames) => {
-      return Promise.all(
-        cacheNames.map((cache) => {
-          if (cache !== CACHE_NAME) {
-            console.log('Clearing old cache');
-            return caches.delete(cache);
-          }
-        })
-      );
-    })
+    caches.keys()
+      .then((cacheNames) => Promise.all(
+        cacheNames
+          .filter((cache) => cache.startsWith(CACHE_PREFIX) && cache !== SHELL_CACHE && cache !== RUNTIME_CACHE)
+          .map((cache) => caches.delete(cache))
+      ))
+      .then(() => self.clients.claim())
   );
 });
 
-// Fetch Event (Network first, then fallback to cache)
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'skip-waiting') self.skipWaiting();
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(SHELL_CACHE)).put(request, response.clone());
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || refresh;
+};
+
+// Pages always try the network first so a deploy is noticed; offline, the cached shell is used
+const networkFirstPage = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    return (await caches.match('./index.html', { ignoreSearch: true })) || Response.error();
+  }
+};
+
+// Fetch Event
 self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    fetch(event.request)
-      .catch(() => {
-        return caches.match(event.request);
-      })
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin && url.pathname.includes('/assets/')) {
+    // Vite fingerprints bundle files, so a cached copy is never stale
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(fetch(request).catch(() => caches.match(request).then((cached) => cached || Response.error())));
+  } else if (RUNTIME_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Notification Click: focus an open window (or open one) and tell it what was tapped
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const client = windows.find((window) => 'focus' in window);
+      if (client) {
+        client.postMessage({ type: 'notification-click', ...data });
+        return client.focus();
+      }
+      return self.clients.openWindow('./');
+    })
   );
 });
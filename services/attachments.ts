@@ -0,0 +1,333 @@
+import { AttachmentDescriptor, AttachmentKind, TransferProgress } from '../types';
+import { storageService } from './storage';
+import { signalingService } from './signaling';
+import { toBase64, fromBase64, parseJsonObject } from './encoding';
+import { FileChunkFrame, FileRequestFrame } from './protocol';
+import { groupService } from './groups';
+import { deviceService, parseAddress } from './devices';
+
+/**
+ * WhisperLine Attachments
+ * Images, files and voice notes are encrypted under a fresh per-file AES-GCM key and
+ * split into chunks. The key and the file's SHA-256 travel inside the (ratcheted)
+ * attachment message; the chunks follow over the data channel. The receiver pulls
+ * windows of chunks, so a transfer resumes from the last stored chunk after a
+ * reconnect, and the reassembled file is checked against the hash before it is shown.
+ */
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+const CHUNK_SIZE = 16 * 1024;
+const WINDOW = 16; // Chunks per request
+const STALL_TIMEOUT = 15 * 1000; // Re-request a window that stopped arriving
+const GCM_TAG_LENGTH = 16;
+
+// The sender picks the type. Anything else, HTML or SVG included, opens as a plain download
+// so a blob: URL in our origin can never run script.
+const PREVIEW_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'audio/webm', 'audio/ogg', 'audio/mpeg', 'audio/mp4'];
+
+/**
+ * Whether an attachment of this type may be shown inline as an image or audio player.
+ */
+export const isPreviewable = (mime: string) => PREVIEW_TYPES.includes(mime.split(';')[0].trim().toLowerCase());
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+interface TransferRecord {
+  fileId: string;
+  peer: string;
+  role: 'send' | 'receive';
+  descriptor: AttachmentDescriptor;
+  received: number; // Contiguous chunks stored
+  complete: boolean;
+  error?: string;
+}
+
+let transfers: Record<string, TransferRecord> = {};
+let onProgress: ((progress: TransferProgress) => void) | null = null;
+const windowEnds = new Map<string, number>();
+const stallTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const objectUrls = new Map<string, string>();
+
+const chunkId = (fileId: string, index: number) => `${fileId}:${index}`;
+
+const persist = (record: TransferRecord) => storageService.put('transfers', record.fileId, record);
+
+const chunkIv = (prefix: Uint8Array, index: number) => {
+  const iv = new Uint8Array(12);
+  iv.set(prefix);
+  new DataView(iv.buffer).setUint32(8, index);
+  return iv;
+};
+
+const chunkAad = (fileId: string, index: number) => new TextEncoder().encode(`${fileId}|${index}`);
+
+const hex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const report = (record: TransferRecord) => {
+  onProgress?.({
+    fileId: record.fileId,
+    done: record.received,
+    total: record.descriptor.chunkCount,
+    state: record.error ? 'failed' : record.complete ? 'complete' : 'transferring',
+    error: record.error
+  });
+};
+
+const clearStall = (fileId: string) => {
+  clearTimeout(stallTimers.get(fileId));
+  stallTimers.delete(fileId);
+};
+
+const requestNext = (record: TransferRecord) => {
+  clearStall(record.fileId);
+  if (record.complete || record.error) return;
+  const count = Math.min(WINDOW, record.descriptor.chunkCount - record.received);
+  windowEnds.set(record.fileId, record.received + count);
+  signalingService.sendFileFrame(record.peer, { type: 'file-request', fileId: record.fileId, start: record.received, count });
+  stallTimers.set(record.fileId, setTimeout(() => requestNext(record), STALL_TIMEOUT));
+};
+
+// Decrypts and reassembles a stored file; throws if any chunk is missing or was tampered with
+const readFile = async (descriptor: AttachmentDescriptor): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', fromBase64(descriptor.key), 'AES-GCM', false, ['decrypt']);
+  const prefix = fromBase64(descriptor.iv);
+  const file = new Uint8Array(descriptor.size);
+  let offset = 0;
+  for (let index = 0; index < descriptor.chunkCount; index++) {
+    const data = await storageService.get<string>('attachments', chunkId(descriptor.fileId, index));
+    if (!data) throw new AttachmentError('File is incomplete');
+    let chunk: Uint8Array;
+    try {
+      chunk = new Uint8Array(await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkIv(prefix, index), additionalData: chunkAad(descriptor.fileId, index) },
+        key,
+        fromBase64(data)
+      ));
+    } catch {
+      throw new AttachmentError('File failed authentication');
+    }
+    if (offset + chunk.length > descriptor.size) throw new AttachmentError('File is larger than announced');
+    file.set(chunk, offset);
+    offset += chunk.length;
+  }
+  if (offset !== descriptor.size) throw new AttachmentError('File is smaller than announced');
+  return file;
+};
+
+const deleteChunks = async (descriptor: AttachmentDescriptor) => {
+  for (let index = 0; index < descriptor.chunkCount; index++) {
+    await storageService.delete('attachments', chunkId(descriptor.fileId, index));
+  }
+};
+
+const finish = async (record: TransferRecord) => {
+  clearStall(record.fileId);
+  try {
+    const file = await readFile(record.descriptor);
+    if (hex(await crypto.subtle.digest('SHA-256', file)) !== record.descriptor.sha256) {
+      throw new AttachmentError('File does not match its hash');
+    }
+    record.complete = true;
+  } catch (e) {
+    if (!(e instanceof AttachmentError)) throw e;
+    record.error = e.message;
+    await deleteChunks(record.descriptor);
+  }
+  await persist(record);
+  report(record);
+};
+
+const serve = async (from: string, frame: FileRequestFrame) => {
+  const record = transfers[frame.fileId];
+  // Files are served to every device of the recipient (or of a group's members) and to our own devices
+  const { username } = parseAddress(from);
+  const allowed = record && (record.peer === username || groupService.isMember(record.peer, username) || deviceService.isSibling(from));
+  if (!record || record.role !== 'send' || !allowed) return;
+  const end = Math.min(frame.start + frame.count, record.descriptor.chunkCount);
+  for (let index = frame.start; index < end; index++) {
+    const data = await storageService.get<string>('attachments', chunkId(record.fileId, index));
+    if (!data) return;
+    await signalingService.drain(from);
+    if (!signalingService.sendFileFrame(from, { type: 'file-chunk', fileId: record.fileId, index, data })) return;
+  }
+};
+
+const store = async (from: string, frame: FileChunkFrame) => {
+  const record = transfers[frame.fileId];
+  if (!record || record.role !== 'receive' || record.peer !== from || record.complete || record.error) return;
+  // Chunks arrive in order on the reliable channel; anything else is a duplicate from a re-request
+  if (frame.index !== record.received) return;
+  if (fromBase64(frame.data).length > record.descriptor.chunkSize + GCM_TAG_LENGTH) {
+    console.warn(`Rejected oversized chunk from @${from}`);
+    return;
+  }
+
+  await storageService.put('attachments', chunkId(record.fileId, frame.index), frame.data);
+  record.received++;
+  await persist(record);
+  report(record);
+
+  if (record.received === record.descriptor.chunkCount) await finish(record);
+  else if (record.received >= (windowEnds.get(record.fileId) ?? 0)) requestNext(record);
+};
+
+/**
+ * Validates the descriptor inside a received attachment message.
+ */
+export const parseAttachment = (text: string): AttachmentDescriptor | null => {
+  const data = parseJsonObject(text);
+  if (!data) return null;
+  const { fileId, name, mime, size, sha256, key, iv, chunkSize, chunkCount, duration } = data;
+  const valid =
+    typeof fileId === 'string' &&
+    typeof name === 'string' && name.length <= 255 &&
+    typeof mime === 'string' && mime.length <= 127 &&
+    typeof size === 'number' && Number.isInteger(size) && size > 0 && size <= MAX_ATTACHMENT_SIZE &&
+    typeof sha256 === 'string' && /^[0-9a-f]{64}$/.test(sha256) &&
+    typeof key === 'string' && typeof iv === 'string' &&
+    typeof chunkSize === 'number' && Number.isInteger(chunkSize) && chunkSize > 0 && chunkSize <= CHUNK_SIZE &&
+    typeof chunkCount === 'number' && chunkCount === Math.ceil(size / chunkSize) &&
+    (duration === undefined || (typeof duration === 'number' && duration >= 0));
+  if (!valid) return null;
+  try {
+    if (fromBase64(key).length !== 32 || fromBase64(iv).length !== 8) return null;
+  } catch {
+    return null;
+  }
+  return { fileId, name, mime, size, sha256, key, iv, chunkSize, chunkCount, ...(typeof duration === 'number' ? { duration } : {}) };
+};
+
+export const describeAttachment = (kind: AttachmentKind, descriptor: AttachmentDescriptor | null) => {
+  if (!descriptor) return 'Unreadable attachment';
+  if (kind === 'image') return 'Photo';
+  if (kind === 'voice') return `Voice note${descriptor.duration ? ` (${Math.round(descriptor.duration)}s)` : ''}`;
+  return descriptor.name;
+};
+
+export const attachmentService = {
+  /**
+   * Loads transfer state from the vault. Incomplete downloads resume when their sender reconnects.
+   */
+  async load(handler: (progress: TransferProgress) => void): Promise<Record<string, TransferProgress>> {
+    onProgress = handler;
+    transfers = {};
+    const stored = await storageService.getAll<TransferRecord>('transfers');
+    stored.forEach(record => { transfers[record.fileId] = record; });
+    return Object.fromEntries(stored.map(record => [record.fileId, {
+      fileId: record.fileId,
+      done: record.received,
+      total: record.descriptor.chunkCount,
+      state: record.error ? 'failed' : record.complete ? 'complete' : 'transferring',
+      error: record.error
+    } as TransferProgress]));
+  },
+
+  /**
+   * Encrypts and stores a file for sending to `peer` (a username or group id); the returned descriptor goes in the message.
+   */
+  async prepare(peer: string, fileId: string, blob: Blob, name: string, duration?: number): Promise<AttachmentDescriptor> {
+    if (blob.size === 0) throw new AttachmentError('File is empty');
+    if (blob.size > MAX_ATTACHMENT_SIZE) throw new AttachmentError(`Files are limited to ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB`);
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const rawKey = crypto.getRandomValues(new Uint8Array(32));
+    const prefix = crypto.getRandomValues(new Uint8Array(8));
+    const key = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt']);
+    const chunkCount = Math.ceil(bytes.length / CHUNK_SIZE);
+
+    for (let index = 0; index < chunkCount; index++) {
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: chunkIv(prefix, index), additionalData: chunkAad(fileId, index) },
+        key,
+        bytes.subarray(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+      );
+      await storageService.put('attachments', chunkId(fileId, index), toBase64(ciphertext));
+    }
+
+    const descriptor: AttachmentDescriptor = {
+      fileId,
+      name: name.slice(0, 255),
+      mime: (blob.type || 'application/octet-stream').slice(0, 127),
+      size: bytes.length,
+      sha256: hex(await crypto.subtle.digest('SHA-256', bytes)),
+      key: toBase64(rawKey),
+      iv: toBase64(prefix),
+      chunkSize: CHUNK_SIZE,
+      chunkCount,
+      ...(duration !== undefined ? { duration } : {})
+    };
+    const record: TransferRecord = { fileId, peer, role: 'send', descriptor, received: chunkCount, complete: true };
+    transfers[fileId] = record;
+    await persist(record);
+    return descriptor;
+  },
+
+  /**
+   * Starts downloading the file announced in an attachment message from `peer`, the sending device's address.
+   */
+  async receive(peer: string, descriptor: AttachmentDescriptor): Promise<void> {
+    if (transfers[descriptor.fileId]) return;
+    const record: TransferRecord = { fileId: descriptor.fileId, peer, role: 'receive', descriptor, received: 0, complete: false };
+    transfers[descriptor.fileId] = record;
+    await persist(record);
+    report(record);
+    requestNext(record);
+  },
+
+  /**
+   * The peer reconnected: continue any of its downloads from the last stored chunk.
+   */
+  resume(peer: string): void {
+    Object.values(transfers)
+      .filter(record => record.peer === peer && record.role === 'receive' && !record.complete && !record.error)
+      .forEach(requestNext);
+  },
+
+  handleFrame(from: string, frame: FileRequestFrame | FileChunkFrame): Promise<void> {
+    return frame.type === 'file-request' ? serve(from, frame) : store(from, frame);
+  },
+
+  /**
+   * An object URL for a complete, verified file. Cached until the attachment is removed.
+   * Only previewable types keep the sender's type; everything else is application/octet-stream.
+   */
+  async open(fileId: string): Promise<string | null> {
+    const cached = objectUrls.get(fileId);
+    if (cached) return cached;
+    const record = transfers[fileId];
+    if (!record?.complete) return null;
+    const file = await readFile(record.descriptor);
+    const type = isPreviewable(record.descriptor.mime) ? record.descriptor.mime : 'application/octet-stream';
+    const url = URL.createObjectURL(new Blob([file], { type }));
+    objectUrls.set(fileId, url);
+    return url;
+  },
+
+  async remove(fileId: string): Promise<void> {
+    const record = transfers[fileId];
+    if (!record) return;
+    clearStall(fileId);
+    delete transfers[fileId];
+    const url = objectUrls.get(fileId);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(fileId);
+    await deleteChunks(record.descriptor);
+    await storageService.delete('transfers', fileId);
+  },
+
+  wipe(): void {
+    stallTimers.forEach(timer => clearTimeout(timer));
+    stallTimers.clear();
+    windowEnds.clear();
+    objectUrls.forEach(url => URL.revokeObjectURL(url));
+    objectUrls.clear();
+    transfers = {};
+    onProgress = null;
+  }
+};
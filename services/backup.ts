@@ -0,0 +1,171 @@
+import { IdentityKeys, SenderKeyState, UserProfile } from '../types';
+import { storageService, StoreName, StoredMessage } from './storage';
+import { conversationOf } from './conversations';
+import { toBase64, fromBase64, parseJsonObject } from './encoding';
+
+/**
+ * WhisperLine Backups
+ * Serializes the vault (profile, identity keys, contacts, groups and history) into one file
+ * sealed with AES-GCM under a key derived from a backup passphrase (PBKDF2). The file header is
+ * authenticated together with the ciphertext, so any change to the file fails the integrity check.
+ * Attachment contents and in-progress transfers are not included.
+ *
+ * Ratchet sessions, our own group sender chains and the outbox are out of date as soon as the
+ * backup is made, so a restore leaves them out: the restored device starts new sessions, which
+ * its contacts follow, and messages that were still queued are marked failed for a resend.
+ */
+
+export const BACKUP_VERSION = 1;
+export const BACKUP_EXTENSION = '.wlbackup';
+const BACKUP_FORMAT = 'whisperline-backup';
+const PBKDF2_ITERATIONS = 600000;
+const MAX_ITERATIONS = 10000000;
+
+// Messages are not listed: they are re-blinded under the new vault's index key on restore
+const BACKUP_STORES: StoreName[] = ['settings', 'contacts', 'conversations', 'expiry', 'groups', 'senderKeys', 'devices', 'profiles', 'addressBook', 'searchIndex'];
+
+// Only our own chains keep their signing key; the other members' chains are still good to read with
+const isOwnChain = (value: unknown) => !!(value as SenderKeyState).signingPrivateKey;
+
+interface BackupFile {
+  format: string;
+  version: number;
+  createdAt: number;
+  salt: string;
+  iterations: number;
+  check: string; // Derived alongside the key, so a wrong passphrase is told apart from a damaged file
+  iv: string;
+  ciphertext: string;
+}
+
+interface BackupPayload {
+  records: Partial<Record<StoreName, { id: string; value: unknown }[]>>;
+  messages: StoredMessage[];
+}
+
+export interface BackupContents extends BackupPayload {
+  createdAt: number;
+  profile: UserProfile;
+  identity: IdentityKeys;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const deriveKeys = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 512));
+  return {
+    key: await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+    check: toBase64(bits.slice(32))
+  };
+};
+
+// Everything but the ciphertext itself is bound to it as associated data
+const headerOf = (file: Omit<BackupFile, 'ciphertext'>) =>
+  new TextEncoder().encode(JSON.stringify([file.format, file.version, file.createdAt, file.salt, file.iterations, file.check, file.iv]));
+
+const parseFile = (text: string): BackupFile => {
+  const file = parseJsonObject(text);
+  const { format, version, createdAt, salt, iterations, check, iv, ciphertext } = file ?? {};
+  if (format !== BACKUP_FORMAT || typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new BackupError('This is not a WhisperLine backup file');
+  }
+  if (version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of WhisperLine. Update the app to restore it.');
+  }
+  const valid = typeof createdAt === 'number' &&
+    typeof iterations === 'number' && Number.isInteger(iterations) && iterations > 0 && iterations <= MAX_ITERATIONS &&
+    typeof salt === 'string' && typeof check === 'string' && typeof iv === 'string' && typeof ciphertext === 'string';
+  if (!valid) throw new BackupError('The backup file is damaged');
+  return { format, version, createdAt, salt, iterations, check, iv, ciphertext };
+};
+
+export const backupService = {
+  /**
+   * Seals the unlocked vault into a backup file protected by `passphrase`.
+   */
+  async create(passphrase: string): Promise<Blob> {
+    const records: BackupPayload['records'] = {};
+    for (const store of BACKUP_STORES) records[store] = await storageService.getEntries(store);
+    const payload: BackupPayload = { records, messages: await storageService.getAll<StoredMessage>('messages') };
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const { key, check } = await deriveKeys(passphrase, salt, PBKDF2_ITERATIONS);
+    const header = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check,
+      iv: toBase64(iv)
+    };
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: headerOf(header) },
+      key,
+      new TextEncoder().encode(JSON.stringify(payload))
+    );
+    const file: BackupFile = { ...header, ciphertext: toBase64(ciphertext) };
+    return new Blob([JSON.stringify(file)], { type: 'application/json' });
+  },
+
+  /**
+   * Decrypts and checks a backup file without writing anything. Throws BackupError for a file
+   * that is not a backup, is from a newer version, is damaged, or for a wrong passphrase.
+   */
+  async open(text: string, passphrase: string): Promise<BackupContents> {
+    const file = parseFile(text);
+    let key: CryptoKey;
+    let check: string;
+    let iv: Uint8Array;
+    let ciphertext: Uint8Array;
+    try {
+      ({ key, check } = await deriveKeys(passphrase, fromBase64(file.salt), file.iterations));
+      iv = fromBase64(file.iv);
+      ciphertext = fromBase64(file.ciphertext);
+    } catch {
+      throw new BackupError('The backup file is damaged');
+    }
+    if (check !== file.check) throw new BackupError('Incorrect backup passphrase');
+
+    let payload: BackupPayload;
+    try {
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: headerOf(file) }, key, ciphertext);
+      payload = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+      throw new BackupError('The backup file is damaged or has been modified');
+    }
+
+    const settings = payload?.records?.settings ?? [];
+    const profile = settings.find(record => record.id === 'profile')?.value as UserProfile | undefined;
+    const identity = settings.find(record => record.id === 'identity')?.value as IdentityKeys | undefined;
+    if (typeof profile?.username !== 'string' || typeof identity?.publicKey !== 'string' || !Array.isArray(payload.messages)) {
+      throw new BackupError('The backup does not contain an identity');
+    }
+    return { ...payload, createdAt: file.createdAt, profile, identity };
+  },
+
+  /**
+   * Writes an opened backup into the newly created (and unlocked) vault. Backups made before
+   * sessions and the outbox were left out still carry them; they are skipped here.
+   */
+  async restore(contents: BackupContents): Promise<void> {
+    for (const store of BACKUP_STORES) {
+      for (const { id, value } of contents.records[store] ?? []) {
+        if (store === 'senderKeys' && isOwnChain(value)) continue;
+        await storageService.put(store, id, value);
+      }
+    }
+    for (const { message, text, edits } of contents.messages) {
+      // Nothing is queued any more to deliver it
+      const restored = message.status === 'pending' ? { ...message, status: 'failed' as const } : message;
+      await storageService.saveMessage(conversationOf(restored, contents.profile.username), restored, text, edits);
+    }
+  }
+};
@@ -0,0 +1,132 @@
+import { NetworkStats } from '../types';
+
+/**
+ * WhisperLine Call Quality
+ * Samples RTCPeerConnection statistics during a call, classifies link quality and
+ * adapts the outgoing video to match: lower resolution and bitrate as quality drops,
+ * and audio-only when it is Poor.
+ */
+
+const SAMPLE_INTERVAL = 2000;
+const STABLE_SAMPLES = 2; // Consecutive samples a new quality must hold before adapting
+
+type Quality = NetworkStats['quality'];
+
+interface Counters {
+  timestamp: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// Outgoing video limits per quality level; Poor pauses video entirely
+const VIDEO_PROFILES: Record<Quality, { active: boolean; maxBitrate?: number; scaleResolutionDownBy: number }> = {
+  Excellent: { active: true, scaleResolutionDownBy: 1 },
+  Good: { active: true, maxBitrate: 1_000_000, scaleResolutionDownBy: 1.5 },
+  Fair: { active: true, maxBitrate: 400_000, scaleResolutionDownBy: 2 },
+  Poor: { active: false, maxBitrate: 150_000, scaleResolutionDownBy: 4 }
+};
+
+let timer: ReturnType<typeof setInterval> | null = null;
+let previous: Counters | null = null;
+let applied: Quality = 'Excellent';
+let candidate: Quality = 'Excellent';
+let candidateSamples = 0;
+
+const classifyQuality = (latency: number, packetLoss: number): Quality => {
+  if (latency < 150 && packetLoss < 1) return 'Excellent';
+  if (latency < 300 && packetLoss < 3) return 'Good';
+  if (latency < 500 && packetLoss < 8) return 'Fair';
+  return 'Poor';
+};
+
+const isInboundRtp = (entry: RTCStats): entry is RTCInboundRtpStreamStats => entry.type === 'inbound-rtp';
+const isCandidatePair = (entry: RTCStats): entry is RTCIceCandidatePairStats => entry.type === 'candidate-pair';
+
+const readCounters = (report: RTCStatsReport) => {
+  const counters: Counters = { timestamp: Date.now(), bytesReceived: 0, packetsReceived: 0, packetsLost: 0 };
+  let latency = 0;
+  report.forEach((entry: RTCStats) => {
+    if (isInboundRtp(entry)) {
+      counters.bytesReceived += entry.bytesReceived ?? 0;
+      counters.packetsReceived += entry.packetsReceived ?? 0;
+      counters.packetsLost += entry.packetsLost ?? 0;
+    } else if (isCandidatePair(entry) && entry.nominated && entry.state === 'succeeded') {
+      latency = Math.round((entry.currentRoundTripTime ?? 0) * 1000);
+    }
+  });
+  return { counters, latency };
+};
+
+const sample = async (connection: RTCPeerConnection): Promise<NetworkStats | null> => {
+  const { counters, latency } = readCounters(await connection.getStats());
+  const last = previous;
+  previous = counters;
+  if (!last) return null;
+
+  const elapsed = Math.max(1, counters.timestamp - last.timestamp);
+  const received = Math.max(0, counters.packetsReceived - last.packetsReceived);
+  const lost = Math.max(0, counters.packetsLost - last.packetsLost);
+  const packetLoss = received + lost > 0 ? (lost / (received + lost)) * 100 : 0;
+
+  return {
+    bitrate: Math.round(((counters.bytesReceived - last.bytesReceived) * 8) / elapsed), // bits per ms = kbps
+    latency,
+    packetLoss: Math.round(packetLoss * 10) / 10,
+    quality: classifyQuality(latency, packetLoss)
+  };
+};
+
+const adapt = async (connection: RTCPeerConnection, quality: Quality) => {
+  const profile = VIDEO_PROFILES[quality];
+  const senders = connection.getSenders().filter(sender => sender.track?.kind === 'video');
+  for (const sender of senders) {
+    const parameters = sender.getParameters();
+    if (!parameters.encodings?.length) continue;
+    parameters.encodings.forEach(encoding => {
+      encoding.active = profile.active;
+      encoding.scaleResolutionDownBy = profile.scaleResolutionDownBy;
+      if (profile.maxBitrate) encoding.maxBitrate = profile.maxBitrate;
+      else delete encoding.maxBitrate;
+    });
+    await sender.setParameters(parameters);
+  }
+};
+
+export const callQualityService = {
+  /**
+   * Starts sampling a call's connection. `onStats` receives each sample and whether
+   * outgoing video is currently paused for quality.
+   */
+  start(connection: RTCPeerConnection, video: boolean, onStats: (stats: NetworkStats, audioOnly: boolean) => void): void {
+    this.stop();
+    timer = setInterval(async () => {
+      let stats: NetworkStats | null;
+      try {
+        stats = await sample(connection);
+      } catch (err) {
+        console.error('Failed to read call statistics', err);
+        return;
+      }
+      if (!stats) return;
+
+      // Hysteresis: one bad sample should not flap the video on and off
+      candidateSamples = stats.quality === candidate ? candidateSamples + 1 : 1;
+      candidate = stats.quality;
+      if (video && candidate !== applied && candidateSamples >= STABLE_SAMPLES) {
+        applied = candidate;
+        adapt(connection, applied).catch(err => console.error('Failed to adapt video quality', err));
+      }
+      onStats(stats, video && applied === 'Poor');
+    }, SAMPLE_INTERVAL);
+  },
+
+  stop(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+    previous = null;
+    applied = 'Excellent';
+    candidate = 'Excellent';
+    candidateSamples = 0;
+  }
+};
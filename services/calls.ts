@@ -0,0 +1,273 @@
+import { MediaConnection } from 'peerjs';
+import { CallState } from '../types';
+import { signalingService } from './signaling';
+import { callQualityService } from './callQuality';
+import { deviceService, parseAddress } from './devices';
+
+/**
+ * WhisperLine Calls
+ * Audio/video calls over PeerJS MediaConnections. Call decisions (ring, accept, reject,
+ * hang-up) travel as call-signal frames on the data channel, so both sides agree on
+ * when a call ends even if the media connection never came up.
+ *
+ * An outgoing call dials every device of the callee at once; the first to answer takes
+ * the call and the others stop ringing. Unanswered calls give up after a while.
+ */
+
+export const IDLE_CALL: CallState = {
+  isActive: false,
+  type: null,
+  remoteParticipant: null,
+  startTime: null,
+  status: 'ended',
+  direction: null,
+  muted: false,
+  cameraOff: false,
+  stats: null,
+  audioOnly: false,
+  ringing: false
+};
+
+const RING_TIMEOUT = 45 * 1000;
+
+let state: CallState = { ...IDLE_CALL };
+let connection: MediaConnection | null = null;
+let remoteAddress: string | null = null; // The other party's device, once known
+let dialing = new Map<string, MediaConnection>(); // Outgoing: each callee device until one answers
+let ringTimer: ReturnType<typeof setTimeout> | null = null;
+let localStream: MediaStream | null = null;
+let remoteStream: MediaStream | null = null;
+let onChange: ((state: CallState) => void) | null = null;
+
+const update = (changes: Partial<CallState>) => {
+  state = { ...state, ...changes };
+  onChange?.({ ...state });
+};
+
+const openMedia = (type: 'audio' | 'video') =>
+  navigator.mediaDevices.getUserMedia({ audio: true, video: type === 'video' });
+
+const mediaError = (err: unknown) =>
+  err instanceof DOMException && err.name === 'NotAllowedError'
+    ? 'Microphone or camera access was denied'
+    : 'No microphone or camera available';
+
+const stopRinging = () => {
+  if (ringTimer) clearTimeout(ringTimer);
+  ringTimer = null;
+};
+
+const release = () => {
+  stopRinging();
+  callQualityService.stop();
+  localStream?.getTracks().forEach(track => track.stop());
+  remoteStream?.getTracks().forEach(track => track.stop());
+  const closing = [connection, ...dialing.values()];
+  connection = null;
+  remoteAddress = null;
+  dialing = new Map();
+  localStream = null;
+  remoteStream = null;
+  closing.forEach(call => call?.close());
+};
+
+const finish = (endReason?: string) => {
+  if (!state.isActive) return;
+  release();
+  update({ isActive: false, status: 'ended', ringing: false, endReason });
+};
+
+// Tells the other party: the answering device, or while dialing every device still ringing
+const signal = (action: 'ring' | 'accept' | 'reject' | 'hangup') => {
+  const targets = remoteAddress ? [remoteAddress] : [...dialing.keys()];
+  targets.forEach(address => signalingService.sendCallSignal(address, action, state.type!));
+};
+
+// One of the callee's devices answered: it gets the call, the rest stop ringing
+const choose = (address: string) => {
+  const call = dialing.get(address);
+  if (!call) return;
+  dialing.delete(address);
+  dialing.forEach((other, otherAddress) => {
+    signalingService.sendCallSignal(otherAddress, 'hangup', state.type!);
+    other.close();
+  });
+  dialing = new Map();
+  connection = call;
+  remoteAddress = address;
+  stopRinging();
+};
+
+// A device we were dialing cannot take the call; the call ends once none is left
+const drop = (address: string) => {
+  const call = dialing.get(address);
+  if (!call) return;
+  dialing.delete(address);
+  call.close();
+  if (!connection && dialing.size === 0) finish(`@${state.remoteParticipant} is not reachable right now`);
+};
+
+const attach = (call: MediaConnection, address: string) => {
+  call.on('stream', (stream) => {
+    if (dialing.get(address) === call) choose(address);
+    if (connection !== call) return;
+    remoteStream = stream;
+    // Some browsers raise 'stream' once per track
+    if (state.status === 'connected') return update({});
+    update({ status: 'connected', startTime: Date.now() });
+    callQualityService.start(call.peerConnection, state.type === 'video', (stats, audioOnly) => {
+      if (connection === call) update({ stats, audioOnly });
+    });
+  });
+  call.on('close', () => {
+    if (connection === call) finish('Call ended');
+    else if (dialing.get(address) === call) drop(address);
+  });
+  call.on('error', (err) => {
+    console.error('Call failed', err);
+    if (connection === call) finish('Connection lost');
+    else if (dialing.get(address) === call) drop(address);
+  });
+};
+
+export const callService = {
+  init(handler: (state: CallState) => void): void {
+    onChange = handler;
+  },
+
+  getState(): CallState {
+    return { ...state };
+  },
+
+  getLocalStream(): MediaStream | null {
+    return localStream;
+  },
+
+  getRemoteStream(): MediaStream | null {
+    return remoteStream;
+  },
+
+  /**
+   * Places an outgoing call to every device of a user. The call stays in 'dialing' until one
+   * of them accepts, and ends if none answers in time.
+   */
+  async start(username: string, type: 'audio' | 'video'): Promise<void> {
+    if (state.isActive) return;
+    update({ ...IDLE_CALL, isActive: true, type, remoteParticipant: username, status: 'dialing', direction: 'outgoing' });
+
+    try {
+      localStream = await openMedia(type);
+    } catch (err) {
+      finish(mediaError(err));
+      return;
+    }
+    if (!state.isActive) return release(); // Hung up while waiting for permission
+
+    for (const address of deviceService.addressesOf(username)) {
+      const call = signalingService.placeCall(address, localStream, type);
+      if (!call) continue;
+      dialing.set(address, call);
+      attach(call, address);
+    }
+    if (dialing.size === 0) {
+      finish('Not connected to the network');
+      return;
+    }
+    ringTimer = setTimeout(() => {
+      signal('hangup');
+      finish('No answer');
+    }, RING_TIMEOUT);
+  },
+
+  /**
+   * An incoming MediaConnection from a device. Rings unless we are already on a call.
+   */
+  incoming(call: MediaConnection, type: 'audio' | 'video', address: string): boolean {
+    const from = parseAddress(address).username;
+    if (state.isActive) {
+      call.close();
+      signalingService.sendCallSignal(address, 'reject', type);
+      return false;
+    }
+    update({ ...IDLE_CALL, isActive: true, type, remoteParticipant: from, status: 'dialing', direction: 'incoming' });
+    connection = call;
+    remoteAddress = address;
+    attach(call, address);
+    signal('ring');
+    ringTimer = setTimeout(() => finish('Missed call'), RING_TIMEOUT);
+    return true;
+  },
+
+  async answer(): Promise<void> {
+    const call = connection;
+    if (!call || state.direction !== 'incoming' || state.status !== 'dialing') return;
+    stopRinging();
+    update({ status: 'connecting' });
+
+    try {
+      localStream = await openMedia(state.type!);
+    } catch (err) {
+      signal('reject');
+      finish(mediaError(err));
+      return;
+    }
+    if (connection !== call) return release();
+
+    call.answer(localStream);
+    signal('accept');
+  },
+
+  reject(): void {
+    if (!state.isActive) return;
+    signal('reject');
+    finish('Call declined');
+  },
+
+  hangUp(): void {
+    if (!state.isActive) return;
+    signal('hangup');
+    finish('Call ended');
+  },
+
+  /**
+   * A call-signal frame from a device. Only the other party of the current call is heard: while
+   * dialing, any device being dialed; after that, only the device on the call.
+   */
+  handleSignal(from: string, action: 'ring' | 'accept' | 'reject' | 'hangup'): void {
+    if (!state.isActive || (remoteAddress ? from !== remoteAddress : !dialing.has(from))) return;
+    const outgoing = state.direction === 'outgoing' && state.status === 'dialing';
+    if (action === 'ring' && outgoing) update({ ringing: true });
+    else if (action === 'accept' && outgoing) {
+      choose(from);
+      update({ status: 'connecting', ringing: false });
+    } else if (action === 'reject') {
+      dialing.delete(from);
+      signal('hangup'); // Declined on one device is declined on all of them
+      finish(`@${state.remoteParticipant} declined the call`);
+    } else if (action === 'hangup') finish('Call ended');
+  },
+
+  /**
+   * The signaling server could not reach a device (e.g. it went offline).
+   */
+  peerUnavailable(address: string): void {
+    if (!state.isActive) return;
+    if (dialing.has(address)) drop(address);
+    else if (address === remoteAddress) finish('Connection lost');
+  },
+
+  setMuted(muted: boolean): void {
+    localStream?.getAudioTracks().forEach(track => { track.enabled = !muted; });
+    update({ muted });
+  },
+
+  setCameraOff(cameraOff: boolean): void {
+    localStream?.getVideoTracks().forEach(track => { track.enabled = !cameraOff; });
+    update({ cameraOff });
+  },
+
+  wipe(): void {
+    release();
+    state = { ...IDLE_CALL };
+  }
+};
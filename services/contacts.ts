@@ -0,0 +1,93 @@
+import { Contact } from '../types';
+import { storageService } from './storage';
+
+/**
+ * WhisperLine Contact Book
+ * The people we have chosen to talk to, with a private nickname and notes for each, and the
+ * people we have blocked. Messages from anyone else arrive as message requests until they are
+ * accepted. Identity keys and their verification stay with trust.ts.
+ */
+
+let contacts: Record<string, Contact> = {};
+
+const persist = (username: string) => {
+  const contact = contacts[username];
+  const write = contact ? storageService.put('addressBook', username, contact) : storageService.delete('addressBook', username);
+  write.catch(err => console.error('Failed to persist contact @' + username, err));
+};
+
+const entryFor = (username: string): Contact =>
+  contacts[username] ?? { username, saved: false, blocked: false, addedAt: Date.now() };
+
+export const contactService = {
+  /**
+   * Loads the contact book. The first time, everyone we already have a conversation with is
+   * added, so existing chats do not turn into message requests.
+   */
+  async load(existingPeers: string[]): Promise<Record<string, Contact>> {
+    contacts = {};
+    const stored = await storageService.getAll<Contact>('addressBook');
+    stored.forEach(contact => { contacts[contact.username] = contact; });
+
+    if (!(await storageService.get<boolean>('settings', 'contactsSeeded'))) {
+      existingPeers.filter(peer => !contacts[peer]).forEach(peer => {
+        contacts[peer] = { ...entryFor(peer), saved: true };
+        persist(peer);
+      });
+      await storageService.put('settings', 'contactsSeeded', true);
+    }
+    return { ...contacts };
+  },
+
+  all(): Record<string, Contact> {
+    return { ...contacts };
+  },
+
+  get(username: string): Contact | null {
+    return contacts[username] ?? null;
+  },
+
+  isContact(username: string): boolean {
+    return !!contacts[username]?.saved && !contacts[username].blocked;
+  },
+
+  isBlocked(username: string): boolean {
+    return !!contacts[username]?.blocked;
+  },
+
+  add(username: string): Contact {
+    contacts[username] = { ...entryFor(username), saved: true, blocked: false };
+    persist(username);
+    return contacts[username];
+  },
+
+  update(username: string, changes: Pick<Contact, 'nickname' | 'notes'>): Contact {
+    contacts[username] = { ...entryFor(username), ...changes };
+    persist(username);
+    return contacts[username];
+  },
+
+  /**
+   * Removes a saved contact. A blocked user stays on record so the block holds.
+   */
+  remove(username: string): void {
+    if (contacts[username]?.blocked) contacts[username] = { ...contacts[username], saved: false };
+    else delete contacts[username];
+    persist(username);
+  },
+
+  setBlocked(username: string, blocked: boolean): Contact | null {
+    if (!blocked && !contacts[username]?.saved) {
+      delete contacts[username];
+      persist(username);
+      return null;
+    }
+    contacts[username] = { ...entryFor(username), blocked };
+    persist(username);
+    return contacts[username];
+  },
+
+  wipe(): void {
+    contacts = {};
+  }
+};
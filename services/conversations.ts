@@ -0,0 +1,162 @@
+import { Conversation, Message } from '../types';
+import { storageService, StoredMessage } from './storage';
+import { describeSystemEvent, parseSystemEvent } from './system';
+import { describeAttachment, parseAttachment } from './attachments';
+
+/**
+ * WhisperLine Conversations
+ * Per-peer (or per-group) inbox summaries (last message, unread count, pin/archive flags) kept
+ * alongside the message store and updated as messages are saved. When the summaries
+ * are missing, they are rebuilt by scanning the message store once.
+ */
+
+const PREVIEW_LENGTH = 80;
+
+let conversations: Record<string, Conversation> = {};
+
+const persist = (peer: string) => {
+  storageService.put('conversations', peer, conversations[peer])
+    .catch(err => console.error('Failed to persist conversation with @' + peer, err));
+};
+
+const emptyConversation = (peer: string): Conversation => ({
+  peer,
+  lastMessageId: null,
+  lastSender: null,
+  lastPreview: '',
+  lastTimestamp: 0,
+  unreadCount: 0,
+  pinned: false,
+  archived: false
+});
+
+/**
+ * The one-line text for a message in the inbox and in notifications.
+ */
+export const describeMessage = (message: Message, text: string, self: string) => {
+  if (message.deleted) return 'This message was deleted';
+  if (message.type === 'system') return describeSystemEvent(parseSystemEvent(text), message.sender, self);
+  if (message.type === 'text' || message.type === 'mutation') return text;
+  return describeAttachment(message.type, parseAttachment(text));
+};
+
+const truncate = (text: string) => text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH) + '…' : text;
+
+/**
+ * The conversation a stored message belongs to: its group, or the other party.
+ */
+export const conversationOf = (message: Message, self: string) =>
+  message.groupId ?? (message.sender === self ? message.recipient : message.sender);
+
+const applyMessage = (conversation: Conversation, message: Message, text: string) => {
+  if (message.timestamp < conversation.lastTimestamp) return;
+  conversation.lastMessageId = message.id;
+  conversation.lastSender = message.sender;
+  conversation.lastPreview = truncate(text);
+  conversation.lastTimestamp = message.timestamp;
+};
+
+export const conversationService = {
+  /**
+   * Loads inbox summaries from the unlocked vault, rebuilding them from stored messages if absent.
+   */
+  async load(self: string): Promise<Record<string, Conversation>> {
+    conversations = {};
+    const stored = await storageService.getAll<Conversation>('conversations');
+    stored.forEach(conversation => { conversations[conversation.peer] = conversation; });
+
+    if (stored.length === 0) {
+      const history = await storageService.getAll<StoredMessage>('messages');
+      history.forEach(({ message, text }) => {
+        const peer = conversationOf(message, self);
+        conversations[peer] = conversations[peer] || emptyConversation(peer);
+        applyMessage(conversations[peer], message, describeMessage(message, text, self));
+      });
+      Object.keys(conversations).forEach(persist);
+    }
+    return { ...conversations };
+  },
+
+  /**
+   * Updates a peer's summary with a new message. Incoming messages the user is not looking at
+   * count as unread and bring an archived conversation back to the inbox.
+   */
+  recordMessage(peer: string, message: Message, text: string, unread: boolean): Conversation {
+    const conversation = { ...(conversations[peer] || emptyConversation(peer)) };
+    applyMessage(conversation, message, text);
+    if (unread) {
+      conversation.unreadCount++;
+      conversation.archived = false;
+    }
+    conversations[peer] = conversation;
+    persist(peer);
+    return conversation;
+  },
+
+  markRead(peer: string): Conversation | null {
+    const existing = conversations[peer];
+    if (!existing || existing.unreadCount === 0) return existing ?? null;
+    conversations[peer] = { ...existing, unreadCount: 0 };
+    persist(peer);
+    return conversations[peer];
+  },
+
+  setPinned(peer: string, pinned: boolean): Conversation {
+    conversations[peer] = { ...(conversations[peer] || emptyConversation(peer)), pinned };
+    persist(peer);
+    return conversations[peer];
+  },
+
+  setDisappearing(peer: string, disappearingAfter: number | null): Conversation {
+    conversations[peer] = { ...(conversations[peer] || emptyConversation(peer)), disappearingAfter };
+    persist(peer);
+    return conversations[peer];
+  },
+
+  /**
+   * A message was deleted (e.g. it expired); its text must not linger as the inbox preview.
+   */
+  forgetMessage(peer: string, id: string): Conversation | null {
+    const existing = conversations[peer];
+    if (!existing || existing.lastMessageId !== id) return existing ?? null;
+    conversations[peer] = { ...existing, lastPreview: '' };
+    persist(peer);
+    return conversations[peer];
+  },
+
+  /**
+   * An earlier message was edited or deleted for everyone; the preview follows if it was the latest.
+   */
+  reviseMessage(peer: string, id: string, preview: string): Conversation | null {
+    const existing = conversations[peer];
+    if (!existing || existing.lastMessageId !== id) return existing ?? null;
+    conversations[peer] = { ...existing, lastPreview: truncate(preview) };
+    persist(peer);
+    return conversations[peer];
+  },
+
+  setArchived(peer: string, archived: boolean): Conversation {
+    conversations[peer] = { ...(conversations[peer] || emptyConversation(peer)), archived };
+    persist(peer);
+    return conversations[peer];
+  },
+
+  remove(peer: string): void {
+    delete conversations[peer];
+    storageService.delete('conversations', peer)
+      .catch(err => console.error('Failed to delete conversation with @' + peer, err));
+  },
+
+  /**
+   * Pinned conversations first, then most recent activity.
+   */
+  sort(list: Conversation[]): Conversation[] {
+    return [...list].sort((a, b) =>
+      a.pinned === b.pinned ? b.lastTimestamp - a.lastTimestamp : a.pinned ? -1 : 1
+    );
+  },
+
+  wipe(): void {
+    conversations = {};
+  }
+};
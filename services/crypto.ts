@@ -1,54 +1,265 @@
+import { IdentityKeyPair, IdentityKeys, EncryptedEnvelope } from '../types';
+import { toBase64, fromBase64 } from './encoding';
 
 /**
  * WhisperLine Cryptography Module
- * Updated for the prototype to ensure messages are readable after "decryption".
+ * X25519/Ed25519 identity keys, per-contact ECDH secrets and AES-GCM envelopes on top of WebCrypto.
  */
 
+export const ENVELOPE_VERSION = 1;
+
+const KEY_INFO = new TextEncoder().encode('WhisperLine v1 message key');
+const SAFETY_NUMBER_ITERATIONS = 5200;
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+let identityPrivateKey: CryptoKey | null = null;
+let identityPublicKey: string | null = null;
+let signingPrivateKey: CryptoKey | null = null;
+let signingPublicKey: string | null = null;
+
+// Derived AES keys, keyed by the contact's public key
+const sharedKeys = new Map<string, CryptoKey>();
+
+const importPublicKey = (publicKey: string) =>
+  crypto.subtle.importKey('raw', fromBase64(publicKey), { name: 'X25519' }, true, []);
+
+const agree = async (privateKey: CryptoKey, peerPublicKey: string): Promise<ArrayBuffer> =>
+  crypto.subtle.deriveBits({ name: 'X25519', public: await importPublicKey(peerPublicKey) }, privateKey, 256);
+
+const deriveSharedKey = async (peerPublicKey: string): Promise<CryptoKey> => {
+  const cached = sharedKeys.get(peerPublicKey);
+  if (cached) return cached;
+  if (!identityPrivateKey || !identityPublicKey) throw new Error('Identity keys not loaded');
+
+  const secret = await agree(identityPrivateKey, peerPublicKey);
+  // Both sides must use the same salt, so order the two public keys
+  const salt = new TextEncoder().encode([identityPublicKey, peerPublicKey].sort().join('|'));
+  const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: KEY_INFO },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  sharedKeys.set(peerPublicKey, key);
+  return key;
+};
+
+// 30-digit fingerprint of one party, as in Signal's numeric safety numbers
+const partyFingerprint = async (username: string, publicKey: string, signingKey: string) => {
+  const input = new TextEncoder().encode(`${username}|${signingKey}|${publicKey}`);
+  let hash = new Uint8Array(await crypto.subtle.digest('SHA-512', input));
+  for (let i = 1; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    const next = new Uint8Array(hash.length + input.length);
+    next.set(hash);
+    next.set(input, hash.length);
+    hash = new Uint8Array(await crypto.subtle.digest('SHA-512', next));
+  }
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    const bytes = hash.slice(chunk * 5, chunk * 5 + 5);
+    const value = bytes.reduce((acc, b) => acc * 256 + b, 0);
+    digits += (value % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+};
+
+const envelopeAad = (envelope: Pick<EncryptedEnvelope, 'v' | 'kid'>) =>
+  new TextEncoder().encode(`${envelope.v}|${envelope.kid}`);
+
 export const cryptoService = {
   /**
-   * Generates a persistent cryptographic key pair locally.
+   * Generates a persistent X25519 identity key pair locally.
    */
-  async generateIdentityKeyPair(): Promise<{ publicKey: string; privateKey: string }> {
-    const array = new Uint8Array(32);
-    window.crypto.getRandomValues(array);
-    const mockPublic = btoa(String.fromCharCode(...array.slice(0, 16))).replace(/[^a-zA-Z0-9]/g, '');
-    const mockPrivate = btoa(String.fromCharCode(...array.slice(16, 32))).replace(/[^a-zA-Z0-9]/g, '');
-    
+  async generateIdentityKeyPair(): Promise<IdentityKeyPair> {
+    const pair = await crypto.subtle.generateKey({ name: 'X25519' }, true, ['deriveBits']) as CryptoKeyPair;
     return {
-      publicKey: `pub_${mockPublic}`,
-      privateKey: `priv_${mockPrivate}`
+      publicKey: toBase64(await crypto.subtle.exportKey('raw', pair.publicKey)),
+      privateKey: toBase64(await crypto.subtle.exportKey('pkcs8', pair.privateKey))
     };
   },
 
   /**
-   * Encrypts a message using a simulated Signal Protocol ratchet.
+   * Generates an Ed25519 key pair used to sign identity announcements.
+   */
+  async generateSigningKeyPair(): Promise<{ signingPublicKey: string; signingPrivateKey: string }> {
+    const pair = await crypto.subtle.generateKey('Ed25519', true, ['sign', 'verify']);
+    return {
+      signingPublicKey: toBase64(await crypto.subtle.exportKey('raw', pair.publicKey)),
+      signingPrivateKey: toBase64(await crypto.subtle.exportKey('pkcs8', pair.privateKey))
+    };
+  },
+
+  /**
+   * Generates a complete identity: X25519 for key agreement, Ed25519 for signatures.
+   */
+  async generateIdentity(): Promise<IdentityKeys> {
+    return { ...await this.generateIdentityKeyPair(), ...await this.generateSigningKeyPair() };
+  },
+
+  /**
+   * Makes an identity the active one for all encrypt/decrypt/sign calls.
+   */
+  async loadIdentity(keys: IdentityKeys): Promise<void> {
+    identityPrivateKey = await crypto.subtle.importKey(
+      'pkcs8', fromBase64(keys.privateKey), { name: 'X25519' }, false, ['deriveBits']
+    );
+    identityPublicKey = keys.publicKey;
+    signingPrivateKey = await crypto.subtle.importKey(
+      'pkcs8', fromBase64(keys.signingPrivateKey), 'Ed25519', false, ['sign']
+    );
+    signingPublicKey = keys.signingPublicKey;
+    sharedKeys.clear();
+  },
+
+  getIdentityPublicKey(): string | null {
+    return identityPublicKey;
+  },
+
+  getSigningPublicKey(): string | null {
+    return signingPublicKey;
+  },
+
+  /**
+   * Signs a UTF-8 string with our Ed25519 identity key.
+   */
+  async sign(data: string): Promise<string> {
+    if (!signingPrivateKey) throw new Error('Identity keys not loaded');
+    return toBase64(await crypto.subtle.sign('Ed25519', signingPrivateKey, new TextEncoder().encode(data)));
+  },
+
+  /**
+   * Verifies an Ed25519 signature; malformed keys or signatures count as invalid.
+   */
+  async verify(signingKey: string, data: string, signature: string): Promise<boolean> {
+    try {
+      const key = await crypto.subtle.importKey('raw', fromBase64(signingKey), 'Ed25519', false, ['verify']);
+      return await crypto.subtle.verify('Ed25519', key, fromBase64(signature), new TextEncoder().encode(data));
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * 30-digit fingerprint of a single identity, shown when it is created.
+   */
+  async getFingerprint(party: { username: string; publicKey: string; signingKey: string }): Promise<string> {
+    return partyFingerprint(party.username, party.publicKey, party.signingKey);
+  },
+
+  /**
+   * 60-digit safety number for a pair of identities. Both sides compute the same value.
+   */
+  async getSafetyNumber(
+    local: { username: string; publicKey: string; signingKey: string },
+    remote: { username: string; publicKey: string; signingKey: string }
+  ): Promise<string> {
+    const parts = [
+      await partyFingerprint(local.username, local.publicKey, local.signingKey),
+      await partyFingerprint(remote.username, remote.publicKey, remote.signingKey)
+    ].sort();
+    return parts.join('');
+  },
+
+  /**
+   * Raw X25519 agreement between a key pair (our identity key when omitted) and a peer public key.
+   */
+  async agree(peerPublicKey: string, keyPair?: IdentityKeyPair): Promise<ArrayBuffer> {
+    if (keyPair) {
+      const privateKey = await crypto.subtle.importKey(
+        'pkcs8', fromBase64(keyPair.privateKey), { name: 'X25519' }, false, ['deriveBits']
+      );
+      return agree(privateKey, peerPublicKey);
+    }
+    if (!identityPrivateKey) throw new Error('Identity keys not loaded');
+    return agree(identityPrivateKey, peerPublicKey);
+  },
+
+  /**
+   * Short, stable identifier for a public key (first 8 bytes of its SHA-256, hex).
+   */
+  async getKeyId(publicKey: string): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', fromBase64(publicKey)));
+    return Array.from(digest.slice(0, 8), b => b.toString(16).padStart(2, '0')).join('');
+  },
+
+  /**
+   * Parses message content into an envelope, or returns null for legacy/unknown formats.
+   */
+  parseEnvelope(content: string): EncryptedEnvelope | null {
+    try {
+      const parsed = JSON.parse(content);
+      if (
+        parsed && typeof parsed.v === 'number' && typeof parsed.kid === 'string' &&
+        typeof parsed.nonce === 'string' && typeof parsed.ciphertext === 'string'
+      ) {
+        return parsed as EncryptedEnvelope;
+      }
+    } catch {
+      // Not JSON: pre-envelope `encrypted_` payloads end up here
+    }
+    return null;
+  },
+
+  /**
+   * Encrypts a message with AES-GCM under the static ECDH secret shared with the recipient (v1).
+   * Chats use the double ratchet in ratchetService; this is kept for v1 peers.
    */
   async encryptMessage(message: string, recipientPublicKey: string): Promise<string> {
-    // Encodes the message so it can be decoded by the UI
-    const encoded = btoa(unescape(encodeURIComponent(message)));
-    return `encrypted_${encoded}_via_${recipientPublicKey.slice(0, 8)}`;
+    if (!identityPublicKey) throw new Error('Identity keys not loaded');
+    const key = await deriveSharedKey(recipientPublicKey);
+    const nonce = crypto.getRandomValues(new Uint8Array(12));
+    const header = { v: ENVELOPE_VERSION, kid: await this.getKeyId(identityPublicKey) };
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce, additionalData: envelopeAad(header) },
+      key,
+      new TextEncoder().encode(message)
+    );
+    const envelope: EncryptedEnvelope = { ...header, nonce: toBase64(nonce), ciphertext: toBase64(ciphertext) };
+    return JSON.stringify(envelope);
   },
 
   /**
-   * Decrypts a message.
+   * Decrypts an envelope exchanged with the given contact.
+   * Throws DecryptionError on unknown versions, key mismatches or tampered ciphertext.
    */
-  async decryptMessage(encryptedData: string): Promise<string> {
-    if (!encryptedData.startsWith('encrypted_')) return encryptedData;
-    
+  async decryptMessage(encryptedData: string, peerPublicKey: string): Promise<string> {
+    const envelope = this.parseEnvelope(encryptedData);
+    if (!envelope) throw new DecryptionError('Unsupported message format');
+    if (envelope.v !== ENVELOPE_VERSION || envelope.header) throw new DecryptionError(`Unsupported envelope version ${envelope.v}`);
+
+    // Our own sent messages carry our key id; everything else must come from the contact's key
+    const validIds = [await this.getKeyId(peerPublicKey)];
+    if (identityPublicKey) validIds.push(await this.getKeyId(identityPublicKey));
+    if (!validIds.includes(envelope.kid)) throw new DecryptionError('Envelope was not sealed by a known key');
+
     try {
-      const base64 = encryptedData.replace(/^encrypted_/, '').split('_via_')[0];
-      return decodeURIComponent(escape(atob(base64)));
-    } catch (e) {
-      console.error("Decryption failed", e);
-      return "[Secure Content]";
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(envelope.nonce), additionalData: envelopeAad(envelope) },
+        await deriveSharedKey(peerPublicKey),
+        fromBase64(envelope.ciphertext)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch {
+      throw new DecryptionError('Message authentication failed');
     }
   },
 
   /**
-   * Simulated secure local storage wipe.
+   * Drops all in-memory key material. The sealed copies in the vault are untouched.
    */
-  async panicWipe(): Promise<void> {
-    localStorage.clear();
-    sessionStorage.clear();
+  wipe(): void {
+    identityPrivateKey = null;
+    identityPublicKey = null;
+    signingPrivateKey = null;
+    signingPublicKey = null;
+    sharedKeys.clear();
   }
 };
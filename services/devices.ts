@@ -0,0 +1,328 @@
+import { DeviceInfo, DeviceList, IdentityKeys, TrustedIdentity, UserProfile } from '../types';
+import { storageService } from './storage';
+import { cryptoService } from './crypto';
+import { trustService } from './trust';
+import { toBase64, fromBase64, JsonObject, parseJsonObject } from './encoding';
+import { LinkBundleFrame, LinkRequestFrame } from './protocol';
+
+/**
+ * WhisperLine Devices
+ * One account can run in several browsers at once. Every device shares the identity keys
+ * but has its own peer address (the original install keeps the bare username, linked
+ * devices append their id) and its own ratchet sessions, so senders encrypt and deliver
+ * to each device separately. The account's device list is signed with the identity
+ * signing key and exchanged after every handshake, and only devices on it pass the handshake.
+ * The list also names every device ever revoked; a revoked device still holds the signing
+ * key, so a newer list that forgets a revocation or brings a revoked device back is refused.
+ *
+ * Linking uses a one-time pairing code shown on an existing device. It names the new
+ * device's id and carries a secret that authenticates the new device's request and seals
+ * the bundle of keys sent back to it.
+ */
+
+export const PRIMARY_DEVICE = 'primary';
+
+const MAX_DEVICES = 8;
+const PAIRING_TIMEOUT = 5 * 60 * 1000;
+const DEVICE_SUFFIX = /^(.+)--([0-9a-f]{8})$/;
+
+export class DeviceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeviceError';
+  }
+}
+
+// Everything a new device needs to take over the account. Message history stays behind: a
+// linked device starts with the contacts and sees messages from the moment it is linked.
+export interface LinkBundle {
+  profile: UserProfile;
+  identity: IdentityKeys;
+  devices: DeviceList;
+  contacts: TrustedIdentity[];
+}
+
+interface PairingKeys {
+  proofKey: CryptoKey;
+  bundleKey: CryptoKey;
+}
+
+let self = '';
+let current: DeviceInfo = { id: PRIMARY_DEVICE, name: 'This device', linkedAt: Date.now() };
+let ownList: DeviceList | null = null;
+let lists: Record<string, DeviceList> = {};
+let pairing: { deviceId: string; keys: PairingKeys; expiresAt: number } | null = null;
+let joining: { keys: PairingKeys } | null = null;
+
+/**
+ * The peer address of one of a user's devices.
+ */
+export const deviceAddress = (username: string, deviceId?: string) =>
+  !deviceId || deviceId === PRIMARY_DEVICE ? username : `${username}--${deviceId}`;
+
+export const parseAddress = (address: string): { username: string; deviceId: string } => {
+  const match = DEVICE_SUFFIX.exec(address);
+  return match ? { username: match[1], deviceId: match[2] } : { username: address, deviceId: PRIMARY_DEVICE };
+};
+
+// Fixed field order, so signer and verifier serialize the list identically
+const normalize = (devices: DeviceInfo[]): DeviceInfo[] =>
+  devices.map(({ id, name, linkedAt }) => ({ id, name, linkedAt }));
+
+// Lists signed before revocations were recorded have no revoked ids in their statement
+const listStatement = (username: string, updatedAt: number, devices: DeviceInfo[], revoked: string[] = []) =>
+  `whisperline-devices|${username}|${updatedAt}|${JSON.stringify(normalize(devices))}${revoked.length ? `|${JSON.stringify(revoked)}` : ''}`;
+
+const signList = async (devices: DeviceInfo[], revoked: string[] = ownList?.revoked ?? []): Promise<DeviceList> => {
+  const updatedAt = Math.max(Date.now(), (ownList?.updatedAt ?? 0) + 1);
+  const signature = await cryptoService.sign(listStatement(self, updatedAt, devices, revoked));
+  return { username: self, devices: normalize(devices), ...(revoked.length ? { revoked } : {}), updatedAt, signature };
+};
+
+const pairingKeys = async (secret: Uint8Array): Promise<PairingKeys> => {
+  const base = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const derive = (label: string) => crypto.subtle.sign('HMAC', base, new TextEncoder().encode(label));
+  return {
+    proofKey: await crypto.subtle.importKey('raw', await derive('whisperline-link-proof'), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']),
+    bundleKey: await crypto.subtle.importKey('raw', await derive('whisperline-link-bundle'), 'AES-GCM', false, ['encrypt', 'decrypt'])
+  };
+};
+
+const proofStatement = (username: string, deviceId: string, name: string) =>
+  new TextEncoder().encode(`whisperline-link|${username}|${deviceId}|${name}`);
+
+const randomDeviceId = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(4)), b => b.toString(16).padStart(2, '0')).join('');
+
+export const deviceService = {
+  /**
+   * Loads this device's identity and the known device lists from the unlocked vault.
+   */
+  async load(username: string): Promise<DeviceInfo[]> {
+    self = username;
+    lists = {};
+    pairing = null;
+    joining = null;
+    const stored = await storageService.get<DeviceInfo>('settings', 'device');
+    current = stored ?? { id: PRIMARY_DEVICE, name: 'This device', linkedAt: Date.now() };
+    if (!stored) await storageService.put('settings', 'device', current);
+    ownList = await storageService.get<DeviceList>('settings', 'deviceList');
+    (await storageService.getAll<DeviceList>('devices')).forEach(list => { lists[list.username] = list; });
+    return this.list();
+  },
+
+  current(): DeviceInfo {
+    return { ...current };
+  },
+
+  /**
+   * Our own peer address.
+   */
+  address(): string {
+    return deviceAddress(self, current.id);
+  },
+
+  /**
+   * The account's devices; just this one until another is linked.
+   */
+  list(): DeviceInfo[] {
+    return ownList ? ownList.devices.map(device => ({ ...device })) : [{ ...current }];
+  },
+
+  ownList(): DeviceList | null {
+    return ownList;
+  },
+
+  /**
+   * Every address a message for `username` must reach. Contacts without a published list have one device.
+   */
+  addressesOf(username: string): string[] {
+    if (username === self) return this.siblingAddresses();
+    return (lists[username]?.devices ?? [{ id: PRIMARY_DEVICE }]).map(device => deviceAddress(username, device.id));
+  },
+
+  /**
+   * Our other devices, which receive copies of everything we send.
+   */
+  siblingAddresses(): string[] {
+    return (ownList?.devices ?? [])
+      .filter(device => device.id !== current.id)
+      .map(device => deviceAddress(self, device.id));
+  },
+
+  isSibling(address: string): boolean {
+    return this.siblingAddresses().includes(address);
+  },
+
+  /**
+   * Whether `address` is a device on its account's current list, and so may speak for the account.
+   */
+  isListed(address: string): boolean {
+    return this.addressesOf(parseAddress(address).username).includes(address);
+  },
+
+  /**
+   * Applies a device list announced by `list.username`. Returns 'revoked' when our own
+   * account's list no longer includes this device. Revocations are permanent: a list that
+   * drops one we know of, or lists a revoked device, is refused.
+   */
+  async observe(list: DeviceList): Promise<'updated' | 'revoked' | null> {
+    const own = list.username === self;
+    const pinned = own ? null : trustService.get(list.username);
+    const signingKey = own ? cryptoService.getSigningPublicKey() : pinned && !pinned.pendingSigningKey ? pinned.signingKey : null;
+    if (!signingKey) return null;
+    const known = own ? ownList : lists[list.username];
+    if (known && known.updatedAt >= list.updatedAt) return null;
+    const revoked = list.revoked ?? [];
+    if (!(await cryptoService.verify(signingKey, listStatement(list.username, list.updatedAt, list.devices, revoked), list.signature))) {
+      console.warn(`Rejected device list for @${list.username}: invalid signature`);
+      return null;
+    }
+    if ((known?.revoked ?? []).some(id => !revoked.includes(id)) || list.devices.some(device => revoked.includes(device.id))) {
+      console.warn(`Rejected device list for @${list.username}: brings back a revoked device`);
+      return null;
+    }
+
+    const accepted: DeviceList = { ...list, devices: normalize(list.devices) };
+    if (own) {
+      ownList = accepted;
+      await storageService.put('settings', 'deviceList', accepted);
+      return accepted.devices.some(device => device.id === current.id) ? 'updated' : 'revoked';
+    }
+    lists[list.username] = accepted;
+    await storageService.put('devices', list.username, accepted);
+    return 'updated';
+  },
+
+  /**
+   * Creates a one-time pairing code for linking a new device. Only the latest code is valid.
+   */
+  async startPairing(): Promise<string> {
+    if (this.list().length >= MAX_DEVICES) throw new DeviceError(`Accounts are limited to ${MAX_DEVICES} devices`);
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+    const deviceId = randomDeviceId();
+    pairing = { deviceId, keys: await pairingKeys(secret), expiresAt: Date.now() + PAIRING_TIMEOUT };
+    const code = { username: self, from: current.id, device: deviceId, secret: toBase64(secret) };
+    return toBase64(new TextEncoder().encode(JSON.stringify(code)));
+  },
+
+  cancelPairing(): void {
+    pairing = null;
+  },
+
+  /**
+   * Answers a link request from `address`: adds the device to our list and seals the account for it.
+   */
+  async acceptLink(address: string, frame: LinkRequestFrame): Promise<Omit<LinkBundleFrame, 'v'> | null> {
+    const { username, deviceId } = parseAddress(address);
+    if (!pairing || pairing.expiresAt < Date.now() || username !== self || deviceId !== pairing.deviceId) {
+      console.warn(`Ignored link request from ${address}: no matching pairing code`);
+      return null;
+    }
+    const valid = await crypto.subtle.verify('HMAC', pairing.keys.proofKey, fromBase64(frame.proof), proofStatement(username, deviceId, frame.name));
+    if (!valid) {
+      console.warn(`Ignored link request from ${address}: wrong pairing secret`);
+      return null;
+    }
+    const { keys } = pairing;
+    pairing = null;
+
+    ownList = await signList([...this.list(), { id: deviceId, name: frame.name, linkedAt: Date.now() }]);
+    await storageService.put('settings', 'deviceList', ownList);
+
+    const bundle: LinkBundle = {
+      profile: (await storageService.get<UserProfile>('settings', 'profile'))!,
+      identity: (await storageService.get<IdentityKeys>('settings', 'identity'))!,
+      devices: ownList,
+      contacts: Object.values(trustService.all())
+    };
+    const nonce = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: nonce },
+      keys.bundleKey,
+      new TextEncoder().encode(JSON.stringify(bundle))
+    );
+    return { type: 'link', phase: 'bundle', nonce: toBase64(nonce), ciphertext: toBase64(ciphertext) };
+  },
+
+  /**
+   * New-device side: reads a pairing code and prepares the link request. Returns the address
+   * of the device that showed the code.
+   */
+  async startJoin(code: string, name: string): Promise<{ username: string; from: string; request: Omit<LinkRequestFrame, 'v'> }> {
+    let parsed: JsonObject | null;
+    try {
+      parsed = parseJsonObject(new TextDecoder().decode(fromBase64(code.trim())));
+    } catch {
+      throw new DeviceError('That is not a WhisperLine pairing code');
+    }
+    const { username, from, device, secret } = parsed ?? {};
+    if (typeof username !== 'string' || typeof from !== 'string' || typeof device !== 'string' || !/^[0-9a-f]{8}$/.test(device) ||
+      typeof secret !== 'string') {
+      throw new DeviceError('That is not a WhisperLine pairing code');
+    }
+    const deviceName = name.trim().slice(0, 64) || 'New device';
+
+    self = username;
+    current = { id: device, name: deviceName, linkedAt: Date.now() };
+    const keys = await pairingKeys(fromBase64(secret));
+    joining = { keys };
+    const proof = await crypto.subtle.sign('HMAC', keys.proofKey, proofStatement(self, current.id, deviceName));
+    return {
+      username: self,
+      from: deviceAddress(self, from),
+      request: { type: 'link', phase: 'request', name: deviceName, proof: toBase64(proof) }
+    };
+  },
+
+  /**
+   * Opens the sealed bundle from the linking device and stores this device's share of it in the new vault.
+   */
+  async adopt(frame: LinkBundleFrame): Promise<LinkBundle> {
+    if (!joining) throw new DeviceError('No device link in progress');
+    let bundle: LinkBundle;
+    try {
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(frame.nonce) }, joining.keys.bundleKey, fromBase64(frame.ciphertext));
+      bundle = JSON.parse(new TextDecoder().decode(plaintext));
+    } catch {
+      throw new DeviceError('The pairing code did not match. Create a new one and try again.');
+    }
+    if (bundle.profile?.username !== self || !bundle.devices?.devices.some(device => device.id === current.id)) {
+      throw new DeviceError('The other device sent an unexpected account');
+    }
+    joining = null;
+    return bundle;
+  },
+
+  /**
+   * Persists the adopted account's device state once the new vault exists.
+   */
+  async saveAdopted(bundle: LinkBundle): Promise<void> {
+    await storageService.put('settings', 'device', current);
+    await storageService.put('settings', 'deviceList', bundle.devices);
+    for (const contact of bundle.contacts) await storageService.put('contacts', contact.username, contact);
+    ownList = bundle.devices;
+  },
+
+  /**
+   * Removes one of our other devices for good. Contacts stop delivering to it and refuse its
+   * handshakes once they see the new list, and the device wipes itself when it does. It still
+   * knows the identity keys it was given, so the list keeps its id to stop it signing itself back in.
+   */
+  async revoke(deviceId: string): Promise<DeviceList> {
+    if (deviceId === current.id) throw new DeviceError('This device cannot revoke itself');
+    if (!this.list().some(device => device.id === deviceId)) throw new DeviceError('Unknown device');
+    ownList = await signList(this.list().filter(device => device.id !== deviceId), [...(ownList?.revoked ?? []), deviceId]);
+    await storageService.put('settings', 'deviceList', ownList);
+    return ownList;
+  },
+
+  wipe(): void {
+    self = '';
+    current = { id: PRIMARY_DEVICE, name: 'This device', linkedAt: Date.now() };
+    ownList = null;
+    lists = {};
+    pairing = null;
+    joining = null;
+  }
+};
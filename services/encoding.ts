@@ -0,0 +1,35 @@
+/**
+ * Binary/text encoding helpers shared by the crypto and storage layers, and parsing of untrusted JSON.
+ */
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array): string => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) binary += String.fromCharCode(view[i]);
+  return btoa(binary);
+};
+
+export type JsonObject = Record<string, unknown>;
+
+export const isJsonObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Parses JSON from an untrusted source; null unless it holds an object. Its fields still need checking.
+ */
+export const parseJsonObject = (text: string): JsonObject | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  return isJsonObject(data) ? data : null;
+};
+
+export const fromBase64 = (data: string): Uint8Array => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
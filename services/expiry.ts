@@ -0,0 +1,68 @@
+import { storageService } from './storage';
+
+/**
+ * WhisperLine Message Expiry
+ * Deadlines for disappearing messages, sealed in the vault so they survive reloads.
+ * A single timer fires at the earliest deadline and deletes everything that is due.
+ */
+
+export interface ExpiryEntry {
+  id: string; // Message id
+  peer: string;
+  expiresAt: number;
+}
+
+// setTimeout cannot wait longer than ~24.8 days; re-check at least this often
+const MAX_TIMER = 24 * 60 * 60 * 1000;
+
+let entries: Record<string, ExpiryEntry> = {};
+let onExpired: ((expired: ExpiryEntry[]) => Promise<void> | void) | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+const schedule = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const deadlines = Object.values(entries).map(entry => entry.expiresAt);
+  if (deadlines.length === 0) return;
+  const delay = Math.min(Math.max(0, Math.min(...deadlines) - Date.now()), MAX_TIMER);
+  timer = setTimeout(() => {
+    expiryService.sweep().catch(err => console.error('Failed to delete expired messages', err));
+  }, delay);
+};
+
+export const expiryService = {
+  /**
+   * Loads pending deadlines and immediately deletes anything that expired while the app was closed.
+   */
+  async load(handler: (expired: ExpiryEntry[]) => Promise<void> | void): Promise<void> {
+    onExpired = handler;
+    entries = {};
+    const stored = await storageService.getAll<ExpiryEntry>('expiry');
+    stored.forEach(entry => { entries[entry.id] = entry; });
+    await this.sweep();
+  },
+
+  async track(entry: ExpiryEntry): Promise<void> {
+    entries[entry.id] = entry;
+    await storageService.put('expiry', entry.id, entry);
+    schedule();
+  },
+
+  async sweep(): Promise<void> {
+    const due = Object.values(entries).filter(entry => entry.expiresAt <= Date.now());
+    for (const entry of due) {
+      delete entries[entry.id];
+      await storageService.delete('messages', entry.id);
+      await storageService.delete('expiry', entry.id);
+    }
+    if (due.length > 0) await onExpired?.(due);
+    schedule();
+  },
+
+  wipe(): void {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    entries = {};
+    onExpired = null;
+  }
+};
@@ -0,0 +1,464 @@
+import { Group, SenderKeyState } from '../types';
+import { storageService } from './storage';
+import { cryptoService, DecryptionError } from './crypto';
+import { toBase64, fromBase64, isJsonObject, parseJsonObject } from './encoding';
+import { deviceService, parseAddress } from './devices';
+
+/**
+ * WhisperLine Groups
+ * Group chats with sender keys: every member owns a symmetric hash chain per group
+ * epoch and hands its chain key to the other members over their pairwise (ratcheted)
+ * sessions. A group message is encrypted once under the sender's next chain key and
+ * fanned out unchanged to every member. Membership changes bump the epoch and every
+ * remaining member rotates its sender key, so removed members cannot read anything new.
+ *
+ * Every member holds every other member's chain key, so the chain key alone cannot prove
+ * who wrote a message. Each chain therefore comes with its own Ed25519 key pair: the public
+ * half travels with the chain key, and every envelope is signed with the private half, which
+ * never leaves the device. Every device of a member keeps its own chain, so sender keys are
+ * held per device address.
+ */
+
+export const GROUP_ENVELOPE_VERSION = 4;
+
+const GROUP_PREFIX = 'group:';
+const MAX_MEMBERS = 64;
+const MAX_NAME_LENGTH = 64;
+const MAX_SKIP = 200;
+
+type GroupAction = 'create' | 'add' | 'remove' | 'leave';
+
+// Control events travel as hidden system messages over the pairwise sessions
+export type GroupControl =
+  | { event: 'group-update'; action: GroupAction; actor: string; targets: string[]; group: Omit<Group, 'left'> }
+  | { event: 'sender-key'; groupId: string; epoch: number; chainKey: string; signingKey: string };
+
+interface GroupEnvelope {
+  v: number;
+  epoch: number;
+  iteration: number;
+  nonce: string;
+  ciphertext: string;
+  signature: string;
+}
+
+export class GroupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GroupError';
+  }
+}
+
+let self = '';
+let groups: Record<string, Group> = {};
+let senderKeys: Record<string, SenderKeyState> = {};
+let sendControl: ((peer: string, control: GroupControl) => Promise<boolean>) | null = null;
+
+const locks = new Map<string, Promise<unknown>>();
+
+const withLock = <T>(groupId: string, task: () => Promise<T>): Promise<T> => {
+  const previous = locks.get(groupId) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(groupId, next);
+  return next;
+};
+
+export const isGroupId = (id: string) => id.startsWith(GROUP_PREFIX);
+
+const keyId = (groupId: string, epoch: number, address: string) => `${groupId}|${epoch}|${address}`;
+
+const persistGroup = (group: Group) => storageService.put('groups', group.id, group);
+
+const persistKey = (state: SenderKeyState) =>
+  storageService.put('senderKeys', keyId(state.groupId, state.epoch, state.member), state);
+
+const hmac = async (keyBytes: Uint8Array, data: number) => {
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new Uint8Array([data])));
+};
+
+const kdfChain = async (chainKey: string) => {
+  const ck = fromBase64(chainKey);
+  return { messageKey: toBase64(await hmac(ck, 1)), chainKey: toBase64(await hmac(ck, 2)) };
+};
+
+const aad = (groupId: string, epoch: number, senderAddress: string, iteration: number) =>
+  new TextEncoder().encode(`${GROUP_ENVELOPE_VERSION}|${groupId}|${epoch}|${senderAddress}|${iteration}`);
+
+// Everything the recipient relies on is covered, so a signature cannot be moved to another message
+const signedData = (groupId: string, senderAddress: string, envelope: Omit<GroupEnvelope, 'signature'>) =>
+  `${envelope.v}|${groupId}|${envelope.epoch}|${senderAddress}|${envelope.iteration}|${envelope.nonce}|${envelope.ciphertext}`;
+
+const signEnvelope = async (state: SenderKeyState, data: string) => {
+  if (!state.signingPrivateKey) throw new GroupError('Missing signing key for our sender chain');
+  const key = await crypto.subtle.importKey('pkcs8', fromBase64(state.signingPrivateKey), 'Ed25519', false, ['sign']);
+  return toBase64(await crypto.subtle.sign('Ed25519', key, new TextEncoder().encode(data)));
+};
+
+const messageCipherKey = (messageKey: string) =>
+  crypto.subtle.importKey('raw', fromBase64(messageKey), 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+const others = (members: string[]) => members.filter(member => member !== self);
+
+const deliver = async (peers: string[], control: GroupControl) => {
+  await Promise.all(peers.map(async peer => {
+    if (!(await sendControl?.(peer, control))) console.warn(`Could not send group ${control.event} to @${peer}`);
+  }));
+};
+
+// Keys from before the previous epoch can no longer be used by anyone
+const pruneKeys = async (group: Group) => {
+  const stale = Object.values(senderKeys).filter(state => state.groupId === group.id && state.epoch < group.epoch - 1);
+  for (const state of stale) {
+    const id = keyId(state.groupId, state.epoch, state.member);
+    delete senderKeys[id];
+    await storageService.delete('senderKeys', id);
+  }
+};
+
+// Starts our chain for the current epoch and shares it with every other member
+const rotateOwnKey = async (group: Group) => {
+  const { signingPublicKey, signingPrivateKey } = await cryptoService.generateSigningKeyPair();
+  const state: SenderKeyState = {
+    groupId: group.id,
+    epoch: group.epoch,
+    member: deviceService.address(),
+    chainKey: toBase64(crypto.getRandomValues(new Uint8Array(32))),
+    signingKey: signingPublicKey,
+    signingPrivateKey,
+    iteration: 0,
+    skippedKeys: {}
+  };
+  senderKeys[keyId(group.id, group.epoch, state.member)] = state;
+  await persistKey(state);
+  await pruneKeys(group);
+  await deliver(others(group.members), {
+    event: 'sender-key', groupId: group.id, epoch: group.epoch, chainKey: state.chainKey, signingKey: state.signingKey
+  });
+};
+
+const announce = async (group: Group, action: GroupAction, targets: string[], recipients: string[]) => {
+  const { left, ...shared } = group;
+  // Our own other devices (reached through `self`) follow the change as well
+  await deliver([...others(recipients), self], { event: 'group-update', action, actor: self, targets, group: shared });
+};
+
+const describeUpdate = (action: GroupAction, actor: string, targets: string[], group: Group) => {
+  const name = (user: string) => user === self ? 'you' : `@${user}`;
+  const who = actor === self ? 'You' : `@${actor}`;
+  const list = targets.map(name).join(', ');
+  if (action === 'create') return `${who} created "${group.name}"`;
+  if (action === 'add') return `${who} added ${list}`;
+  if (action === 'remove') return `${who} removed ${list}`;
+  return `${who} left`;
+};
+
+const isGroupAction = (value: unknown): value is GroupAction =>
+  value === 'create' || value === 'add' || value === 'remove' || value === 'leave';
+
+const isUsernameList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length <= MAX_MEMBERS && value.every(v => typeof v === 'string' && v.length > 0 && v.length <= 64);
+
+/**
+ * Recognizes a decrypted system message that carries a group control event.
+ */
+export const parseGroupControl = (text: string): GroupControl | null => {
+  const data = parseJsonObject(text);
+  if (data?.event === 'sender-key') {
+    const { groupId, epoch, chainKey, signingKey } = data;
+    const valid = typeof groupId === 'string' && isGroupId(groupId) && typeof epoch === 'number' && Number.isInteger(epoch) && epoch > 0 &&
+      typeof chainKey === 'string' && chainKey.length <= 64 && typeof signingKey === 'string' && signingKey.length <= 64;
+    return valid ? { event: 'sender-key', groupId, epoch, chainKey, signingKey } : null;
+  }
+  if (data?.event === 'group-update') {
+    const { action, actor, targets, group } = data;
+    if (!isGroupAction(action) || typeof actor !== 'string' || !isUsernameList(targets) || !isJsonObject(group)) return null;
+    const { id, name, avatarSeed, admin, members, epoch, createdAt } = group;
+    const valid = typeof id === 'string' && isGroupId(id) &&
+      typeof name === 'string' && name.length > 0 && name.length <= MAX_NAME_LENGTH &&
+      typeof admin === 'string' && isUsernameList(members) && typeof epoch === 'number' && Number.isInteger(epoch) && epoch > 0;
+    if (!valid) return null;
+    return {
+      event: 'group-update',
+      action,
+      actor,
+      targets,
+      group: {
+        id,
+        name,
+        avatarSeed: typeof avatarSeed === 'string' ? avatarSeed.slice(0, 64) : id,
+        admin,
+        members: [...new Set(members)],
+        epoch,
+        createdAt: typeof createdAt === 'number' && Number.isFinite(createdAt) ? createdAt : Date.now()
+      }
+    };
+  }
+  return null;
+};
+
+export const groupService = {
+  /**
+   * Loads groups and sender keys from the unlocked vault. `controlSender` delivers control
+   * events to one member over the pairwise session and resolves false if it could not.
+   */
+  async load(username: string, controlSender: (peer: string, control: GroupControl) => Promise<boolean>): Promise<Record<string, Group>> {
+    self = username;
+    sendControl = controlSender;
+    groups = {};
+    senderKeys = {};
+    (await storageService.getAll<Group>('groups')).forEach(group => { groups[group.id] = group; });
+    // Chains from before message signing are left out; their owners start signed ones on the next send
+    (await storageService.getAll<SenderKeyState>('senderKeys')).filter(state => state.signingKey).forEach(state => {
+      senderKeys[keyId(state.groupId, state.epoch, state.member)] = state;
+    });
+    return this.all();
+  },
+
+  all(): Record<string, Group> {
+    return structuredClone(groups);
+  },
+
+  get(groupId: string): Group | null {
+    return groups[groupId] ? { ...groups[groupId] } : null;
+  },
+
+  isMember(groupId: string, username: string): boolean {
+    const group = groups[groupId];
+    return !!group && !group.left && group.members.includes(username);
+  },
+
+  async create(name: string, members: string[]): Promise<{ group: Group; notice: string }> {
+    const trimmed = name.trim();
+    const invited = [...new Set(members.map(m => m.trim().toLowerCase()).filter(m => m && m !== self))];
+    if (!trimmed || trimmed.length > MAX_NAME_LENGTH) throw new GroupError(`Group names need 1-${MAX_NAME_LENGTH} characters`);
+    if (invited.length === 0) throw new GroupError('Add at least one member');
+    if (invited.length + 1 > MAX_MEMBERS) throw new GroupError(`Groups are limited to ${MAX_MEMBERS} members`);
+
+    const id = GROUP_PREFIX + Array.from(crypto.getRandomValues(new Uint8Array(8)), b => b.toString(16).padStart(2, '0')).join('');
+    const group: Group = { id, name: trimmed, avatarSeed: id, admin: self, members: [self, ...invited], epoch: 1, createdAt: Date.now() };
+    groups[id] = group;
+    await persistGroup(group);
+    await announce(group, 'create', invited, group.members);
+    await rotateOwnKey(group);
+    return { group: { ...group }, notice: describeUpdate('create', self, invited, group) };
+  },
+
+  async addMembers(groupId: string, usernames: string[]): Promise<{ group: Group; notice: string }> {
+    const group = groups[groupId];
+    if (!group || group.left || group.admin !== self) throw new GroupError('Only the group admin can add members');
+    const added = [...new Set(usernames.map(u => u.trim().toLowerCase()))].filter(u => u && !group.members.includes(u));
+    if (added.length === 0) throw new GroupError('Everyone listed is already a member');
+    if (group.members.length + added.length > MAX_MEMBERS) throw new GroupError(`Groups are limited to ${MAX_MEMBERS} members`);
+
+    const updated: Group = { ...group, members: [...group.members, ...added], epoch: group.epoch + 1 };
+    groups[groupId] = updated;
+    await persistGroup(updated);
+    await announce(updated, 'add', added, updated.members);
+    await rotateOwnKey(updated);
+    return { group: { ...updated }, notice: describeUpdate('add', self, added, updated) };
+  },
+
+  async removeMember(groupId: string, username: string): Promise<{ group: Group; notice: string }> {
+    const group = groups[groupId];
+    if (!group || group.left || group.admin !== self) throw new GroupError('Only the group admin can remove members');
+    if (username === self || !group.members.includes(username)) throw new GroupError(`@${username} is not a member`);
+
+    const updated: Group = { ...group, members: group.members.filter(m => m !== username), epoch: group.epoch + 1 };
+    groups[groupId] = updated;
+    await persistGroup(updated);
+    // The removed member hears about it too, but gets none of the new keys
+    await announce(updated, 'remove', [username], group.members);
+    await rotateOwnKey(updated);
+    return { group: { ...updated }, notice: describeUpdate('remove', self, [username], updated) };
+  },
+
+  async leave(groupId: string): Promise<{ group: Group; notice: string }> {
+    const group = groups[groupId];
+    if (!group || group.left) throw new GroupError('You are not in this group');
+
+    const remaining = group.members.filter(m => m !== self);
+    // An admin who leaves hands the group to the longest-standing remaining member
+    const admin = group.admin === self ? remaining[0] ?? self : group.admin;
+    await announce({ ...group, admin, members: remaining, epoch: group.epoch + 1 }, 'leave', [self], remaining);
+
+    const updated: Group = { ...group, admin, members: remaining, epoch: group.epoch + 1, left: true };
+    groups[groupId] = updated;
+    await persistGroup(updated);
+    await this.forgetKeys(groupId);
+    return { group: { ...updated }, notice: describeUpdate('leave', self, [self], updated) };
+  },
+
+  /**
+   * Applies a control event from the device at `fromAddress`. Returns the notice to show in the group, if any.
+   */
+  async handleControl(fromAddress: string, control: GroupControl): Promise<{ group: Group; notice: string } | null> {
+    const from = parseAddress(fromAddress).username;
+    if (control.event === 'sender-key') {
+      const group = groups[control.groupId];
+      // Keys for a newer epoch may arrive before the admin's update that introduces it
+      const acceptable = !group || control.epoch > group.epoch || (control.epoch === group.epoch && group.members.includes(from));
+      const id = keyId(control.groupId, control.epoch, fromAddress);
+      // A different key for a chain we hold means the member started it over, e.g. after a restore
+      if (!acceptable || group?.left || senderKeys[id]?.chainKey === control.chainKey) return null;
+      senderKeys[id] = {
+        groupId: control.groupId,
+        epoch: control.epoch,
+        member: fromAddress,
+        chainKey: control.chainKey,
+        signingKey: control.signingKey,
+        iteration: 0,
+        skippedKeys: {}
+      };
+      await persistKey(senderKeys[id]);
+      return null;
+    }
+
+    const { action, group: incoming } = control;
+    const existing = groups[incoming.id];
+    if (control.actor !== from) return null;
+    if (existing && incoming.epoch <= existing.epoch) return null; // Replay or stale
+
+    if (action === 'leave') {
+      const expected = existing?.members.filter(m => m !== from) ?? [];
+      const consistent = existing && existing.members.includes(from) &&
+        incoming.members.length === expected.length && incoming.members.every(m => expected.includes(m)) &&
+        incoming.admin === (existing.admin === from ? expected[0] : existing.admin);
+      if (!consistent) return null;
+    } else {
+      if (incoming.admin !== from || (existing && existing.admin !== from)) return null;
+      if (!existing && !incoming.members.includes(self)) return null;
+    }
+
+    if (!incoming.members.includes(self)) {
+      const removed: Group = { ...(existing ?? incoming), members: incoming.members, epoch: incoming.epoch, left: true };
+      groups[removed.id] = removed;
+      await persistGroup(removed);
+      await this.forgetKeys(removed.id);
+      return { group: { ...removed }, notice: describeUpdate(action, from, control.targets, removed) };
+    }
+
+    const updated: Group = { ...incoming, createdAt: existing?.createdAt ?? incoming.createdAt };
+    groups[updated.id] = updated;
+    await persistGroup(updated);
+    await rotateOwnKey(updated);
+    return { group: { ...updated }, notice: describeUpdate(action, from, control.targets, updated) };
+  },
+
+  /**
+   * Encrypts a group message once under our next sender-key message key.
+   */
+  encrypt(groupId: string, plaintext: string): Promise<string> {
+    return withLock(groupId, async () => {
+      const group = groups[groupId];
+      if (!group || group.left) throw new GroupError('You are not in this group');
+      const address = deviceService.address();
+      if (!senderKeys[keyId(groupId, group.epoch, address)]) await rotateOwnKey(group);
+
+      const state = { ...senderKeys[keyId(groupId, group.epoch, address)] };
+      const { messageKey, chainKey } = await kdfChain(state.chainKey);
+      const nonce = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: nonce, additionalData: aad(groupId, group.epoch, address, state.iteration) },
+        await messageCipherKey(messageKey),
+        new TextEncoder().encode(plaintext)
+      );
+      const unsigned = {
+        v: GROUP_ENVELOPE_VERSION,
+        epoch: group.epoch,
+        iteration: state.iteration,
+        nonce: toBase64(nonce),
+        ciphertext: toBase64(ciphertext)
+      };
+      const envelope: GroupEnvelope = { ...unsigned, signature: await signEnvelope(state, signedData(groupId, address, unsigned)) };
+
+      state.chainKey = chainKey;
+      state.iteration++;
+      senderKeys[keyId(groupId, group.epoch, address)] = state;
+      await persistKey(state);
+      return JSON.stringify(envelope);
+    });
+  },
+
+  /**
+   * Decrypts a group message from the member device at `senderAddress`. The signature is checked
+   * against that device's chain before any key is derived, and the sender-key state is only
+   * advanced when authentication succeeds.
+   */
+  decrypt(groupId: string, senderAddress: string, content: string): Promise<string> {
+    const sender = parseAddress(senderAddress).username;
+    return withLock(groupId, async () => {
+      const group = groups[groupId];
+      if (!group || group.left) throw new DecryptionError('Not a member of this group');
+      if (!group.members.includes(sender)) throw new DecryptionError(`@${sender} is not a member of this group`);
+
+      const data = parseJsonObject(content);
+      const { v, epoch, iteration, nonce, ciphertext, signature } = data ?? {};
+      if (v !== GROUP_ENVELOPE_VERSION || typeof epoch !== 'number' || typeof iteration !== 'number' || !Number.isInteger(iteration) ||
+        iteration < 0 || typeof nonce !== 'string' || typeof ciphertext !== 'string' || typeof signature !== 'string') {
+        throw new DecryptionError('Unsupported message format');
+      }
+      const envelope: GroupEnvelope = { v, epoch, iteration, nonce, ciphertext, signature };
+      // A newer epoch means the membership change introducing it has not reached us yet
+      if (envelope.epoch > group.epoch) throw new DecryptionError('Missing sender key');
+      if (envelope.epoch < group.epoch - 1) throw new DecryptionError('Message is from an expired group epoch');
+
+      const stored = senderKeys[keyId(groupId, envelope.epoch, senderAddress)];
+      if (!stored) throw new DecryptionError('Missing sender key');
+      if (!(await cryptoService.verify(stored.signingKey, signedData(groupId, senderAddress, envelope), envelope.signature))) {
+        throw new DecryptionError('Message authentication failed');
+      }
+      const state: SenderKeyState = structuredClone(stored);
+
+      let messageKey = state.skippedKeys[envelope.iteration];
+      if (messageKey) {
+        delete state.skippedKeys[envelope.iteration];
+      } else {
+        if (envelope.iteration < state.iteration) throw new DecryptionError('Duplicate or expired message');
+        if (envelope.iteration - state.iteration > MAX_SKIP) throw new DecryptionError('Too many skipped messages');
+        while (state.iteration < envelope.iteration) {
+          const step = await kdfChain(state.chainKey);
+          state.skippedKeys[state.iteration] = step.messageKey;
+          state.chainKey = step.chainKey;
+          state.iteration++;
+        }
+        const step = await kdfChain(state.chainKey);
+        messageKey = step.messageKey;
+        state.chainKey = step.chainKey;
+        state.iteration++;
+      }
+
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: fromBase64(envelope.nonce), additionalData: aad(groupId, envelope.epoch, senderAddress, envelope.iteration) },
+          await messageCipherKey(messageKey),
+          fromBase64(envelope.ciphertext)
+        );
+      } catch {
+        throw new DecryptionError('Message authentication failed');
+      }
+
+      senderKeys[keyId(groupId, envelope.epoch, senderAddress)] = state;
+      await persistKey(state);
+      return new TextDecoder().decode(plaintext);
+    });
+  },
+
+  async forgetKeys(groupId: string): Promise<void> {
+    const states = Object.values(senderKeys).filter(state => state.groupId === groupId);
+    for (const state of states) {
+      const id = keyId(state.groupId, state.epoch, state.member);
+      delete senderKeys[id];
+      await storageService.delete('senderKeys', id);
+    }
+  },
+
+  wipe(): void {
+    self = '';
+    groups = {};
+    senderKeys = {};
+    sendControl = null;
+    locks.clear();
+  }
+};
@@ -0,0 +1,169 @@
+import { MediaConnection } from 'peerjs';
+import { SignalingConnection, SignalingPeer } from './signaling';
+
+/**
+ * WhisperLine Local Broker
+ * In-process stand-in for the PeerJS server and WebRTC data channels, so several
+ * clients in one test run can talk without any network: tests construct its peers
+ * in place of PeerJS ones (see tests/clients.ts). It implements the subset of the
+ * PeerJS API that SignalingService uses; media calls are not supported.
+ */
+
+type BrokerError = Error & { type: string };
+
+// Event name -> listener arguments
+interface ConnectionEvents {
+  open: [];
+  data: [data: unknown];
+  close: [];
+}
+
+interface PeerEvents {
+  open: [id: string];
+  connection: [conn: LocalDataConnection];
+  call: [call: MediaConnection];
+  disconnected: [id: string];
+  close: [];
+  error: [err: BrokerError];
+}
+
+class Emitter<Events extends { [E in keyof Events]: unknown[] }> {
+  private listeners: { [E in keyof Events]?: ((...args: Events[E]) => void)[] } = {};
+
+  on<E extends keyof Events>(event: E, listener: (...args: Events[E]) => void) {
+    this.listeners[event] = [...(this.listeners[event] || []), listener];
+    return this;
+  }
+
+  off<E extends keyof Events>(event: E, listener?: (...args: Events[E]) => void) {
+    this.listeners[event] = listener ? (this.listeners[event] || []).filter(l => l !== listener) : [];
+    return this;
+  }
+
+  protected emit<E extends keyof Events>(event: E, ...args: Events[E]) {
+    (this.listeners[event] || []).forEach(listener => listener(...args));
+  }
+}
+
+const brokerError = (type: string, message: string): BrokerError => Object.assign(new Error(message), { type });
+
+// Delivery is asynchronous, like a real channel
+const later = (task: () => void) => setTimeout(task, 0);
+
+class LocalDataConnection extends Emitter<ConnectionEvents> implements SignalingConnection {
+  open = false;
+  remote: LocalDataConnection | null = null;
+
+  constructor(public readonly peer: string) {
+    super();
+  }
+
+  send(data: unknown) {
+    if (!this.open || !this.remote) return;
+    const copy = structuredClone(data); // Nothing is shared by reference across the "wire"
+    const remote = this.remote;
+    later(() => remote.open && remote.emit('data', copy));
+  }
+
+  close() {
+    if (!this.open) return;
+    this.open = false;
+    const remote = this.remote;
+    later(() => this.emit('close'));
+    if (remote?.open) remote.close();
+  }
+
+  establish(remote: LocalDataConnection) {
+    this.remote = remote;
+    this.open = true;
+    later(() => this.emit('open'));
+  }
+}
+
+const peers = new Map<string, LocalPeer>();
+
+class LocalPeer extends Emitter<PeerEvents> implements SignalingPeer {
+  destroyed = false;
+  disconnected = false;
+  private connections: LocalDataConnection[] = [];
+
+  constructor(public readonly id: string) {
+    super();
+    later(() => {
+      if (peers.has(id)) {
+        this.emit('error', brokerError('unavailable-id', `ID "${id}" is taken`));
+        return;
+      }
+      peers.set(id, this);
+      this.emit('open', id);
+    });
+  }
+
+  connect(id: string) {
+    const local = new LocalDataConnection(id);
+    later(() => {
+      const target = peers.get(id);
+      if (!target || target.destroyed || target.disconnected) {
+        this.emit('error', brokerError('peer-unavailable', `Could not connect to peer ${id}`));
+        return;
+      }
+      const remote = new LocalDataConnection(this.id);
+      this.connections.push(local);
+      target.connections.push(remote);
+      target.emit('connection', remote);
+      remote.establish(local);
+      local.establish(remote);
+    });
+    return local;
+  }
+
+  call() {
+    later(() => this.emit('error', brokerError('browser-incompatible', 'Calls are not supported by the local broker')));
+    return null;
+  }
+
+  disconnect() {
+    this.disconnected = true;
+    if (peers.get(this.id) === this) peers.delete(this.id);
+    later(() => this.emit('disconnected', this.id));
+  }
+
+  reconnect() {
+    if (this.destroyed || !this.disconnected) return;
+    this.disconnected = false;
+    later(() => {
+      if (peers.has(this.id)) {
+        this.emit('error', brokerError('unavailable-id', `ID "${this.id}" is taken`));
+        return;
+      }
+      peers.set(this.id, this);
+      this.emit('open', this.id);
+    });
+  }
+
+  destroy() {
+    if (this.destroyed) return;
+    this.destroyed = true;
+    if (peers.get(this.id) === this) peers.delete(this.id);
+    this.connections.forEach(conn => conn.close());
+    this.connections = [];
+    later(() => this.emit('close'));
+  }
+}
+
+export const localBroker = {
+  /**
+   * Creates a peer registered with the in-process broker. Drop-in for `new Peer(id)`.
+   */
+  createPeer(id: string): SignalingPeer {
+    return new LocalPeer(id);
+  },
+
+  /**
+   * Forgets every registered peer, e.g. between integration tests.
+   */
+  reset(): void {
+    peers.forEach(peer => peer.destroy());
+    peers.clear();
+  }
+};
@@ -0,0 +1,214 @@
+import { Preferences } from '../types';
+import { storageService, VaultError } from './storage';
+import { cryptoService } from './crypto';
+import { signalingService } from './signaling';
+import { callService } from './calls';
+import { typingService } from './typing';
+import { presenceService } from './presence';
+import { outboxService } from './outbox';
+import { attachmentService } from './attachments';
+import { expiryService } from './expiry';
+import { ratchetService } from './ratchet';
+import { trustService } from './trust';
+import { groupService } from './groups';
+import { deviceService } from './devices';
+import { profileService } from './profiles';
+import { contactService } from './contacts';
+import { conversationService } from './conversations';
+import { preferencesService } from './preferences';
+import { networkConfigService } from './network';
+import { searchService } from './search';
+import { notificationService } from './notifications';
+import { toBase64, fromBase64 } from './encoding';
+
+/**
+ * WhisperLine App Lock
+ * Locking leaves the network and drops every key and everything decrypted from the vault,
+ * so an unattended device shows nothing until the passphrase (or the enrolled platform
+ * authenticator) is given again. The app locks itself after a period without interaction
+ * and, if asked to, whenever it is sent to the background. A panic wipe goes further and
+ * destroys every trace of the app on this device.
+ */
+
+export class LockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LockError';
+  }
+}
+
+export const AUTO_LOCK_OPTIONS = [60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000, 60 * 60 * 1000];
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+
+let onLock: (() => void) | null = null;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+let settings: Pick<Preferences, 'autoLockAfter' | 'lockOnBackground'> = { autoLockAfter: null, lockOnBackground: false };
+
+// Never lock in the middle of a call; look again once the idle period has passed once more
+const requestLock = () => {
+  if (callService.getState().isActive) {
+    resetIdleTimer();
+    return;
+  }
+  onLock?.();
+};
+
+const resetIdleTimer = () => {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  if (onLock && settings.autoLockAfter) idleTimer = setTimeout(requestLock, settings.autoLockAfter);
+};
+
+const handleVisibility = () => {
+  if (document.hidden && settings.lockOnBackground) requestLock();
+};
+
+// Tears down every service's in-memory state, ending with the keys
+const forgetEverything = () => {
+  if (callService.getState().isActive) callService.hangUp();
+  signalingService.stop();
+  callService.wipe();
+  typingService.wipe();
+  presenceService.wipe();
+  outboxService.wipe();
+  attachmentService.wipe();
+  expiryService.wipe();
+  ratchetService.wipe();
+  trustService.wipe();
+  groupService.wipe();
+  deviceService.wipe();
+  profileService.wipe();
+  contactService.wipe();
+  conversationService.wipe();
+  preferencesService.wipe();
+  networkConfigService.wipe();
+  searchService.wipe();
+  notificationService.wipe();
+  cryptoService.wipe();
+  storageService.lock();
+};
+
+// The authenticator's PRF output for our salt, after the user verifies on the device
+const evaluatePrf = async (credentialId: string, prfSalt: string): Promise<BufferSource> => {
+  let assertion: PublicKeyCredential | null;
+  try {
+    assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        allowCredentials: [{ type: 'public-key', id: fromBase64(credentialId) }],
+        userVerification: 'required',
+        extensions: { prf: { eval: { first: fromBase64(prfSalt) } } }
+      }
+    }) as PublicKeyCredential | null;
+  } catch {
+    throw new LockError('The authenticator did not confirm it is you');
+  }
+  const output = assertion?.getClientExtensionResults().prf?.results?.first;
+  if (!output) throw new LockError('This device cannot unlock WhisperLine with its authenticator');
+  return output;
+};
+
+export const lockService = {
+  /**
+   * Starts watching for inactivity (and backgrounding); `handler` is called when the app should lock.
+   */
+  start(handler: () => void, preferences: Preferences): void {
+    this.stop();
+    onLock = handler;
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetIdleTimer, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+    this.configure(preferences);
+  },
+
+  configure({ autoLockAfter, lockOnBackground }: Preferences): void {
+    settings = { autoLockAfter, lockOnBackground };
+    resetIdleTimer();
+  },
+
+  stop(): void {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetIdleTimer));
+    document.removeEventListener('visibilitychange', handleVisibility);
+    onLock = null;
+    resetIdleTimer();
+  },
+
+  /**
+   * Leaves the network and drops all keys and decrypted state. The vault stays on disk, sealed.
+   */
+  lock(): void {
+    this.stop();
+    forgetEverything();
+  },
+
+  /**
+   * Whether this device has a platform authenticator that could be enrolled.
+   */
+  async authenticatorAvailable(): Promise<boolean> {
+    if (!window.PublicKeyCredential) return false;
+    return PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable().catch(() => false);
+  },
+
+  async authenticatorEnrolled(): Promise<boolean> {
+    return !!(await storageService.getAuthenticator());
+  },
+
+  /**
+   * Registers a platform authenticator and lets it unlock the vault from now on. Throws
+   * VaultError for a wrong passphrase and LockError if the authenticator cannot derive keys.
+   */
+  async enrollAuthenticator(passphrase: string, username: string): Promise<void> {
+    let credential: PublicKeyCredential | null;
+    try {
+      credential = await navigator.credentials.create({
+        publicKey: {
+          rp: { name: 'WhisperLine' },
+          user: { id: crypto.getRandomValues(new Uint8Array(16)), name: username, displayName: username },
+          challenge: crypto.getRandomValues(new Uint8Array(32)),
+          pubKeyCredParams: [{ type: 'public-key', alg: -7 }, { type: 'public-key', alg: -257 }],
+          authenticatorSelection: { authenticatorAttachment: 'platform', userVerification: 'required', residentKey: 'discouraged' },
+          extensions: { prf: {} }
+        }
+      }) as PublicKeyCredential | null;
+    } catch {
+      throw new LockError('The authenticator was not set up');
+    }
+    if (!credential) throw new LockError('The authenticator was not set up');
+    if (credential.getClientExtensionResults().prf?.enabled === false) {
+      throw new LockError('This device cannot unlock WhisperLine with its authenticator');
+    }
+    const credentialId = toBase64(credential.rawId);
+    const prfSalt = toBase64(crypto.getRandomValues(new Uint8Array(32)));
+    await storageService.addAuthenticator(passphrase, credentialId, prfSalt, await evaluatePrf(credentialId, prfSalt));
+  },
+
+  async removeAuthenticator(): Promise<void> {
+    await storageService.removeAuthenticator();
+  },
+
+  /**
+   * Unlocks the vault with the enrolled authenticator. Throws LockError or VaultError.
+   */
+  async unlockWithAuthenticator(): Promise<void> {
+    const params = await storageService.getAuthenticator();
+    if (!params) throw new VaultError('No authenticator is set up on this device');
+    await storageService.unlockWithAuthenticator(await evaluatePrf(params.credentialId, params.prfSalt));
+  },
+
+  /**
+   * Destroys everything this app keeps on the device: the vault, Cache Storage, service
+   * worker registrations and web storage, after closing every connection and dropping all keys.
+   */
+  async panicWipe(): Promise<void> {
+    this.stop();
+    forgetEverything();
+    await storageService.destroy();
+    if ('caches' in window) {
+      for (const key of await caches.keys()) await caches.delete(key);
+    }
+    if ('serviceWorker' in navigator) {
+      for (const registration of await navigator.serviceWorker.getRegistrations()) await registration.unregister();
+    }
+    localStorage.clear();
+    sessionStorage.clear();
+  }
+};
@@ -0,0 +1,98 @@
+import { Message } from '../types';
+import { storageService, StoredMessage } from './storage';
+import { conversationOf } from './conversations';
+import { parseJsonObject } from './encoding';
+
+/**
+ * WhisperLine Message Mutations
+ * Edits, deletions for everyone and reactions travel as encrypted messages of type 'mutation'
+ * whose plaintext is one of these typed payloads, naming the message it changes. Both sides
+ * apply them to their stored copy. Only a message's author may edit or delete it, edits are
+ * only accepted within EDIT_WINDOW of the message's arrival (by our own clock, never the
+ * sender's), and each participant has at most one reaction per message. Applying the same
+ * mutation twice changes nothing.
+ */
+
+export type Mutation =
+  | { action: 'edit'; target: string; text: string }
+  | { action: 'delete'; target: string }
+  | { action: 'react'; target: string; emoji: string | null }; // null takes our reaction back
+
+export const EDIT_WINDOW = 15 * 60 * 1000;
+export const REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+const MAX_TARGET_LENGTH = 64;
+const MAX_TEXT_LENGTH = 16 * 1024;
+const MAX_EMOJI_LENGTH = 16;
+
+export const encodeMutation = (mutation: Mutation) => JSON.stringify(mutation);
+
+/**
+ * Parses a decrypted mutation; null if it is not a known, well-formed one.
+ */
+export const parseMutation = (text: string): Mutation | null => {
+  const { action, target, text: edited, emoji } = parseJsonObject(text) ?? {};
+  if (typeof target !== 'string' || target.length === 0 || target.length > MAX_TARGET_LENGTH) return null;
+  if (action === 'edit' && typeof edited === 'string' && edited.trim() && edited.length <= MAX_TEXT_LENGTH) {
+    return { action: 'edit', target, text: edited };
+  }
+  if (action === 'delete') return { action: 'delete', target };
+  if (action === 'react' && emoji === null) return { action: 'react', target, emoji: null };
+  if (action === 'react' && typeof emoji === 'string' && emoji && emoji.length <= MAX_EMOJI_LENGTH) {
+    return { action: 'react', target, emoji };
+  }
+  return null;
+};
+
+// The change a mutation made at `at` (by the actor's clock, which only orders their edits) and
+// arriving `now` makes to a stored message, or null if it is not allowed or already applied
+const mutate = (stored: StoredMessage, actor: string, mutation: Mutation, at: number, now: number): StoredMessage | null => {
+  const { message } = stored;
+  if (message.deleted) return null;
+  switch (mutation.action) {
+    case 'edit': {
+      if (actor !== message.sender || message.type !== 'text') return null;
+      if (now - (message.receivedAt ?? message.timestamp) > EDIT_WINDOW || (message.editedAt ?? message.timestamp) >= at) return null;
+      if (mutation.text === stored.text) return null;
+      return {
+        message: { ...message, editedAt: at },
+        text: mutation.text,
+        edits: [...(stored.edits ?? []), { text: stored.text, at: message.editedAt ?? message.timestamp }]
+      };
+    }
+    case 'delete': {
+      if (actor !== message.sender) return null;
+      const { reactions, editedAt, ...rest } = message;
+      return { message: { ...rest, content: '', deleted: true }, text: '' };
+    }
+    case 'react': {
+      if ((message.reactions?.[actor] ?? null) === mutation.emoji) return null;
+      const reactions = { ...message.reactions };
+      if (mutation.emoji) reactions[actor] = mutation.emoji;
+      else delete reactions[actor];
+      return { ...stored, message: { ...message, reactions } };
+    }
+  }
+};
+
+export const mutationService = {
+  /**
+   * Whether we may still edit one of our messages.
+   */
+  canEdit(message: Message, self: string, now = Date.now()): boolean {
+    return message.sender === self && message.type === 'text' && !message.deleted && now - message.timestamp <= EDIT_WINDOW;
+  },
+
+  /**
+   * Applies a mutation made by `actor` at `at` to a message in conversation `chat` and stores the
+   * result. `now` is when it reached us. Returns the updated record, or null if it targets a message
+   * we do not have (or one in another conversation), is not allowed, or changes nothing.
+   */
+  async apply(chat: string, actor: string, mutation: Mutation, at: number, self: string, now = Date.now()): Promise<StoredMessage | null> {
+    const stored = await storageService.get<StoredMessage>('messages', mutation.target);
+    if (!stored || conversationOf(stored.message, self) !== chat) return null;
+    const updated = mutate(stored, actor, mutation, at, now);
+    if (!updated) return null;
+    await storageService.saveMessage(chat, updated.message, updated.text, updated.edits);
+    return updated;
+  }
+};
@@ -0,0 +1,101 @@
+import { NetworkConfig, IceServerConfig } from '../types';
+import { storageService } from './storage';
+
+/**
+ * WhisperLine Network Configuration
+ * Where to find the PeerJS signaling server and which STUN/TURN servers to use.
+ * Defaults to the public PeerJS cloud; teams on an isolated network point it at
+ * their own server. Configurations are validated before they are saved or used.
+ */
+
+export const DEFAULT_NETWORK_CONFIG: NetworkConfig = {
+  host: '0.peerjs.com',
+  port: 443,
+  path: '/',
+  key: 'peerjs',
+  secure: true,
+  idPrefix: 'wline_v2_',
+  iceServers: [{ urls: 'stun:stun.l.google.com:19302' }]
+};
+
+export class NetworkConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'NetworkConfigError';
+  }
+}
+
+let config: NetworkConfig = structuredClone(DEFAULT_NETWORK_CONFIG);
+
+const HOST_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$|^\[[0-9a-f:.]+\]$/i;
+const ICE_URL_PATTERN = /^(stuns?|turns?):[^\s]+$/i;
+
+const validateIceServer = (server: IceServerConfig, index: number): string[] => {
+  const label = `ICE server ${index + 1}`;
+  if (!ICE_URL_PATTERN.test(server.urls)) return [`${label}: URL must start with stun:, stuns:, turn: or turns:`];
+  const isTurn = /^turns?:/i.test(server.urls);
+  if (isTurn && (!server.username || !server.credential)) return [`${label}: TURN servers need a username and credential`];
+  return [];
+};
+
+/**
+ * Lists everything wrong with a configuration; empty when it is usable.
+ */
+export const validateNetworkConfig = (candidate: NetworkConfig): string[] => {
+  const problems: string[] = [];
+  if (!HOST_PATTERN.test(candidate.host)) problems.push('Host must be a hostname or IP address');
+  if (!Number.isInteger(candidate.port) || candidate.port < 1 || candidate.port > 65535) problems.push('Port must be between 1 and 65535');
+  if (!candidate.path.startsWith('/')) problems.push('Path must start with /');
+  if (!candidate.key.trim()) problems.push('API key is required');
+  if (!/^[a-z0-9_-]{1,32}$/i.test(candidate.idPrefix)) problems.push('ID prefix may only use letters, digits, _ and - (max 32)');
+  candidate.iceServers.forEach((server, i) => problems.push(...validateIceServer(server, i)));
+  return problems;
+};
+
+/**
+ * ICE servers as editable text: one server per line, `url [username credential]`.
+ */
+export const formatIceServers = (servers: IceServerConfig[]) =>
+  servers.map(server => [server.urls, server.username, server.credential].filter(Boolean).join(' ')).join('\n');
+
+export const parseIceServers = (text: string): IceServerConfig[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const [urls, username, credential] = line.split(/\s+/);
+    return username ? { urls, username, credential } : { urls };
+  });
+
+export const networkConfigService = {
+  /**
+   * Loads the saved configuration from the unlocked vault; invalid saved values fall back to the defaults.
+   */
+  async load(): Promise<NetworkConfig> {
+    const stored = await storageService.get<NetworkConfig>('settings', 'network');
+    const merged = { ...DEFAULT_NETWORK_CONFIG, ...stored };
+    if (validateNetworkConfig(merged).length > 0) {
+      console.warn('Saved network configuration is invalid, using defaults');
+      config = structuredClone(DEFAULT_NETWORK_CONFIG);
+    } else {
+      config = merged;
+    }
+    return structuredClone(config);
+  },
+
+  get(): NetworkConfig {
+    return structuredClone(config);
+  },
+
+  /**
+   * Validates and saves a configuration. Throws NetworkConfigError listing every problem.
+   */
+  async update(candidate: NetworkConfig): Promise<NetworkConfig> {
+    const problems = validateNetworkConfig(candidate);
+    if (problems.length > 0) throw new NetworkConfigError(problems);
+    config = structuredClone(candidate);
+    await storageService.put('settings', 'network', config);
+    return structuredClone(config);
+  },
+
+  wipe(): void {
+    config = structuredClone(DEFAULT_NETWORK_CONFIG);
+  }
+};
@@ -0,0 +1,114 @@
+import { preferencesService } from './preferences';
+
+/**
+ * WhisperLine Notifications
+ * System notifications for messages and calls that arrive while the app is hidden. They can
+ * appear on a locked screen, so what they reveal follows the preview preference: the sender
+ * and text, only the sender, or nothing at all. They are shown through the service worker
+ * where one is active, so tapping one focuses the app on the right conversation.
+ */
+
+interface NotificationTarget {
+  kind: 'message' | 'call';
+  chat: string;
+}
+
+const CALL_TAG = 'call';
+
+let onOpen: ((chat: string) => void) | null = null;
+
+const registration = async () =>
+  'serviceWorker' in navigator ? (await navigator.serviceWorker.getRegistration()) ?? null : null;
+
+const enabled = () =>
+  preferencesService.get().notifications && 'Notification' in window && Notification.permission === 'granted' && document.hidden;
+
+const show = async (title: string, options: NotificationOptions & { data: NotificationTarget }) => {
+  const worker = await registration();
+  if (worker) {
+    await worker.showNotification(title, options);
+    return;
+  }
+  const notification = new Notification(title, options);
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+    if (options.data.kind === 'message') onOpen?.(options.data.chat);
+  };
+};
+
+// Taps on notifications shown by the service worker come back as messages
+const handleWorkerMessage = (event: MessageEvent) => {
+  const data = event.data;
+  if (data?.type === 'notification-click' && data.kind === 'message' && typeof data.chat === 'string') onOpen?.(data.chat);
+};
+
+export const notificationService = {
+  supported(): boolean {
+    return 'Notification' in window;
+  },
+
+  /**
+   * Asks for permission if needed; true if notifications may be shown.
+   */
+  async requestPermission(): Promise<boolean> {
+    if (!this.supported()) return false;
+    if (Notification.permission === 'default') await Notification.requestPermission();
+    return Notification.permission === 'granted';
+  },
+
+  /**
+   * `handler` opens the conversation a tapped message notification belongs to.
+   */
+  init(handler: (chat: string) => void): void {
+    onOpen = handler;
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.removeEventListener('message', handleWorkerMessage);
+      navigator.serviceWorker.addEventListener('message', handleWorkerMessage);
+    }
+  },
+
+  /**
+   * Notifies about a new message. `title` names the conversation; for groups, `sender` says who wrote it.
+   */
+  async message(chat: string, title: string, text: string, sender?: string): Promise<void> {
+    if (!enabled()) return;
+    const { notificationPreview } = preferencesService.get();
+    const data: NotificationTarget = { kind: 'message', chat };
+    if (notificationPreview === 'hidden') {
+      await show('WhisperLine', { body: 'New message', tag: 'message', data });
+      return;
+    }
+    const body = notificationPreview === 'full' ? (sender ? `${sender}: ${text}` : text) : 'New message';
+    await show(title, { body, tag: chat, data });
+  },
+
+  async call(chat: string, caller: string, type: 'audio' | 'video'): Promise<void> {
+    if (!enabled()) return;
+    const hidden = preferencesService.get().notificationPreview === 'hidden';
+    await show(hidden ? 'WhisperLine' : caller, {
+      body: hidden ? 'Incoming call' : `Incoming ${type} call`,
+      tag: CALL_TAG,
+      requireInteraction: true,
+      data: { kind: 'call', chat }
+    });
+  },
+
+  /**
+   * Closes the notifications for a conversation, or for the ringing call if none is given.
+   */
+  async clear(chat?: string): Promise<void> {
+    const worker = await registration();
+    const shown = await worker?.getNotifications({ tag: chat ?? CALL_TAG });
+    shown?.forEach(notification => notification.close());
+  },
+
+  wipe(): void {
+    onOpen = null;
+    // Whatever is still on screen may show message text
+    registration()
+      .then(worker => worker?.getNotifications())
+      .then(shown => shown?.forEach(notification => notification.close()))
+      .catch(() => undefined);
+  }
+};
@@ -0,0 +1,183 @@
+import { Message, MessageStatus, OutboxEntry } from '../types';
+import { storageService } from './storage';
+import { signalingService } from './signaling';
+import { deviceAddress } from './devices';
+
+/**
+ * WhisperLine Outbox
+ * Durable store-and-forward queue for outgoing messages. Entries stay in the vault until
+ * the recipient acknowledges delivery: unreachable peers are retried with exponential
+ * backoff, and transmitted-but-unacknowledged messages are sent again after a timeout.
+ * Messages to the same recipient device go out in the order they were queued.
+ */
+
+const BASE_DELAY = 2000;
+const MAX_DELAY = 5 * 60 * 1000;
+const ACK_TIMEOUT = 30 * 1000;
+const MAX_ATTEMPTS = 8;
+
+let entries: Record<string, OutboxEntry> = {};
+let onStatus: ((message: Message, status: MessageStatus) => void) | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const flushing = new Map<string, Promise<void>>();
+
+// Messages fan out under one id (to group members and to each of their devices), so entries are keyed per device
+const addressOf = (message: Message) => deviceAddress(message.recipient, message.recipientDevice);
+const entryKey = (message: Message) => `${addressOf(message)}/${message.id}`;
+
+const persist = (entry: OutboxEntry) => storageService.put('outbox', entryKey(entry.message), entry);
+
+const remove = async (key: string) => {
+  delete entries[key];
+  await storageService.delete('outbox', key);
+};
+
+const keysFor = (ids: string[]) => Object.keys(entries).filter(key => ids.includes(entries[key].message.id));
+
+const backoff = (attempts: number) => Math.min(BASE_DELAY * 2 ** (attempts - 1), MAX_DELAY);
+
+const queueFor = (address: string) =>
+  Object.values(entries)
+    .filter(entry => addressOf(entry.message) === address)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+
+// Wakes up at the earliest retry or acknowledgement deadline
+const schedule = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const due = Object.values(entries)
+    .filter(entry => entry.attempts < MAX_ATTEMPTS || entry.awaitingAck)
+    .map(entry => entry.nextAttemptAt);
+  if (due.length === 0) return;
+  timer = setTimeout(() => {
+    const addresses = new Set(Object.values(entries).map(entry => addressOf(entry.message)));
+    addresses.forEach(address => outboxService.flush(address));
+  }, Math.max(0, Math.min(...due) - Date.now()));
+};
+
+const transmit = async (address: string) => {
+  for (const entry of queueFor(address)) {
+    if (!entries[entryKey(entry.message)]) continue;
+    // Failed messages wait for a manual resend without holding up the rest
+    if (!entry.awaitingAck && entry.attempts >= MAX_ATTEMPTS) continue;
+    if (entry.nextAttemptAt > Date.now()) {
+      // Sent and still waiting for its ack: later messages may follow it
+      if (entry.awaitingAck) continue;
+      break;
+    }
+    // Never acknowledged (e.g. a peer without receipts): stop retransmitting
+    if (entry.awaitingAck && entry.attempts >= MAX_ATTEMPTS) {
+      await remove(entryKey(entry.message));
+      continue;
+    }
+
+    entry.attempts++;
+    const sent = await signalingService.sendMessage(entry.message);
+    if (sent) {
+      entry.awaitingAck = true;
+      entry.nextAttemptAt = Date.now() + ACK_TIMEOUT;
+      await persist(entry);
+      onStatus?.(entry.message, 'sent');
+      continue;
+    }
+
+    entry.awaitingAck = false;
+    entry.nextAttemptAt = Date.now() + backoff(entry.attempts);
+    await persist(entry);
+    if (entry.attempts >= MAX_ATTEMPTS) onStatus?.(entry.message, 'failed');
+    break;
+  }
+};
+
+export const outboxService = {
+  /**
+   * Loads queued messages from the vault and starts delivering them.
+   */
+  async load(statusHandler: (message: Message, status: MessageStatus) => void): Promise<void> {
+    onStatus = statusHandler;
+    entries = {};
+    const stored = await storageService.getAll<OutboxEntry>('outbox');
+    for (const entry of stored) {
+      entries[entryKey(entry.message)] = entry;
+      // Entries queued before per-recipient keys were stored under the bare message id
+      if (!entry.message.groupId) await storageService.delete('outbox', entry.message.id);
+    }
+    await Promise.all(stored.map(persist));
+    schedule();
+  },
+
+  async enqueue(message: Message): Promise<void> {
+    const entry: OutboxEntry = { message, queuedAt: Date.now(), attempts: 0, nextAttemptAt: Date.now(), awaitingAck: false };
+    entries[entryKey(message)] = entry;
+    await persist(entry);
+    await this.flush(addressOf(message));
+  },
+
+  /**
+   * Sends whatever is due for a recipient device. Concurrent calls for the same device are chained.
+   */
+  flush(address: string): Promise<void> {
+    const previous = flushing.get(address) || Promise.resolve();
+    const next = previous
+      .then(() => transmit(address))
+      .catch(err => console.error('Outbox flush failed for ' + address, err))
+      .finally(schedule);
+    flushing.set(address, next);
+    return next;
+  },
+
+  /**
+   * The device just came online: skip any remaining backoff and deliver immediately.
+   */
+  peerReady(address: string): Promise<void> {
+    queueFor(address).forEach(entry => {
+      if (entry.attempts < MAX_ATTEMPTS) entry.nextAttemptAt = Date.now();
+    });
+    return this.flush(address);
+  },
+
+  /**
+   * Delivery was acknowledged by the recipient device at `from`; the messages no longer need retransmission.
+   */
+  async acknowledge(from: string, ids: string[]): Promise<void> {
+    await Promise.all(ids.map(id => `${from}/${id}`).filter(key => entries[key]).map(remove));
+    schedule();
+  },
+
+  /**
+   * Whether a message is still waiting for delivery to any recipient.
+   */
+  isQueued(id: string): boolean {
+    return keysFor([id]).length > 0;
+  },
+
+  /**
+   * Manual resend of a failed message, to every recipient still waiting for it.
+   */
+  async retry(id: string): Promise<void> {
+    for (const key of keysFor([id])) {
+      const entry = entries[key];
+      entry.attempts = 0;
+      entry.awaitingAck = false;
+      entry.nextAttemptAt = Date.now();
+      await persist(entry);
+      onStatus?.(entry.message, 'pending');
+      await this.flush(addressOf(entry.message));
+    }
+  },
+
+  /**
+   * Drops queued messages that no longer need delivering (e.g. they expired).
+   */
+  async cancel(ids: string[]): Promise<void> {
+    await Promise.all(keysFor(ids).map(remove));
+    schedule();
+  },
+
+  wipe(): void {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    entries = {};
+    flushing.clear();
+  }
+};
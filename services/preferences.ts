@@ -0,0 +1,39 @@
+import { Preferences } from '../types';
+import { storageService } from './storage';
+
+/**
+ * WhisperLine Preferences
+ * User-facing privacy and behaviour settings, sealed in the vault's settings store.
+ */
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  readReceipts: true,
+  autoLockAfter: 15 * 60 * 1000,
+  lockOnBackground: false,
+  notifications: false,
+  notificationPreview: 'sender'
+};
+
+let preferences: Preferences = { ...DEFAULT_PREFERENCES };
+
+export const preferencesService = {
+  async load(): Promise<Preferences> {
+    const stored = await storageService.get<Partial<Preferences>>('settings', 'preferences');
+    preferences = { ...DEFAULT_PREFERENCES, ...stored };
+    return { ...preferences };
+  },
+
+  get(): Preferences {
+    return { ...preferences };
+  },
+
+  async update(changes: Partial<Preferences>): Promise<Preferences> {
+    preferences = { ...preferences, ...changes };
+    await storageService.put('settings', 'preferences', preferences);
+    return { ...preferences };
+  },
+
+  wipe(): void {
+    preferences = { ...DEFAULT_PREFERENCES };
+  }
+};
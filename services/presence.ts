@@ -0,0 +1,65 @@
+import { Presence } from '../types';
+import { storageService } from './storage';
+
+/**
+ * WhisperLine Presence
+ * Tracks which contacts currently hold an authenticated connection and when each was
+ * last heard from. Only last-seen times are persisted; everyone starts offline.
+ */
+
+let presence: Record<string, Presence> = {};
+let onChange: ((presence: Presence) => void) | null = null;
+
+const persist = () => {
+  const lastSeen = Object.fromEntries(Object.values(presence).map(p => [p.username, p.lastSeen]));
+  storageService.put('settings', 'presence', lastSeen)
+    .catch(err => console.error('Failed to persist presence', err));
+};
+
+const set = (username: string, online: boolean) => {
+  const previous = presence[username];
+  presence[username] = { username, online, lastSeen: Date.now() };
+  if (previous?.online !== online) onChange?.({ ...presence[username] });
+  persist();
+};
+
+export const presenceService = {
+  async load(handler: (presence: Presence) => void): Promise<Record<string, Presence>> {
+    onChange = handler;
+    const stored = await storageService.get<Record<string, number | null>>('settings', 'presence');
+    presence = {};
+    Object.entries(stored ?? {}).forEach(([username, lastSeen]) => {
+      presence[username] = { username, online: false, lastSeen };
+    });
+    return this.all();
+  },
+
+  all(): Record<string, Presence> {
+    return structuredClone(presence);
+  },
+
+  isOnline(username: string): boolean {
+    return !!presence[username]?.online;
+  },
+
+  markOnline(username: string): void {
+    set(username, true);
+  },
+
+  markOffline(username: string): void {
+    if (!presence[username]?.online) return;
+    set(username, false);
+  },
+
+  /**
+   * Marks every contact offline, e.g. after our own network dropped.
+   */
+  markAllOffline(): void {
+    Object.values(presence).filter(p => p.online).forEach(p => set(p.username, false));
+  },
+
+  wipe(): void {
+    presence = {};
+    onChange = null;
+  }
+};
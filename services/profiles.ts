@@ -0,0 +1,134 @@
+import { UserProfile } from '../types';
+import { storageService } from './storage';
+import { cryptoService } from './crypto';
+import { trustService } from './trust';
+import { ProfileFrame } from './protocol';
+
+/**
+ * WhisperLine Profiles
+ * Display names, bios and avatars as published by their owners. Our own card is signed with
+ * the identity signing key and sent after every handshake and whenever it is edited; a
+ * contact's card is only accepted with a valid signature from their pinned key, and only if
+ * it is newer than the one we hold.
+ */
+
+export type ProfileCard = ProfileFrame['profile'];
+
+export interface AvatarCrop {
+  zoom: number; // 1 shows the largest centred square
+  x: number; // Horizontal pan across the spare width, -1 (left) to 1 (right)
+  y: number; // Vertical pan across the spare height, -1 (top) to 1 (bottom)
+}
+
+export const DEFAULT_CROP: AvatarCrop = { zoom: 1, x: 0, y: 0 };
+export const MAX_DISPLAY_NAME_LENGTH = 64;
+export const MAX_BIO_LENGTH = 280;
+const AVATAR_SIZE = 256;
+const MAX_AVATAR_LENGTH = 48 * 1024; // Keeps the signed frame well under the protocol's content limit
+
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileError';
+  }
+}
+
+let cards: Record<string, ProfileCard> = {};
+let ownFrame: Omit<ProfileFrame, 'v'> | null = null;
+
+const statement = (username: string, card: ProfileCard) =>
+  `whisperline-profile|${JSON.stringify([username, card.updatedAt, card.displayName ?? '', card.bio ?? '', card.avatarData ?? ''])}`;
+
+const cardOf = (profile: UserProfile): ProfileCard => ({
+  ...(profile.displayName ? { displayName: profile.displayName } : {}),
+  ...(profile.bio ? { bio: profile.bio } : {}),
+  ...(profile.avatarData ? { avatarData: profile.avatarData } : {}),
+  updatedAt: profile.updatedAt ?? profile.createdAt
+});
+
+// Cards from a contact whose key change is still awaiting approval are not trusted
+const pinnedSigningKey = (username: string) => {
+  const pinned = trustService.get(username);
+  return pinned && !pinned.pendingSigningKey ? pinned.signingKey : null;
+};
+
+/**
+ * A profile with a published card laid over it.
+ */
+export const withCard = (profile: UserProfile, card: ProfileCard | null): UserProfile =>
+  card ? { ...profile, displayName: card.displayName ?? profile.username, bio: card.bio, avatarData: card.avatarData, updatedAt: card.updatedAt } : profile;
+
+/**
+ * Crops an image to a square as described by `crop` and encodes it as a small JPEG data URL.
+ * The crop matches an `object-cover` preview scaled by `zoom` around the pan point.
+ */
+export const cropAvatar = async (source: Blob, crop: AvatarCrop): Promise<string> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(source);
+  } catch {
+    throw new ProfileError('That image could not be read');
+  }
+  const side = Math.min(bitmap.width, bitmap.height) / Math.max(1, crop.zoom);
+  const sx = (bitmap.width - side) * (crop.x + 1) / 2;
+  const sy = (bitmap.height - side) * (crop.y + 1) / 2;
+  const canvas = document.createElement('canvas');
+  canvas.width = AVATAR_SIZE;
+  canvas.height = AVATAR_SIZE;
+  canvas.getContext('2d')!.drawImage(bitmap, sx, sy, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+  bitmap.close();
+  for (const quality of [0.9, 0.8, 0.7, 0.6, 0.5]) {
+    const data = canvas.toDataURL('image/jpeg', quality);
+    if (data.length <= MAX_AVATAR_LENGTH) return data;
+  }
+  throw new ProfileError('That image is too detailed to use as an avatar');
+};
+
+export const profileService = {
+  async load(): Promise<Record<string, ProfileCard>> {
+    const stored = await storageService.getEntries<ProfileCard>('profiles');
+    cards = Object.fromEntries(stored.map(({ id, value }) => [id, value]));
+    return { ...cards };
+  },
+
+  get(username: string): ProfileCard | null {
+    return cards[username] ?? null;
+  },
+
+  /**
+   * Signs our current profile; the result is what handshakes and broadcasts send.
+   */
+  async publish(profile: UserProfile): Promise<Omit<ProfileFrame, 'v'>> {
+    const card = cardOf(profile);
+    ownFrame = { type: 'profile', profile: card, signature: await cryptoService.sign(statement(profile.username, card)) };
+    return ownFrame;
+  },
+
+  ownFrame(): Omit<ProfileFrame, 'v'> | null {
+    return ownFrame;
+  },
+
+  /**
+   * Checks a card received from `username` (ourselves, for one of our other devices) and keeps
+   * it if newer. Returns the card when it changed anything, otherwise null.
+   */
+  async observe(username: string, frame: ProfileFrame, self: string): Promise<ProfileCard | null> {
+    const signingKey = username === self ? cryptoService.getSigningPublicKey() : pinnedSigningKey(username);
+    if (!signingKey || !(await cryptoService.verify(signingKey, statement(username, frame.profile), frame.signature))) {
+      console.warn(`Rejected profile from @${username}: invalid signature`);
+      return null;
+    }
+    const known = username === self ? ownFrame?.profile : cards[username];
+    if (known && known.updatedAt >= frame.profile.updatedAt) return null;
+    if (username !== self) {
+      cards[username] = frame.profile;
+      await storageService.put('profiles', username, frame.profile);
+    }
+    return frame.profile;
+  },
+
+  wipe(): void {
+    cards = {};
+    ownFrame = null;
+  }
+};
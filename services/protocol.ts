@@ -0,0 +1,264 @@
+import { Message, DeviceList } from '../types';
+import { JsonObject, isJsonObject } from './encoding';
+
+/**
+ * WhisperLine Wire Protocol
+ * Every DataConnection frame is a versioned, discriminated object. Incoming data is
+ * validated field by field before it reaches the rest of the app; anything unknown
+ * or malformed is rejected with a reason.
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+const MAX_ID_LENGTH = 64;
+const MAX_USERNAME_LENGTH = 64;
+const MAX_KEY_LENGTH = 128;
+const MAX_CONTENT_LENGTH = 64 * 1024;
+const MAX_ACK_IDS = 500;
+const MAX_EXPIRY = 4 * 7 * 24 * 60 * 60 * 1000;
+const MAX_CHUNK_INDEX = 100000;
+const MAX_CHUNK_REQUEST = 64;
+const MAX_DEVICES = 8;
+const MAX_REVOKED_DEVICES = 256;
+const MAX_BUNDLE_LENGTH = 1024 * 1024;
+const DEVICE_ID = /^(primary|[0-9a-f]{8})$/;
+
+export interface KeyChallengeFrame {
+  v: number;
+  type: 'key-exchange';
+  phase: 'challenge';
+  nonce: string;
+}
+
+export interface KeyResponseFrame {
+  v: number;
+  type: 'key-exchange';
+  phase: 'response';
+  username: string;
+  publicKey: string;
+  signingKey: string;
+  signature: string;
+}
+
+export interface ChatFrame {
+  v: number;
+  type: 'chat';
+  message: Message;
+}
+
+export interface AckFrame {
+  v: number;
+  type: 'ack';
+  status: 'delivered' | 'read';
+  ids: string[];
+}
+
+export interface TypingFrame {
+  v: number;
+  type: 'typing';
+  state: 'start' | 'stop';
+}
+
+export interface CallSignalFrame {
+  v: number;
+  type: 'call-signal';
+  action: 'ring' | 'accept' | 'reject' | 'hangup';
+  callType: 'audio' | 'video';
+}
+
+export interface ProfileFrame {
+  v: number;
+  type: 'profile';
+  profile: { displayName?: string; bio?: string; avatarData?: string; updatedAt: number };
+  signature: string;
+}
+
+export interface HeartbeatFrame {
+  v: number;
+  type: 'heartbeat';
+  phase: 'ping' | 'pong';
+  sentAt: number;
+}
+
+export interface FileRequestFrame {
+  v: number;
+  type: 'file-request';
+  fileId: string;
+  start: number; // First chunk index wanted
+  count: number;
+}
+
+export interface FileChunkFrame {
+  v: number;
+  type: 'file-chunk';
+  fileId: string;
+  index: number;
+  data: string; // Base64 ciphertext under the file key
+}
+
+export interface DevicesFrame {
+  v: number;
+  type: 'devices';
+  list: DeviceList;
+}
+
+// Device linking: the new device proves it holds the pairing secret, then receives the sealed keys
+export interface LinkRequestFrame {
+  v: number;
+  type: 'link';
+  phase: 'request';
+  name: string;
+  proof: string;
+}
+
+export interface LinkBundleFrame {
+  v: number;
+  type: 'link';
+  phase: 'bundle';
+  nonce: string;
+  ciphertext: string;
+}
+
+export type Frame =
+  | KeyChallengeFrame
+  | KeyResponseFrame
+  | ChatFrame
+  | AckFrame
+  | TypingFrame
+  | CallSignalFrame
+  | ProfileFrame
+  | HeartbeatFrame
+  | FileRequestFrame
+  | FileChunkFrame
+  | DevicesFrame
+  | LinkRequestFrame
+  | LinkBundleFrame;
+
+export type FrameType = Frame['type'];
+
+// Distributes Omit over the union so each variant keeps its own fields
+type FrameBody<F> = F extends Frame ? Omit<F, 'v'> : never;
+
+export type ParseResult = { ok: true; frame: Frame } | { ok: false; reason: string };
+
+export const createFrame = (body: FrameBody<Frame>): Frame =>
+  ({ v: PROTOCOL_VERSION, ...body }) as Frame;
+
+const isString = (value: unknown, max: number): value is string =>
+  typeof value === 'string' && value.length > 0 && value.length <= max;
+
+const isOptionalString = (value: unknown, max: number) =>
+  value === undefined || (typeof value === 'string' && value.length <= max);
+
+const isTimestamp = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isIndex = (value: unknown, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max;
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const validateMessage = (message: unknown): string | null => {
+  if (!isJsonObject(message)) return 'message is not an object';
+  if (!isString(message.id, MAX_ID_LENGTH)) return 'invalid message id';
+  if (!isString(message.sender, MAX_USERNAME_LENGTH)) return 'invalid sender';
+  if (!isString(message.recipient, MAX_USERNAME_LENGTH)) return 'invalid recipient';
+  if (!isString(message.content, MAX_CONTENT_LENGTH)) return 'invalid content';
+  if (!isTimestamp(message.timestamp)) return 'invalid timestamp';
+  if (!oneOf(message.type, ['text', 'system', 'image', 'file', 'voice', 'mutation'] as const)) return 'unknown message type';
+  if (message.groupId !== undefined && !isString(message.groupId, MAX_ID_LENGTH)) return 'invalid group id';
+  if (message.recipientDevice !== undefined && !(typeof message.recipientDevice === 'string' && DEVICE_ID.test(message.recipientDevice))) {
+    return 'invalid recipient device';
+  }
+  if (message.syncFor !== undefined && !isString(message.syncFor, MAX_ID_LENGTH)) return 'invalid sync conversation';
+  if (message.replyTo !== undefined && !isString(message.replyTo, MAX_ID_LENGTH)) return 'invalid reply target';
+  if (message.isEphemeral !== undefined && typeof message.isEphemeral !== 'boolean') return 'invalid ephemeral flag';
+  if (message.expiresIn !== undefined && !(isIndex(message.expiresIn, MAX_EXPIRY) && message.expiresIn > 0)) {
+    return 'invalid expiry';
+  }
+  return null;
+};
+
+// Returns a rejection reason, or null when the frame is well formed
+const validators: Record<FrameType, (frame: JsonObject) => string | null> = {
+  'key-exchange': (frame) => {
+    if (frame.phase === 'challenge') return isString(frame.nonce, MAX_KEY_LENGTH) ? null : 'invalid nonce';
+    if (frame.phase !== 'response') return 'unknown key-exchange phase';
+    if (!isString(frame.username, MAX_USERNAME_LENGTH)) return 'invalid username';
+    if (!isString(frame.publicKey, MAX_KEY_LENGTH) || !isString(frame.signingKey, MAX_KEY_LENGTH)) return 'invalid keys';
+    return isString(frame.signature, MAX_KEY_LENGTH) ? null : 'invalid signature';
+  },
+  chat: (frame) => validateMessage(frame.message),
+  ack: (frame) => {
+    if (!oneOf(frame.status, ['delivered', 'read'] as const)) return 'invalid ack status';
+    if (!Array.isArray(frame.ids) || frame.ids.length === 0 || frame.ids.length > MAX_ACK_IDS) return 'invalid ack ids';
+    return frame.ids.every(id => isString(id, MAX_ID_LENGTH)) ? null : 'invalid ack ids';
+  },
+  typing: (frame) => oneOf(frame.state, ['start', 'stop'] as const) ? null : 'invalid typing state',
+  'call-signal': (frame) => {
+    if (!oneOf(frame.action, ['ring', 'accept', 'reject', 'hangup'] as const)) return 'invalid call action';
+    return oneOf(frame.callType, ['audio', 'video'] as const) ? null : 'invalid call type';
+  },
+  profile: (frame) => {
+    const profile = frame.profile;
+    if (!isJsonObject(profile)) return 'profile is not an object';
+    if (!isOptionalString(profile.displayName, 64) || !isOptionalString(profile.bio, 280)) return 'invalid profile text';
+    // Only inline images: a URL here would let the sender see when and where it is displayed
+    if (!isOptionalString(profile.avatarData, MAX_CONTENT_LENGTH)) return 'invalid avatar';
+    if (typeof profile.avatarData === 'string' && !/^data:image\/(jpeg|png|webp);base64,/.test(profile.avatarData)) return 'avatar is not an inline image';
+    if (!isTimestamp(profile.updatedAt)) return 'invalid profile timestamp';
+    return isString(frame.signature, MAX_KEY_LENGTH) ? null : 'invalid signature';
+  },
+  'file-request': (frame) => {
+    if (!isString(frame.fileId, MAX_ID_LENGTH)) return 'invalid file id';
+    if (!isIndex(frame.start, MAX_CHUNK_INDEX)) return 'invalid chunk index';
+    return isIndex(frame.count, MAX_CHUNK_REQUEST) && frame.count > 0 ? null : 'invalid chunk count';
+  },
+  'file-chunk': (frame) => {
+    if (!isString(frame.fileId, MAX_ID_LENGTH)) return 'invalid file id';
+    if (!isIndex(frame.index, MAX_CHUNK_INDEX)) return 'invalid chunk index';
+    return isString(frame.data, MAX_CONTENT_LENGTH) ? null : 'invalid chunk data';
+  },
+  devices: (frame) => {
+    const list = frame.list;
+    if (!isJsonObject(list)) return 'device list is not an object';
+    if (!isString(list.username, MAX_USERNAME_LENGTH) || !isTimestamp(list.updatedAt)) return 'invalid device list';
+    if (!Array.isArray(list.devices) || list.devices.length === 0 || list.devices.length > MAX_DEVICES) return 'invalid device list';
+    const valid = list.devices.every(device =>
+      isJsonObject(device) && typeof device.id === 'string' && DEVICE_ID.test(device.id) && isString(device.name, 64) && isTimestamp(device.linkedAt));
+    if (!valid) return 'invalid device';
+    const revoked = list.revoked;
+    if (revoked !== undefined && (!Array.isArray(revoked) || revoked.length > MAX_REVOKED_DEVICES ||
+      !revoked.every(id => typeof id === 'string' && DEVICE_ID.test(id)))) return 'invalid revoked devices';
+    return isString(list.signature, MAX_KEY_LENGTH) ? null : 'invalid signature';
+  },
+  link: (frame) => {
+    if (frame.phase === 'request') {
+      if (!isString(frame.name, 64)) return 'invalid device name';
+      return isString(frame.proof, MAX_KEY_LENGTH) ? null : 'invalid link proof';
+    }
+    if (frame.phase !== 'bundle') return 'unknown link phase';
+    if (!isString(frame.nonce, MAX_KEY_LENGTH)) return 'invalid nonce';
+    return isString(frame.ciphertext, MAX_BUNDLE_LENGTH) ? null : 'invalid link bundle';
+  },
+  heartbeat: (frame) => {
+    if (!oneOf(frame.phase, ['ping', 'pong'] as const)) return 'invalid heartbeat phase';
+    return isTimestamp(frame.sentAt) ? null : 'invalid heartbeat timestamp';
+  }
+};
+
+/**
+ * Validates raw DataConnection data against the protocol.
+ */
+export const parseFrame = (data: unknown): ParseResult => {
+  if (!isJsonObject(data)) return { ok: false, reason: 'frame is not an object' };
+  const frame = data;
+  if (typeof frame.v !== 'number') return { ok: false, reason: 'missing protocol version' };
+  if (frame.v !== PROTOCOL_VERSION) return { ok: false, reason: `unsupported protocol version ${frame.v}` };
+  const validate = typeof frame.type === 'string' && Object.prototype.hasOwnProperty.call(validators, frame.type) ? validators[frame.type as FrameType] : null;
+  if (!validate) return { ok: false, reason: `unknown frame type ${String(frame.type).slice(0, 32)}` };
+  const reason = validate(frame);
+  // Every field of the frame's type has been checked, so it can be treated as one
+  return reason ? { ok: false, reason } : { ok: true, frame: frame as unknown as Frame };
+};
@@ -0,0 +1,417 @@
+import { RatchetSession, RatchetHeader, EncryptedEnvelope, SkippedKey } from '../types';
+import { cryptoService, DecryptionError } from './crypto';
+import { toBase64, fromBase64 } from './encoding';
+import { storageService } from './storage';
+import { deviceService } from './devices';
+
+/**
+ * WhisperLine Double Ratchet
+ * Per-contact (per-device) sessions following the Signal double ratchet: a DH ratchet over X25519
+ * plus symmetric HMAC chains, so every message gets a fresh key that is deleted after use.
+ *
+ * Whoever writes first opens the session, X3DH-style without prekeys: the root key mixes the
+ * identity DH (which authenticates both sides) with a DH between a one-time ephemeral key and
+ * the recipient's identity key, and the first sending chain adds a DH from a fresh ratchet key.
+ * The ephemeral private key is dropped at once and its public half rides in every message
+ * header until the recipient answers, so no two sessions share a root, and leaking the
+ * opener's identity key does not expose the opening chain. Until that first answer the chain
+ * still rests on the recipient's identity key; their reply's DH step moves it off it.
+ *
+ * Every session has a random id that travels in the message header. A message opening a
+ * session we do not know starts a new one: a contact who lost theirs (for instance by
+ * restoring a backup) is followed, and when both sides opened at once, the session opened by
+ * the side with the smaller identity key (device address between our own devices) wins.
+ * Earlier sessions are kept a while to read messages still in flight; messages under ids
+ * dropped since are refused.
+ */
+
+export const RATCHET_ENVELOPE_VERSION = 2;
+
+const LEGACY_STORAGE_KEY = 'whisperline_sessions';
+const MAX_SKIP = 1000; // Per gap
+const MAX_SKIPPED_KEYS = 2000; // Per session, across all gaps
+const MAX_PREVIOUS_SESSIONS = 4;
+const MAX_RETIRED_SESSIONS = 20;
+const SKIPPED_KEY_TTL = 7 * 24 * 60 * 60 * 1000;
+const ROOT_INFO = new TextEncoder().encode('WhisperLine ratchet root');
+const CHAIN_INFO = new TextEncoder().encode('WhisperLine ratchet chain');
+
+// The session we send with, earlier ones we can still read, and remote ids we no longer accept
+interface ContactSessions {
+  current: RatchetSession;
+  previous: RatchetSession[];
+  retired: string[];
+}
+
+let sessions: Record<string, ContactSessions> = {};
+
+// Serializes ratchet steps per contact so concurrent sends/receives don't fork the state
+const locks = new Map<string, Promise<unknown>>();
+
+const withLock = <T>(contact: string, task: () => Promise<T>): Promise<T> => {
+  const previous = locks.get(contact) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(contact, next);
+  return next;
+};
+
+const persist = (contact: string) => {
+  const { current, previous, retired } = sessions[contact];
+  return storageService.put('sessions', contact, { contact, session: current, previous, retired });
+};
+
+const hkdf = async (salt: Uint8Array, ikm: ArrayBuffer | Uint8Array, info: Uint8Array, bytes: number) => {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, bytes * 8));
+};
+
+const hmac = async (keyBytes: Uint8Array, data: number) => {
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new Uint8Array([data])));
+};
+
+// KDF_RK: mixes a DH output into the root key, yielding a new root key and chain key
+const kdfRoot = async (rootKey: string, dhOutput: ArrayBuffer) => {
+  const out = await hkdf(fromBase64(rootKey), dhOutput, ROOT_INFO, 64);
+  return { rootKey: toBase64(out.slice(0, 32)), chainKey: toBase64(out.slice(32)) };
+};
+
+// KDF_CK: advances a chain key, yielding the next chain key and a one-time message key
+const kdfChain = async (chainKey: string) => {
+  const ck = fromBase64(chainKey);
+  return { messageKey: toBase64(await hmac(ck, 1)), chainKey: toBase64(await hmac(ck, 2)) };
+};
+
+const aad = (kid: string, header: RatchetHeader) => new TextEncoder().encode(
+  `${RATCHET_ENVELOPE_VERSION}|${kid}|${header.dh}|${header.pn}|${header.n}${header.sid ? `|${header.sid}` : ''}${header.ek ? `|${header.ek}` : ''}`
+);
+
+const newSessionId = () => toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+const messageCipherKey = async (messageKey: string) => {
+  const bytes = await hkdf(new Uint8Array(32), fromBase64(messageKey), CHAIN_INFO, 32);
+  return crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+};
+
+const selfRatchetKey = (session: RatchetSession) =>
+  session.dhSelf ? session.dhSelf.publicKey : cryptoService.getIdentityPublicKey()!;
+
+const dh = (session: RatchetSession, remote: string) =>
+  cryptoService.agree(remote, session.dhSelf || undefined);
+
+// Root of a new session: the identity DH and the opener's ephemeral DH, bound to both identities
+const sessionRoot = async (identitySecret: ArrayBuffer, ephemeralSecret: ArrayBuffer, openerKey: string, recipientKey: string) => {
+  const ikm = new Uint8Array([...new Uint8Array(identitySecret), ...new Uint8Array(ephemeralSecret)]);
+  return toBase64(await hkdf(new TextEncoder().encode(`${openerKey}|${recipientKey}`), ikm, ROOT_INFO, 32));
+};
+
+// A session we open to write first
+const openSession = async (peerIdentityKey: string): Promise<RatchetSession> => {
+  const selfKey = cryptoService.getIdentityPublicKey();
+  if (!selfKey) throw new Error('Identity keys not loaded');
+
+  const ephemeral = await cryptoService.generateIdentityKeyPair();
+  const root = await sessionRoot(await cryptoService.agree(peerIdentityKey), await cryptoService.agree(peerIdentityKey, ephemeral), selfKey, peerIdentityKey);
+  const dhSelf = await cryptoService.generateIdentityKeyPair();
+  const { rootKey, chainKey } = await kdfRoot(root, await cryptoService.agree(peerIdentityKey, dhSelf));
+
+  return {
+    id: newSessionId(),
+    remoteId: null,
+    openingKey: ephemeral.publicKey,
+    peerIdentityKey,
+    rootKey,
+    sendingChainKey: chainKey,
+    receivingChainKey: null,
+    dhSelf,
+    dhRemote: peerIdentityKey,
+    sendCount: 0,
+    receiveCount: 0,
+    previousCount: 0,
+    skippedKeys: {}
+  };
+};
+
+// The other side of a session the contact opened; their first ratchet key completes it on decrypt
+const acceptSession = async (peerIdentityKey: string, openingKey: string): Promise<RatchetSession> => {
+  const selfKey = cryptoService.getIdentityPublicKey();
+  if (!selfKey) throw new Error('Identity keys not loaded');
+
+  let rootKey: string;
+  try {
+    rootKey = await sessionRoot(await cryptoService.agree(peerIdentityKey), await cryptoService.agree(openingKey), peerIdentityKey, selfKey);
+  } catch {
+    throw new DecryptionError('Malformed session key');
+  }
+  return {
+    id: newSessionId(),
+    remoteId: null,
+    openingKey: null,
+    peerIdentityKey,
+    rootKey,
+    sendingChainKey: null,
+    receivingChainKey: null,
+    dhSelf: null,
+    dhRemote: '',
+    sendCount: 0,
+    receiveCount: 0,
+    previousCount: 0,
+    skippedKeys: {}
+  };
+};
+
+// Sessions made under another identity key than the contact's current one are of no use
+const sessionsOf = (contact: string, peerIdentityKey: string): ContactSessions | null => {
+  const known = sessions[contact];
+  return known && known.current.peerIdentityKey === peerIdentityKey ? known : null;
+};
+
+// The session a message was sent under, if we have it
+const sessionFor = (known: ContactSessions | null, header: RatchetHeader): RatchetSession | null => {
+  if (!known) return null;
+  if (!header.sid) return known.current; // From before session ids
+  const match = [known.current, ...known.previous].find(session => session.remoteId === header.sid);
+  if (match) return match;
+  // The first answer to a session we opened
+  return !header.ek && known.current.remoteId === null ? known.current : null;
+};
+
+const weGoFirst = (contact: string, peerIdentityKey: string) => {
+  const selfKey = cryptoService.getIdentityPublicKey()!;
+  return selfKey === peerIdentityKey ? deviceService.address() < contact : selfKey < peerIdentityKey;
+};
+
+// Files a session the contact just opened next to the ones we have
+const adopt = (contact: string, known: ContactSessions | null, session: RatchetSession): ContactSessions => {
+  if (!known) return { current: session, previous: [], retired: [] };
+  const simultaneous = known.current.remoteId === null && !!known.current.openingKey;
+  const [current, ...previous] = simultaneous && weGoFirst(contact, session.peerIdentityKey)
+    ? [known.current, session, ...known.previous]
+    : [session, known.current, ...known.previous];
+  const dropped = previous.slice(MAX_PREVIOUS_SESSIONS).map(old => old.remoteId).filter((id): id is string => !!id);
+  return {
+    current,
+    previous: previous.slice(0, MAX_PREVIOUS_SESSIONS),
+    retired: [...known.retired, ...dropped].slice(-MAX_RETIRED_SESSIONS)
+  };
+};
+
+// Drops skipped keys past their lifetime, then the oldest ones beyond the per-session limit
+const pruneSkippedKeys = (session: RatchetSession) => {
+  const cutoff = Date.now() - SKIPPED_KEY_TTL;
+  const kept = Object.entries(session.skippedKeys)
+    .filter(([, skipped]) => skipped.at >= cutoff)
+    .sort(([, a], [, b]) => a.at - b.at)
+    .slice(-MAX_SKIPPED_KEYS);
+  session.skippedKeys = Object.fromEntries(kept);
+};
+
+const skipMessageKeys = async (session: RatchetSession, until: number) => {
+  if (!session.receivingChainKey) return;
+  if (until - session.receiveCount > MAX_SKIP) throw new DecryptionError('Too many skipped messages');
+  const at = Date.now();
+  while (session.receiveCount < until) {
+    const { messageKey, chainKey } = await kdfChain(session.receivingChainKey);
+    session.skippedKeys[`${session.dhRemote}:${session.receiveCount}`] = { key: messageKey, at };
+    session.receivingChainKey = chainKey;
+    session.receiveCount++;
+  }
+  pruneSkippedKeys(session);
+};
+
+// Sessions stored before skipped keys carried a timestamp start their keys' lifetime now,
+// and those stored before session ids get one
+const upgradeSession = (session: RatchetSession): RatchetSession => {
+  const skippedKeys: Record<string, SkippedKey | string> = session.skippedKeys;
+  for (const [id, skipped] of Object.entries(skippedKeys)) {
+    if (typeof skipped === 'string') skippedKeys[id] = { key: skipped, at: Date.now() };
+  }
+  session.id ??= newSessionId();
+  session.remoteId ??= null;
+  session.openingKey ??= null;
+  return session;
+};
+
+interface StoredSessions {
+  contact: string;
+  session: RatchetSession;
+  previous?: RatchetSession[];
+  retired?: string[];
+}
+
+const ratchetStep = async (session: RatchetSession, remoteKey: string) => {
+  session.previousCount = session.sendCount;
+  session.sendCount = 0;
+  session.receiveCount = 0;
+  session.dhRemote = remoteKey;
+  const receiving = await kdfRoot(session.rootKey, await dh(session, remoteKey));
+  session.rootKey = receiving.rootKey;
+  session.receivingChainKey = receiving.chainKey;
+
+  session.dhSelf = await cryptoService.generateIdentityKeyPair();
+  const sending = await kdfRoot(session.rootKey, await dh(session, remoteKey));
+  session.rootKey = sending.rootKey;
+  session.sendingChainKey = sending.chainKey;
+};
+
+export const ratchetService = {
+  /**
+   * Loads persisted sessions from the unlocked vault; call after the identity keys are loaded.
+   */
+  async load(): Promise<void> {
+    sessions = {};
+    const stored = await storageService.getAll<StoredSessions>('sessions');
+    stored.forEach(({ contact, session, previous, retired }) => {
+      sessions[contact] = { current: upgradeSession(session), previous: (previous ?? []).map(upgradeSession), retired: retired ?? [] };
+    });
+
+    // Sessions from before the vault lived in localStorage
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      const legacySessions: Record<string, RatchetSession> = JSON.parse(legacy);
+      for (const [contact, session] of Object.entries(legacySessions)) {
+        sessions[contact] ??= { current: upgradeSession(session), previous: [], retired: [] };
+      }
+      await Promise.all(Object.keys(sessions).map(persist));
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+  },
+
+  /**
+   * Encrypts a message for a contact, advancing the sending chain.
+   */
+  encrypt(contact: string, peerIdentityKey: string, plaintext: string): Promise<string> {
+    return withLock(contact, async () => {
+      const known = sessionsOf(contact, peerIdentityKey);
+      const session = known ? structuredClone(known.current) : await openSession(peerIdentityKey);
+
+      // Sessions from before ephemeral openings: the responder starts its chain with a fresh ratchet key
+      if (!session.sendingChainKey) {
+        session.previousCount = session.sendCount;
+        session.sendCount = 0;
+        session.dhSelf = await cryptoService.generateIdentityKeyPair();
+        const sending = await kdfRoot(session.rootKey, await dh(session, session.dhRemote));
+        session.rootKey = sending.rootKey;
+        session.sendingChainKey = sending.chainKey;
+      }
+
+      const { messageKey, chainKey } = await kdfChain(session.sendingChainKey!);
+      const header: RatchetHeader = {
+        dh: selfRatchetKey(session),
+        pn: session.previousCount,
+        n: session.sendCount,
+        sid: session.id,
+        ...(session.openingKey ? { ek: session.openingKey } : {})
+      };
+      const kid = await cryptoService.getKeyId(cryptoService.getIdentityPublicKey()!);
+      const nonce = crypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv: nonce, additionalData: aad(kid, header) },
+        await messageCipherKey(messageKey),
+        new TextEncoder().encode(plaintext)
+      );
+
+      session.sendingChainKey = chainKey;
+      session.sendCount++;
+      sessions[contact] = known ? { ...known, current: session } : { current: session, previous: [], retired: [] };
+      await persist(contact);
+
+      const envelope: EncryptedEnvelope = {
+        v: RATCHET_ENVELOPE_VERSION,
+        kid,
+        nonce: toBase64(nonce),
+        ciphertext: toBase64(ciphertext),
+        header
+      };
+      return JSON.stringify(envelope);
+    });
+  },
+
+  /**
+   * Decrypts a message from a contact. Handles out-of-order delivery through skipped keys and
+   * sessions the contact opens; the sessions are only updated when authentication succeeds.
+   */
+  decrypt(contact: string, peerIdentityKey: string, content: string): Promise<string> {
+    const envelope = cryptoService.parseEnvelope(content);
+    if (envelope?.v === 1) return cryptoService.decryptMessage(content, peerIdentityKey);
+
+    return withLock(contact, async () => {
+      if (!envelope || envelope.v !== RATCHET_ENVELOPE_VERSION || !envelope.header) {
+        throw new DecryptionError(envelope ? `Unsupported envelope version ${envelope.v}` : 'Unsupported message format');
+      }
+      if (envelope.kid !== await cryptoService.getKeyId(peerIdentityKey)) {
+        throw new DecryptionError('Envelope was not sealed by a known key');
+      }
+
+      const { header } = envelope;
+      if (header.ek !== undefined && typeof header.ek !== 'string') throw new DecryptionError('Unsupported message format');
+      const known = sessionsOf(contact, peerIdentityKey);
+      if (header.sid && known?.retired.includes(header.sid)) throw new DecryptionError('Duplicate or expired message');
+      const existing = sessionFor(known, header);
+      if (!existing && !(header.sid && header.ek)) throw new DecryptionError('Message from an unknown session');
+      const session = existing ? structuredClone(existing) : await acceptSession(peerIdentityKey, header.ek!);
+      const skippedId = `${header.dh}:${header.n}`;
+      pruneSkippedKeys(session);
+      let messageKey = session.skippedKeys[skippedId]?.key;
+
+      if (messageKey) {
+        delete session.skippedKeys[skippedId];
+      } else {
+        if (header.dh !== session.dhRemote) {
+          await skipMessageKeys(session, header.pn);
+          await ratchetStep(session, header.dh);
+        }
+        if (header.n < session.receiveCount || !session.receivingChainKey) {
+          throw new DecryptionError('Duplicate or expired message');
+        }
+        await skipMessageKeys(session, header.n);
+        const step = await kdfChain(session.receivingChainKey);
+        messageKey = step.messageKey;
+        session.receivingChainKey = step.chainKey;
+        session.receiveCount++;
+      }
+
+      let plaintext: ArrayBuffer;
+      try {
+        plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: fromBase64(envelope.nonce), additionalData: aad(envelope.kid, header) },
+          await messageCipherKey(messageKey),
+          fromBase64(envelope.ciphertext)
+        );
+      } catch {
+        throw new DecryptionError('Message authentication failed');
+      }
+
+      if (header.sid) session.remoteId = header.sid;
+      // They have the session now, so the opening key can stay home
+      session.openingKey = null;
+      if (!existing) {
+        sessions[contact] = adopt(contact, known, session);
+      } else {
+        sessions[contact] = {
+          ...known!,
+          current: existing === known!.current ? session : known!.current,
+          previous: known!.previous.map(old => old === existing ? session : old)
+        };
+      }
+      await persist(contact);
+      return new TextDecoder().decode(plaintext);
+    });
+  },
+
+  /**
+   * Drops the session for a contact (e.g. after their identity key changed).
+   */
+  async reset(contact: string): Promise<void> {
+    delete sessions[contact];
+    await storageService.delete('sessions', contact);
+  },
+
+  /**
+   * Forgets all in-memory sessions; the persisted copies are removed with the vault.
+   */
+  wipe(): void {
+    sessions = {};
+    locks.clear();
+  }
+};
@@ -0,0 +1,182 @@
+import { Message } from '../types';
+import { storageService, StoredMessage } from './storage';
+import { parseAttachment } from './attachments';
+import { conversationOf } from './conversations';
+
+/**
+ * WhisperLine Message Search
+ * A local inverted index over decrypted message text (and attachment file names), updated as
+ * messages arrive, are sent, edited, deleted or expire. Each message's terms are sealed in the
+ * vault like any other record, so the index is only readable while the vault is unlocked; the
+ * term lookup itself lives in memory. Every query term matches as a prefix, and a message must
+ * match all of them.
+ */
+
+export interface SearchFilter {
+  chat?: string; // Conversation (peer username or group id)
+  from?: number; // Earliest timestamp, inclusive
+  to?: number; // Latest timestamp, inclusive
+}
+
+export interface SearchResult {
+  id: string;
+  chat: string;
+  sender: string;
+  timestamp: number;
+  text: string;
+}
+
+interface IndexEntry {
+  chat: string;
+  sender: string;
+  ts: number;
+  terms: string[];
+}
+
+const MAX_TERM_LENGTH = 32;
+const MAX_RESULTS = 50;
+
+let entries: Record<string, IndexEntry> = {};
+let postings = new Map<string, Set<string>>();
+let sortedTerms: string[] | null = null; // Rebuilt on the next query after the term set changes
+
+/**
+ * Splits text into lowercase terms with accents removed, so "Café" is found by "cafe".
+ */
+export const tokenize = (text: string): string[] =>
+  [...new Set(
+    text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean)
+      .map(term => term.slice(0, MAX_TERM_LENGTH))
+  )];
+
+// What a message is found by; nothing for system events, mutations and deleted messages
+const searchableText = (message: Message, text: string): string | null => {
+  if (message.deleted) return null;
+  if (message.type === 'text') return text;
+  if (message.type === 'image' || message.type === 'file' || message.type === 'voice') return parseAttachment(text)?.name ?? null;
+  return null;
+};
+
+const addEntry = (id: string, entry: IndexEntry) => {
+  entries[id] = entry;
+  for (const term of entry.terms) {
+    let ids = postings.get(term);
+    if (!ids) {
+      postings.set(term, ids = new Set<string>());
+      sortedTerms = null;
+    }
+    ids.add(id);
+  }
+};
+
+const removeEntry = (id: string) => {
+  const entry = entries[id];
+  if (!entry) return;
+  delete entries[id];
+  for (const term of entry.terms) {
+    const ids = postings.get(term);
+    ids?.delete(id);
+    if (ids?.size === 0) {
+      postings.delete(term);
+      sortedTerms = null;
+    }
+  }
+};
+
+// Every message with a term starting with `prefix`
+const matchPrefix = (prefix: string): Set<string> => {
+  if (!sortedTerms) sortedTerms = [...postings.keys()].sort();
+  let low = 0;
+  let high = sortedTerms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sortedTerms[mid] < prefix) low = mid + 1;
+    else high = mid;
+  }
+  const matches = new Set<string>();
+  for (let i = low; i < sortedTerms.length && sortedTerms[i].startsWith(prefix); i++) {
+    postings.get(sortedTerms[i])!.forEach(id => matches.add(id));
+  }
+  return matches;
+};
+
+export const searchService = {
+  /**
+   * Loads the sealed index. The first time, it is built from the stored history.
+   */
+  async load(self: string): Promise<void> {
+    this.wipe();
+    if (await storageService.get<boolean>('settings', 'searchIndexed')) {
+      const stored = await storageService.getEntries<IndexEntry>('searchIndex');
+      stored.forEach(({ id, value }) => addEntry(id, value));
+      return;
+    }
+    for (const { message, text } of await storageService.getAll<StoredMessage>('messages')) {
+      await this.index(conversationOf(message, self), message, text);
+    }
+    await storageService.put('settings', 'searchIndexed', true);
+  },
+
+  /**
+   * Indexes a new or changed message; a deleted one is removed from the index.
+   */
+  async index(chat: string, message: Message, text: string): Promise<void> {
+    const searchable = searchableText(message, text);
+    const terms = searchable ? tokenize(searchable) : [];
+    removeEntry(message.id);
+    if (terms.length === 0) {
+      await storageService.delete('searchIndex', message.id);
+      return;
+    }
+    const entry: IndexEntry = { chat, sender: message.sender, ts: message.timestamp, terms };
+    addEntry(message.id, entry);
+    await storageService.put('searchIndex', message.id, entry);
+  },
+
+  async remove(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      removeEntry(id);
+      await storageService.delete('searchIndex', id);
+    }
+  },
+
+  /**
+   * The newest messages containing every term of `query` (as a prefix) within the filter.
+   */
+  async search(query: string, filter: SearchFilter = {}): Promise<SearchResult[]> {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+    let matches: Set<string> | null = null;
+    for (const term of terms) {
+      const found = matchPrefix(term);
+      matches = matches ? new Set([...matches].filter(id => found.has(id))) : found;
+      if (matches.size === 0) return [];
+    }
+    const ids = [...matches!]
+      .filter(id => {
+        const entry = entries[id];
+        return (!filter.chat || entry.chat === filter.chat) &&
+          (filter.from === undefined || entry.ts >= filter.from) &&
+          (filter.to === undefined || entry.ts <= filter.to);
+      })
+      .sort((a, b) => entries[b].ts - entries[a].ts)
+      .slice(0, MAX_RESULTS);
+
+    const results: SearchResult[] = [];
+    for (const id of ids) {
+      const stored = await storageService.get<StoredMessage>('messages', id);
+      if (!stored) continue;
+      const { chat, sender, ts } = entries[id];
+      results.push({ id, chat, sender, timestamp: ts, text: searchableText(stored.message, stored.text) ?? '' });
+    }
+    return results;
+  },
+
+  wipe(): void {
+    entries = {};
+    postings = new Map();
+    sortedTerms = null;
+  }
+};
@@ -1,72 +1,519 @@
 
-import { Peer, DataConnection } from 'peerjs';
-import { UserProfile, Message } from '../types';
+import { Peer, MediaConnection } from 'peerjs';
+import { UserProfile, Message, MessageStatus, TrustedIdentity, NetworkConfig, ConnectionStatus } from '../types';
+import { cryptoService } from './crypto';
+import { toBase64 } from './encoding';
+import { trustService, TrustStatus } from './trust';
+import { storageService } from './storage';
+import { Frame, KeyResponseFrame, CallSignalFrame, FileRequestFrame, FileChunkFrame, LinkRequestFrame, LinkBundleFrame, createFrame, parseFrame } from './protocol';
+import { networkConfigService } from './network';
+import { presenceService } from './presence';
+import { deviceService, deviceAddress, parseAddress, PRIMARY_DEVICE } from './devices';
+import { profileService, withCard, ProfileCard } from './profiles';
+import { contactService } from './contacts';
 
 /**
  * Real-time P2P Signaling Service using PeerJS.
  * This replaces the local-only simulation with actual network connectivity.
  */
 
-class SignalingService {
-  private peer: Peer | null = null;
-  private connections: Map<string, DataConnection> = new Map();
-  private onMessageCallback: ((msg: Message) => void) | null = null;
-  private onCallCallback: ((type: 'audio' | 'video', from: string) => void) | null = null;
+export interface SignalingHandlers {
+  onMessage: (msg: Message) => void;
+  onCall: (call: MediaConnection, type: 'audio' | 'video', from: string) => void; // `from` is a device address
+  onCallSignal: (from: string, action: CallSignalFrame['action'], type: 'audio' | 'video') => void; // `from` is a device address
+  onPeerUnavailable: (address: string) => void; // The signaling server could not reach this device
+  onIdentity: (identity: TrustedIdentity, status: TrustStatus) => void;
+  onReceipt: (from: string, status: MessageStatus, ids: string[]) => void; // `from` is a device address
+  onPeerReady: (address: string) => void; // Handshake completed on a fresh connection to this device
+  onConnectionState: (status: ConnectionStatus) => void;
+  onTyping: (from: string, state: 'start' | 'stop') => void;
+  onFileFrame: (from: string, frame: FileRequestFrame | FileChunkFrame) => Promise<void>;
+  onDeviceList: (username: string, status: 'updated' | 'revoked') => void;
+  onLinkRequest: (from: string, frame: LinkRequestFrame) => Promise<Omit<LinkBundleFrame, 'v'> | null>;
+  onProfile: (username: string, card: ProfileCard) => void; // A newer signed profile card (ours, from a sibling device)
+}
+
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30 * 1000;
+const HEARTBEAT_INTERVAL = 10 * 1000;
+const HEARTBEAT_TIMEOUT = 30 * 1000; // Silence after which a connection is considered dead
+const MAX_BUFFERED = 256 * 1024; // Bulk senders wait while more than this is queued on a connection
+const LINK_TIMEOUT = 30 * 1000;
+const HANDSHAKE_TIMEOUT = 5 * 1000;
+const AVAILABILITY_TIMEOUT = 10 * 1000;
+
+// PeerJS error types that mean the signaling server is unreachable rather than a fatal problem
+const TRANSIENT_ERRORS = ['network', 'server-error', 'socket-error', 'socket-closed', 'disconnected'];
+
+/**
+ * The parts of a PeerJS DataConnection the service uses.
+ */
+export interface SignalingConnection {
+  readonly peer: string;
+  readonly open: boolean;
+  readonly dataChannel?: RTCDataChannel;
+  on(event: 'open' | 'close', listener: () => void): unknown;
+  on(event: 'data', listener: (data: unknown) => void): unknown;
+  send(data: unknown): void;
+  close(): void;
+}
+
+/**
+ * The parts of a PeerJS Peer the service uses; the in-process broker in localBroker.ts implements them too.
+ */
+export interface SignalingPeer {
+  readonly destroyed: boolean;
+  readonly disconnected: boolean;
+  on(event: 'open', listener: (id: string) => void): unknown;
+  on(event: 'connection', listener: (conn: SignalingConnection) => void): unknown;
+  on(event: 'call', listener: (call: MediaConnection) => void): unknown;
+  on(event: 'disconnected', listener: () => void): unknown;
+  on(event: 'error', listener: (err: { type: string; message: string }) => void): unknown;
+  connect(id: string): SignalingConnection;
+  call(id: string, stream: MediaStream, options: { metadata: unknown }): MediaConnection | null;
+  reconnect(): void;
+  destroy(): void;
+}
+
+const createPeer = (id: string, config: NetworkConfig): SignalingPeer => new Peer(id, {
+  host: config.host,
+  port: config.port,
+  path: config.path,
+  key: config.key,
+  secure: config.secure,
+  config: { iceServers: config.iceServers }
+});
+
+/**
+ * Connections are per device: they are keyed by device address (see devices.ts), while
+ * identities, presence and typing are per username.
+ */
+export class SignalingService {
+  private peer: SignalingPeer | null = null;
+  private connections: Map<string, SignalingConnection> = new Map();
+  private pendingConnections: Map<string, Promise<boolean>> = new Map();
+  // The identity key each connection proved it holds in the handshake, and who is waiting for that proof
+  private provenKeys: WeakMap<SignalingConnection, string> = new WeakMap();
+  private handshakeWaiters: WeakMap<SignalingConnection, ((verified: boolean) => void)[]> = new WeakMap();
+  private username: string | null = null;
+  private deviceId = PRIMARY_DEVICE;
+  private linkWaiter: { address: string; resolve: (frame: LinkBundleFrame | null) => void } | null = null;
+  private handlers: SignalingHandlers | null = null;
+  private status: ConnectionStatus = { state: 'offline', attempt: 0, nextRetryAt: null, error: null };
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
-  // Unique prefix to avoid collisions on the public PeerJS server
-  private ID_PREFIX = 'wline_v2_';
+  // Unique prefix to avoid collisions on a shared PeerJS server
+  private ID_PREFIX = networkConfigService.get().idPrefix;
 
-  init(username: string, onMessage: (msg: Message) => void, onCall: (type: 'audio' | 'video', from: string) => void) {
-    this.onMessageCallback = onMessage;
-    this.onCallCallback = onCall;
+  init(username: string, handlers: SignalingHandlers) {
+    this.username = username.toLowerCase();
+    this.deviceId = deviceService.current().id;
+    this.handlers = handlers;
 
     if (this.peer) return;
 
-    this.peer = new Peer(`${this.ID_PREFIX}${username.toLowerCase()}`);
+    window.addEventListener('online', this.handleBrowserOnline);
+    window.addEventListener('offline', this.handleBrowserOffline);
+    this.openPeer();
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return { ...this.status };
+  }
+
+  private setStatus(changes: Partial<ConnectionStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.handlers?.onConnectionState({ ...this.status });
+  }
+
+  private openPeer() {
+    const config = networkConfigService.get();
+    this.ID_PREFIX = config.idPrefix;
+    const peer = createPeer(`${this.ID_PREFIX}${deviceAddress(this.username!, this.deviceId)}`, config);
+    this.peer = peer;
+    this.setStatus({ state: 'connecting', nextRetryAt: null, error: null });
 
-    this.peer.on('open', (id) => {
+    peer.on('open', (id) => {
       console.log('My peer ID is: ' + id);
+      this.setStatus({ state: 'connected', attempt: 0, nextRetryAt: null, error: null });
+      this.probeContacts();
     });
 
-    this.peer.on('connection', (conn) => {
+    peer.on('connection', (conn) => {
       this.setupConnection(conn);
     });
 
-    this.peer.on('call', (call) => {
-      // In a real app, we'd handle the stream here. For now, we signal the UI.
+    peer.on('call', async (call) => {
       const from = call.peer.replace(this.ID_PREFIX, '');
-      this.onCallCallback?.('video', from);
+      // A media call carries no proof of who placed it: only ring once that device has proved
+      // its identity over a data connection, so no one can ring as a contact whose address they know
+      if (contactService.isBlocked(parseAddress(from).username) || !(await this.connectToUser(from))) {
+        call.close();
+        return;
+      }
+      const type = call.metadata?.callType === 'audio' ? 'audio' : 'video';
+      this.handlers?.onCall(call, type, from);
     });
 
-    this.peer.on('error', (err) => {
+    peer.on('disconnected', () => {
+      // Lost the signaling server; existing data connections may survive, new ones cannot be made
+      if (this.peer === peer && this.status.state !== 'failed') this.scheduleReconnect();
+    });
+
+    peer.on('error', (err) => {
+      if (this.peer !== peer) return;
+      if (err.type === 'unavailable-id') {
+        this.stopPeer();
+        this.setStatus({
+          state: 'failed',
+          nextRetryAt: null,
+          error: `The username @${this.username} is already connected from another browser. To use both, link this one from Settings → Devices there.`
+        });
+        return;
+      }
+      if (err.type === 'peer-unavailable') {
+        // A device is offline: connection attempts time out on their own, but a call would wait forever
+        const id = err.message.match(/Could not connect to peer (.+)$/)?.[1];
+        if (id?.startsWith(this.ID_PREFIX)) this.handlers?.onPeerUnavailable(id.slice(this.ID_PREFIX.length));
+        return;
+      }
       console.error('PeerJS Error:', err);
+      if (TRANSIENT_ERRORS.includes(err.type)) this.scheduleReconnect();
+    });
+  }
+
+  private stopPeer() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.connections.forEach(conn => conn.close());
+    this.connections.clear();
+    this.pendingConnections.clear();
+    const peer = this.peer;
+    this.peer = null;
+    peer?.destroy();
+    presenceService.markAllOffline();
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+    const attempt = this.status.attempt + 1;
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** (attempt - 1), RECONNECT_MAX_DELAY) * (0.8 + Math.random() * 0.4);
+    this.setStatus({ state: navigator.onLine ? 'reconnecting' : 'offline', attempt, nextRetryAt: Date.now() + delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnectNow();
+    }, delay);
+  }
+
+  private reconnectNow() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    if (!this.peer || this.peer.destroyed) {
+      this.stopPeer();
+      this.openPeer();
+      return;
+    }
+    this.setStatus({ state: 'connecting', nextRetryAt: null });
+    if (this.peer.disconnected) this.peer.reconnect();
+  }
+
+  private handleBrowserOnline = () => {
+    if (this.status.state === 'reconnecting' || this.status.state === 'offline') this.reconnectNow();
+  };
+
+  private handleBrowserOffline = () => {
+    if (this.status.state === 'failed') return;
+    presenceService.markAllOffline();
+    this.setStatus({ state: 'offline' });
+  };
+
+  // Connecting runs the signed handshake, which is what marks a contact online
+  private probeContacts() {
+    Object.keys(trustService.all())
+      .flatMap(username => deviceService.addressesOf(username))
+      .concat(deviceService.siblingAddresses())
+      .filter(address => !this.connections.has(address) && !contactService.isBlocked(parseAddress(address).username))
+      .forEach(address => this.connectToUser(address));
+  }
+
+  private openConnectionsOf(username: string): SignalingConnection[] {
+    return Array.from(this.connections.entries())
+      .filter(([address, conn]) => this.isVerified(conn) && parseAddress(address).username === username)
+      .map(([, conn]) => conn);
+  }
+
+  /**
+   * Whether an open connection proved it holds the identity key we trust for its user: our own for a
+   * sibling device, the pinned one for anyone else (a key change awaiting approval does not count).
+   */
+  private isVerified(conn: SignalingConnection): boolean {
+    const proven = this.provenKeys.get(conn);
+    if (!conn.open || !proven) return false;
+    const username = parseAddress(conn.peer.replace(this.ID_PREFIX, '')).username;
+    return proven === (username === this.username ? cryptoService.getIdentityPublicKey() : this.getPeerKey(username));
+  }
+
+  private awaitHandshake(conn: SignalingConnection): Promise<boolean> {
+    if (this.isVerified(conn)) return Promise.resolve(true);
+    return new Promise((resolve) => {
+      this.handshakeWaiters.set(conn, [...(this.handshakeWaiters.get(conn) || []), resolve]);
+      setTimeout(() => resolve(this.isVerified(conn)), HANDSHAKE_TIMEOUT);
     });
   }
 
-  private setupConnection(conn: DataConnection) {
-    const remoteUsername = conn.peer.replace(this.ID_PREFIX, '');
-    this.connections.set(remoteUsername, conn);
+  private settleHandshake(conn: SignalingConnection) {
+    const verified = this.isVerified(conn);
+    this.handshakeWaiters.get(conn)?.forEach(resolve => resolve(verified));
+    this.handshakeWaiters.delete(conn);
+  }
+
+  // A user stays online while any of their devices is connected
+  private markOfflineIfGone(username: string) {
+    if (this.openConnectionsOf(username).length === 0) presenceService.markOffline(username);
+  }
+
+  private setupConnection(conn: SignalingConnection) {
+    const remoteAddress = conn.peer.replace(this.ID_PREFIX, '');
+    const remoteUsername = parseAddress(remoteAddress).username;
+    // Blocked users never get as far as a handshake
+    if (contactService.isBlocked(remoteUsername)) {
+      conn.close();
+      return;
+    }
+    this.connections.set(remoteAddress, conn);
+
+    // Challenge the peer to sign its identity keys, proving it holds them
+    const challenge = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    const greet = () => this.send(conn, { type: 'key-exchange', phase: 'challenge', nonce: challenge });
+    if (conn.open) greet();
+    else conn.on('open', greet);
+
+    // Heartbeats: a connection that stays silent for too long is dead even if it never closed
+    let lastHeard = Date.now();
+    const heartbeat = setInterval(() => {
+      if (Date.now() - lastHeard > HEARTBEAT_TIMEOUT) {
+        console.warn(`Connection to ${remoteAddress} timed out`);
+        conn.close();
+        return;
+      }
+      if (this.isVerified(conn)) this.send(conn, { type: 'heartbeat', phase: 'ping', sentAt: Date.now() });
+    }, HEARTBEAT_INTERVAL);
 
-    conn.on('data', (data: any) => {
-      if (this.onMessageCallback) {
-        this.onMessageCallback(data as Message);
+    // Frames are handled strictly in order: a message must not overtake the identity before it
+    let queue = Promise.resolve();
+    conn.on('data', (data: unknown) => {
+      if (contactService.isBlocked(remoteUsername)) return; // Blocked while connected; closing is under way
+      lastHeard = Date.now();
+      const parsed = parseFrame(data);
+      if (parsed.ok === false) {
+        console.warn(`Rejected frame from ${remoteAddress}: ${parsed.reason}`);
+        return;
       }
+      queue = queue
+        .then(() => this.handleFrame(conn, remoteAddress, parsed.frame, challenge))
+        .catch(err => console.error('Failed to handle frame from ' + remoteAddress, err));
     });
 
     conn.on('close', () => {
-      this.connections.delete(remoteUsername);
+      clearInterval(heartbeat);
+      this.settleHandshake(conn);
+      if (this.connections.get(remoteAddress) !== conn) return;
+      this.connections.delete(remoteAddress);
+      this.markOfflineIfGone(remoteUsername);
     });
   }
 
+  private send(conn: SignalingConnection, body: Parameters<typeof createFrame>[0]) {
+    conn.send(createFrame(body));
+  }
+
+  private async handleFrame(conn: SignalingConnection, remoteAddress: string, frame: Frame, challenge: string) {
+    const { username: remoteUsername, deviceId: remoteDevice } = parseAddress(remoteAddress);
+    // Until the peer proves its identity, anyone could be holding its peer id. Link frames are
+    // the exception: the new device has no identity yet and proves it knows the pairing code instead.
+    if (frame.type !== 'key-exchange' && frame.type !== 'link' && !this.isVerified(conn)) {
+      console.warn(`Rejected frame from ${remoteAddress}: ${frame.type} before the identity handshake`);
+      return;
+    }
+    switch (frame.type) {
+      case 'key-exchange':
+        if (frame.phase === 'challenge') await this.sendIdentity(conn, frame.nonce);
+        else await this.handleIdentity(conn, remoteAddress, frame, challenge);
+        break;
+      case 'chat': {
+        const { message } = frame;
+        // The connection authenticates the sender; the payload's own claims are not trusted
+        if (message.sender !== remoteUsername) {
+          console.warn(`Rejected frame from ${remoteAddress}: spoofed sender @${message.sender}`);
+          return;
+        }
+        if (message.recipient !== this.username) {
+          console.warn(`Rejected frame from ${remoteAddress}: addressed to @${message.recipient}`);
+          return;
+        }
+        if ((message.recipientDevice ?? PRIMARY_DEVICE) !== this.deviceId) {
+          console.warn(`Rejected frame from ${remoteAddress}: addressed to device ${message.recipientDevice}`);
+          return;
+        }
+        if (message.syncFor && remoteUsername !== this.username) {
+          console.warn(`Rejected frame from ${remoteAddress}: sync copy from another account`);
+          return;
+        }
+        this.handlers?.onMessage({
+          id: message.id,
+          sender: message.sender,
+          recipient: message.recipient,
+          content: message.content,
+          timestamp: message.timestamp,
+          status: 'sent',
+          type: message.type,
+          ...(message.expiresIn ? { isEphemeral: true, expiresIn: message.expiresIn } : {}),
+          ...(message.groupId ? { groupId: message.groupId } : {}),
+          ...(message.syncFor ? { syncFor: message.syncFor } : {}),
+          ...(message.replyTo ? { replyTo: message.replyTo } : {}),
+          senderDevice: remoteDevice
+        });
+        break;
+      }
+      case 'ack':
+        this.handlers?.onReceipt(remoteAddress, frame.status, frame.ids);
+        break;
+      case 'call-signal':
+        this.handlers?.onCallSignal(remoteAddress, frame.action, frame.callType);
+        break;
+      case 'typing':
+        this.handlers?.onTyping(remoteUsername, frame.state);
+        break;
+      case 'file-request':
+        // Serving can take a while; it must not hold up other frames from this peer
+        this.handlers?.onFileFrame(remoteAddress, frame)
+          .catch(err => console.error('Failed to serve file to ' + remoteAddress, err));
+        break;
+      case 'file-chunk':
+        await this.handlers?.onFileFrame(remoteAddress, frame);
+        break;
+      case 'devices': {
+        if (frame.list.username !== remoteUsername) {
+          console.warn(`Rejected frame from ${remoteAddress}: device list for @${frame.list.username}`);
+          return;
+        }
+        const status = await deviceService.observe(frame.list);
+        if (status) this.handlers?.onDeviceList(remoteUsername, status);
+        break;
+      }
+      case 'profile': {
+        const card = await profileService.observe(remoteUsername, frame, this.username!);
+        if (card) this.handlers?.onProfile(remoteUsername, card);
+        break;
+      }
+      case 'link':
+        if (frame.phase === 'request') {
+          const bundle = await this.handlers?.onLinkRequest(remoteAddress, frame);
+          if (!bundle) return;
+          this.send(conn, bundle);
+          this.broadcastDevices();
+        } else if (this.linkWaiter?.address === remoteAddress) {
+          this.linkWaiter.resolve(frame);
+        }
+        break;
+      case 'heartbeat':
+        if (frame.phase === 'ping') this.send(conn, { type: 'heartbeat', phase: 'pong', sentAt: frame.sentAt });
+        break;
+    }
+  }
+
+  private identityStatement(username: string, publicKey: string, signingKey: string, nonce: string) {
+    return `whisperline-identity|${username}|${publicKey}|${signingKey}|${nonce}`;
+  }
+
+  private async sendIdentity(conn: SignalingConnection, nonce: string) {
+    const publicKey = cryptoService.getIdentityPublicKey();
+    const signingKey = cryptoService.getSigningPublicKey();
+    if (!this.username || !publicKey || !signingKey) return;
+    const signature = await cryptoService.sign(this.identityStatement(this.username, publicKey, signingKey, nonce));
+    this.send(conn, { type: 'key-exchange', phase: 'response', username: this.username, publicKey, signingKey, signature });
+  }
+
+  private async handleIdentity(conn: SignalingConnection, remoteAddress: string, frame: KeyResponseFrame, challenge: string) {
+    const { username, publicKey, signingKey, signature } = frame;
+    if (username !== parseAddress(remoteAddress).username) {
+      console.warn(`Rejected frame from ${remoteAddress}: identity claims to be @${username}`);
+      return;
+    }
+    const statement = this.identityStatement(username, publicKey, signingKey, challenge);
+    if (!(await cryptoService.verify(signingKey, statement, signature))) {
+      console.warn(`Rejected frame from ${remoteAddress}: invalid identity signature`);
+      return;
+    }
+    if (username === this.username && (publicKey !== cryptoService.getIdentityPublicKey() || signingKey !== cryptoService.getSigningPublicKey())) {
+      // A sibling device shares our identity; anything else is someone else using our name
+      console.warn(`Rejected frame from ${remoteAddress}: device presents different identity keys`);
+      return;
+    }
+    if (!deviceService.isListed(remoteAddress)) {
+      // Revoked devices keep the keys, so only the account's current list decides who may speak for it
+      console.warn(`Rejected frame from ${remoteAddress}: device is not on @${username}'s device list`);
+      return;
+    }
+    this.provenKeys.set(conn, publicKey);
+    const status = username === this.username ? null : trustService.observe(username, publicKey, signingKey);
+    this.settleHandshake(conn);
+
+    // Our list goes to every verified peer, so contacts and sibling devices know where to deliver
+    if (this.isVerified(conn)) {
+      const devices = deviceService.ownList();
+      if (devices) this.send(conn, { type: 'devices', list: devices });
+      const profile = profileService.ownFrame();
+      if (profile) this.send(conn, profile);
+    }
+
+    if (!status) {
+      this.handlers?.onPeerReady(remoteAddress);
+      return;
+    }
+    presenceService.markOnline(username);
+    this.handlers?.onIdentity(trustService.get(username)!, status);
+    if (status !== 'changed') this.handlers?.onPeerReady(remoteAddress);
+  }
+
+  /**
+   * Acknowledges messages from a device as delivered or read. Best effort: receipts are not retried.
+   */
+  sendReceipt(address: string, status: 'delivered' | 'read', ids: string[]) {
+    const conn = this.connections.get(address);
+    if (!conn || !this.isVerified(conn) || ids.length === 0) return;
+    this.send(conn, { type: 'ack', status, ids });
+  }
+
+  /**
+   * The pinned identity key for a contact, or null if unknown or awaiting approval of a key change.
+   */
+  getPeerKey(username: string): string | null {
+    const pinned = trustService.get(username);
+    if (!pinned || pinned.pendingPublicKey) return null;
+    return pinned.publicKey;
+  }
+
+  /**
+   * Returns the pinned key for a user, connecting and waiting for their signed handshake if needed.
+   */
+  async requestPeerKey(username: string): Promise<string | null> {
+    const pinned = trustService.get(username);
+    if (pinned) return this.getPeerKey(username);
+    // Connecting completes the handshake, which pins their key on first contact
+    return (await this.connectToUser(username)) ? this.getPeerKey(username) : null;
+  }
+
   async searchUsers(query: string): Promise<UserProfile[]> {
     // In P2P, we "discover" by attempting to connect or via a simplified result
     if (query.length < 3) return [];
     
     // Simulate finding a user. In reality, PeerJS doesn't have a public "search" list for privacy.
     // We treat the query as a direct ID.
+    const username = query.toLowerCase().trim();
     return [{
-      username: query.toLowerCase().trim(),
-      publicKey: `pub_${query}`,
+      username,
+      publicKey: trustService.get(username)?.publicKey ?? '',
       displayName: query,
       avatarSeed: query,
       createdAt: Date.now(),
@@ -74,54 +521,216 @@ class SignalingService {
     }];
   }
 
-  async connectToUser(username: string): Promise<boolean> {
-    if (!this.peer) return false;
-    const targetId = `${this.ID_PREFIX}${username.toLowerCase()}`;
+  /**
+   * Connects to one device (a bare username is that user's primary device) and waits until it
+   * has proved its identity. Resolves false if it cannot be reached or does not hold the trusted key.
+   */
+  async connectToUser(address: string): Promise<boolean> {
+    address = address.toLowerCase();
+    if (!(await this.openConnection(address))) return false;
+    const conn = this.connections.get(address);
+    return !!conn && this.awaitHandshake(conn);
+  }
+
+  // Opens a data connection without waiting for the handshake
+  private async openConnection(address: string): Promise<boolean> {
+    if (!this.peer || this.peer.disconnected) return false;
+    address = address.toLowerCase();
+    if (contactService.isBlocked(parseAddress(address).username)) return false;
+    const targetId = `${this.ID_PREFIX}${address}`;
     
-    if (this.connections.has(username)) return true;
+    if (this.connections.has(address)) return true;
+    // Retries (e.g. from the outbox) share one in-flight attempt instead of piling up connections
+    const pending = this.pendingConnections.get(address);
+    if (pending) return pending;
 
     const conn = this.peer.connect(targetId);
-    return new Promise((resolve) => {
+    const attempt = new Promise<boolean>((resolve) => {
+      const timeout = setTimeout(() => {
+        conn.close();
+        this.markOfflineIfGone(parseAddress(address).username);
+        resolve(false);
+      }, 5000); // Timeout after 5s
       conn.on('open', () => {
+        clearTimeout(timeout);
         this.setupConnection(conn);
         resolve(true);
       });
-      setTimeout(() => resolve(false), 5000); // Timeout after 5s
+    }).finally(() => this.pendingConnections.delete(address));
+    this.pendingConnections.set(address, attempt);
+    return attempt;
+  }
+
+  /**
+   * Sends a message to the recipient device it is addressed to, connecting first if needed.
+   * Resolves false when the device is unreachable; retrying is up to the caller.
+   */
+  async sendMessage(msg: Message): Promise<boolean> {
+    const address = deviceAddress(msg.recipient, msg.recipientDevice);
+    if (!(await this.connectToUser(address))) return false;
+    const conn = this.connections.get(address);
+    if (!conn || !this.isVerified(conn)) return false;
+    this.send(conn, { type: 'chat', message: msg });
+    return true;
+  }
+
+  /**
+   * Typing signals are fire-and-forget: only sent over already open connections, to each of the user's devices.
+   */
+  sendTyping(username: string, state: 'start' | 'stop') {
+    this.openConnectionsOf(username).forEach(conn => this.send(conn, { type: 'typing', state }));
+  }
+
+  /**
+   * Announces our current device list to everyone we are connected to (e.g. after linking or revoking).
+   */
+  broadcastDevices() {
+    const list = deviceService.ownList();
+    if (!list) return;
+    this.connections.forEach(conn => {
+      if (this.isVerified(conn)) this.send(conn, { type: 'devices', list });
     });
   }
 
-  async sendMessage(msg: Message): Promise<void> {
-    let conn = this.connections.get(msg.recipient);
-    
-    if (!conn) {
-      const connected = await this.connectToUser(msg.recipient);
-      if (connected) {
-        conn = this.connections.get(msg.recipient);
-      }
-    }
+  /**
+   * Closes every connection to a user's devices, e.g. right after blocking them.
+   */
+  disconnectUser(username: string) {
+    Array.from(this.connections.entries())
+      .filter(([address]) => parseAddress(address).username === username)
+      .forEach(([, conn]) => conn.close());
+  }
 
-    if (conn && conn.open) {
-      conn.send(msg);
-    } else {
-      console.error('Could not send message: Connection not open');
+  /**
+   * Sends our freshly signed profile card to everyone we are connected to; others get it on their next handshake.
+   */
+  broadcastProfile() {
+    const profile = profileService.ownFrame();
+    if (!profile) return;
+    this.connections.forEach(conn => {
+      if (this.isVerified(conn)) this.send(conn, profile);
+    });
+  }
+
+  /**
+   * New-device side of linking: asks the device that showed the pairing code for the account.
+   * Resolves null if it does not answer in time.
+   */
+  async requestLink(address: string, request: Omit<LinkRequestFrame, 'v'>): Promise<LinkBundleFrame | null> {
+    // This device has no identity yet to complete a handshake with; the pairing code protects the exchange
+    if (!(await this.openConnection(address))) return null;
+    const conn = this.connections.get(address);
+    if (!conn?.open) return null;
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => finish(null), LINK_TIMEOUT);
+      const finish = (frame: LinkBundleFrame | null) => {
+        clearTimeout(timeout);
+        this.linkWaiter = null;
+        resolve(frame);
+      };
+      this.linkWaiter = { address, resolve: finish };
+      this.send(conn, request);
+    });
+  }
+
+  /**
+   * Sends a file-transfer frame over an open connection; false if the peer is not connected.
+   */
+  sendFileFrame(username: string, body: Omit<FileRequestFrame, 'v'> | Omit<FileChunkFrame, 'v'>): boolean {
+    const conn = this.connections.get(username);
+    if (!conn || !this.isVerified(conn)) return false;
+    this.send(conn, body);
+    return true;
+  }
+
+  /**
+   * Resolves once the connection's send buffers have drained enough to queue more bulk data.
+   */
+  async drain(username: string): Promise<void> {
+    const conn = this.connections.get(username);
+    const buffered = () => (conn?.dataChannel?.bufferedAmount ?? 0) + ((conn as { bufferSize?: number } | undefined)?.bufferSize ?? 0);
+    while (conn?.open && buffered() > MAX_BUFFERED) {
+      await new Promise(resolve => setTimeout(resolve, 50));
     }
   }
 
+  /**
+   * Closes every connection and leaves the network until the next init.
+   */
+  stop() {
+    window.removeEventListener('online', this.handleBrowserOnline);
+    window.removeEventListener('offline', this.handleBrowserOffline);
+    this.stopPeer();
+    this.linkWaiter?.resolve(null);
+    this.linkWaiter = null;
+    this.handlers = null;
+    this.username = null;
+    this.status = { state: 'offline', attempt: 0, nextRetryAt: null, error: null };
+  }
+
+  /**
+   * Drops the current peer and every connection, then rejoins with the latest network configuration.
+   */
+  restart() {
+    if (!this.username || !this.handlers) return;
+    this.stopPeer();
+    this.setStatus({ attempt: 0 });
+    this.openPeer();
+  }
+
+  /**
+   * Dials one device with the given local media. The call type travels in the call metadata.
+   */
+  placeCall(address: string, stream: MediaStream, type: 'audio' | 'video'): MediaConnection | null {
+    if (!this.peer) return null;
+    return this.peer.call(`${this.ID_PREFIX}${address.toLowerCase()}`, stream, { metadata: { callType: type } });
+  }
+
+  /**
+   * Tells a device about a call decision (ring, accept, reject, hang-up) over the data channel.
+   */
+  async sendCallSignal(address: string, action: CallSignalFrame['action'], type: 'audio' | 'video'): Promise<boolean> {
+    if (!(await this.connectToUser(address))) return false;
+    const conn = this.connections.get(address.toLowerCase());
+    if (!conn || !this.isVerified(conn)) return false;
+    this.send(conn, { type: 'call-signal', action, callType: type });
+    return true;
+  }
+
+  /**
+   * Probes whether a username is free by briefly claiming its peer id on the signaling server.
+   * Only someone connected right now holds an id, so an offline user's name looks free.
+   */
+  checkAvailability(username: string): Promise<'available' | 'taken' | 'unknown'> {
+    const config = networkConfigService.get();
+    return new Promise(resolve => {
+      const probe = createPeer(`${config.idPrefix}${username.toLowerCase()}`, config);
+      const finish = (result: 'available' | 'taken' | 'unknown') => {
+        clearTimeout(timeout);
+        probe.destroy();
+        resolve(result);
+      };
+      const timeout = setTimeout(() => finish('unknown'), AVAILABILITY_TIMEOUT);
+      probe.on('open', () => finish('available'));
+      probe.on('error', (err) => finish(err.type === 'unavailable-id' ? 'taken' : 'unknown'));
+    });
+  }
+
   async registerUser(profile: UserProfile): Promise<boolean> {
-    // In PeerJS mode, "registration" is just saving locally
-    localStorage.setItem('whisperline_current_user', JSON.stringify(profile));
+    // In PeerJS mode, "registration" is just saving to the local vault
+    await storageService.put('settings', 'profile', profile);
     return true;
   }
 
   async findOrCreateUser(username: string): Promise<UserProfile> {
-    return {
-      username: username.toLowerCase(),
-      publicKey: `pub_${username}`,
+    username = username.toLowerCase();
+    return withCard({
+      username,
+      publicKey: trustService.get(username)?.publicKey ?? '',
       displayName: username,
       avatarSeed: username,
-      createdAt: Date.now(),
-      bio: "Found via P2P Link"
-    };
+      createdAt: Date.now()
+    }, profileService.get(username));
   }
 }
 
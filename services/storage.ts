@@ -0,0 +1,393 @@
+import { Message } from '../types';
+import { toBase64, fromBase64 } from './encoding';
+
+/**
+ * WhisperLine Local Vault
+ * IndexedDB persistence where every record is sealed with AES-GCM under a key derived
+ * from the user's passphrase (PBKDF2). Only the vault parameters, record ids, message
+ * timestamps and blinded (HMAC) conversation ids are stored in the clear. The vault secret
+ * can additionally be wrapped under a key from a platform authenticator (WebAuthn PRF).
+ *
+ * A vault created without a passphrase wraps its secret under a non-extractable AES key kept
+ * in IndexedDB instead. Script can use that key but never read it out, so the secret cannot
+ * be copied off the device as text; anyone who can run code in this browser profile can
+ * still unlock the vault, so it is not protected at rest.
+ */
+
+const DB_NAME = 'whisperline';
+const DB_VERSION = 10;
+const PBKDF2_ITERATIONS = 600000;
+
+export type StoreName = 'settings' | 'contacts' | 'sessions' | 'messages' | 'conversations' | 'outbox' | 'expiry' | 'transfers' | 'attachments' | 'groups' | 'senderKeys' | 'devices' | 'profiles' | 'addressBook' | 'searchIndex';
+
+const STORES: StoreName[] = ['settings', 'contacts', 'sessions', 'messages', 'conversations', 'outbox', 'expiry', 'transfers', 'attachments', 'groups', 'senderKeys', 'devices', 'profiles', 'addressBook', 'searchIndex'];
+
+interface VaultParams {
+  salt: string;
+  iterations: number;
+  iv: string;
+  wrappedSecret: string;
+}
+
+interface DeviceKeyParams {
+  key: CryptoKey; // Non-extractable; IndexedDB keeps it as a key object, not as bytes
+  iv: string;
+  wrappedSecret: string;
+}
+
+export interface AuthenticatorParams {
+  credentialId: string;
+  prfSalt: string; // Input to the authenticator's PRF; its output wraps the vault secret
+  iv: string;
+  wrappedSecret: string;
+}
+
+interface SealedRecord {
+  id: string;
+  iv: string;
+  data: string;
+  conv?: string; // Blinded conversation id (messages only)
+  ts?: number; // Message timestamp (messages only)
+}
+
+export interface StoredMessage {
+  message: Message;
+  text: string; // Decrypted content
+  edits?: { text: string; at: number }[]; // Earlier versions of an edited message, oldest first
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultError';
+  }
+}
+
+let db: IDBDatabase | null = null;
+let dataKey: CryptoKey | null = null;
+let indexKey: CryptoKey | null = null;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (db) return Promise.resolve(db);
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const upgrade = req.result;
+      if (!upgrade.objectStoreNames.contains('meta')) upgrade.createObjectStore('meta');
+      for (const name of STORES) {
+        if (upgrade.objectStoreNames.contains(name)) continue;
+        const store = upgrade.createObjectStore(name, { keyPath: 'id' });
+        if (name === 'messages') store.createIndex('conversation', ['conv', 'ts']);
+      }
+    };
+    req.onsuccess = () => {
+      db = req.result;
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+  });
+};
+
+const tx = async (store: StoreName | 'meta', mode: IDBTransactionMode = 'readonly') =>
+  (await openDb()).transaction(store, mode).objectStore(store);
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const deriveAuthenticatorKey = async (prfOutput: BufferSource) => {
+  const material = await crypto.subtle.importKey('raw', prfOutput, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: new TextEncoder().encode('WhisperLine authenticator unlock') },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const wrapUnderPassphrase = async (passphrase: string, secret: Uint8Array): Promise<VaultParams> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    iv: toBase64(iv),
+    wrappedSecret: toBase64(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, secret))
+  };
+};
+
+const wrapUnderDeviceKey = async (secret: Uint8Array): Promise<DeviceKeyParams> => {
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { key, iv: toBase64(iv), wrappedSecret: toBase64(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, secret)) };
+};
+
+// With no passphrase, the secret is unwrapped with the device key
+const unwrapSecret = async (passphrase: string | null): Promise<Uint8Array> => {
+  if (passphrase === null) {
+    const params: DeviceKeyParams | undefined = await request((await tx('meta')).get('device'));
+    if (!params) throw new VaultError('This vault is protected by a passphrase');
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(params.iv) }, params.key, fromBase64(params.wrappedSecret)));
+  }
+  const params: VaultParams | undefined = await request((await tx('meta')).get('vault'));
+  if (!params) throw new VaultError('No vault on this device');
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(params.salt), params.iterations);
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(params.iv) }, wrappingKey, fromBase64(params.wrappedSecret)));
+  } catch {
+    throw new VaultError('Incorrect passphrase');
+  }
+};
+
+// The vault secret never leaves memory unwrapped; the data and index keys are derived from it
+const activateSecret = async (secret: Uint8Array) => {
+  const base = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  const derive = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) =>
+    crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: new TextEncoder().encode(info) },
+      base, algorithm, false, usages
+    );
+  dataKey = await derive('WhisperLine vault data', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']);
+  indexKey = await derive('WhisperLine vault index', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign']);
+};
+
+const requireKey = () => {
+  if (!dataKey) throw new VaultError('Vault is locked');
+  return dataKey;
+};
+
+const seal = async (store: StoreName, id: string, value: unknown): Promise<SealedRecord> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(`${store}/${id}`) },
+    requireKey(),
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { id, iv: toBase64(iv), data: toBase64(data) };
+};
+
+const open = async <T>(store: StoreName, record: SealedRecord): Promise<T> => {
+  const data = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(record.iv), additionalData: new TextEncoder().encode(`${store}/${record.id}`) },
+    requireKey(),
+    fromBase64(record.data)
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+};
+
+const blindConversation = async (peer: string) => {
+  if (!indexKey) throw new VaultError('Vault is locked');
+  return toBase64(await crypto.subtle.sign('HMAC', indexKey, new TextEncoder().encode(peer)));
+};
+
+export const storageService = {
+  async hasVault(): Promise<boolean> {
+    return !!(await request((await tx('meta')).get('vault'))) || await this.usesDeviceKey();
+  },
+
+  /**
+   * Whether the vault was created without a passphrase and opens with the device key alone.
+   */
+  async usesDeviceKey(): Promise<boolean> {
+    return !!(await request((await tx('meta')).get('device')));
+  },
+
+  isUnlocked(): boolean {
+    return !!dataKey;
+  },
+
+  /**
+   * Creates a new, empty vault protected by the passphrase (or, with null, by a device key) and unlocks it.
+   */
+  async createVault(passphrase: string | null): Promise<void> {
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+    // Wrapped before the transaction opens, which would otherwise commit during the crypto await
+    const params = passphrase === null ? await wrapUnderDeviceKey(secret) : await wrapUnderPassphrase(passphrase, secret);
+    await request((await tx('meta', 'readwrite')).put(params, passphrase === null ? 'device' : 'vault'));
+    await activateSecret(secret);
+  },
+
+  /**
+   * Unlocks the vault; null unlocks a vault without a passphrase. Throws VaultError if the passphrase is wrong.
+   */
+  async unlock(passphrase: string | null): Promise<void> {
+    await activateSecret(await unwrapSecret(passphrase));
+  },
+
+  /**
+   * Re-wraps the vault secret under a new passphrase. Throws VaultError if `current` is wrong.
+   * A vault without a passphrase (`current` null) gives up its device key.
+   */
+  async changePassphrase(current: string | null, next: string): Promise<void> {
+    const params = await wrapUnderPassphrase(next, await unwrapSecret(current));
+    await request((await tx('meta', 'readwrite')).put(params, 'vault'));
+    if (current === null) await request((await tx('meta', 'readwrite')).delete('device'));
+  },
+
+  /**
+   * Moves a vault from a passphrase to a device key. Only for vaults whose "passphrase" was a
+   * random one kept in localStorage, from before device keys.
+   */
+  async moveToDeviceKey(current: string): Promise<void> {
+    const params = await wrapUnderDeviceKey(await unwrapSecret(current));
+    await request((await tx('meta', 'readwrite')).put(params, 'device'));
+    await request((await tx('meta', 'readwrite')).delete('vault'));
+  },
+
+  async getAuthenticator(): Promise<AuthenticatorParams | null> {
+    return (await request((await tx('meta')).get('authenticator'))) ?? null;
+  },
+
+  /**
+   * Also wraps the vault secret under an authenticator's PRF output, so it can unlock the
+   * vault without the passphrase. The passphrase is needed to get at the secret.
+   */
+  async addAuthenticator(passphrase: string, credentialId: string, prfSalt: string, prfOutput: BufferSource): Promise<void> {
+    const secret = await unwrapSecret(passphrase);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await deriveAuthenticatorKey(prfOutput), secret);
+    const params: AuthenticatorParams = { credentialId, prfSalt, iv: toBase64(iv), wrappedSecret: toBase64(wrapped) };
+    await request((await tx('meta', 'readwrite')).put(params, 'authenticator'));
+  },
+
+  async removeAuthenticator(): Promise<void> {
+    await request((await tx('meta', 'readwrite')).delete('authenticator'));
+  },
+
+  /**
+   * Unlocks the vault with the PRF output of the enrolled authenticator.
+   */
+  async unlockWithAuthenticator(prfOutput: BufferSource): Promise<void> {
+    const params = await this.getAuthenticator();
+    if (!params) throw new VaultError('No authenticator is set up on this device');
+    let secret: ArrayBuffer;
+    try {
+      secret = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(params.iv) }, await deriveAuthenticatorKey(prfOutput), fromBase64(params.wrappedSecret));
+    } catch {
+      throw new VaultError('This authenticator cannot unlock the vault');
+    }
+    await activateSecret(new Uint8Array(secret));
+  },
+
+  /**
+   * Drops the in-memory vault keys. Records stay on disk, sealed.
+   */
+  lock(): void {
+    dataKey = null;
+    indexKey = null;
+  },
+
+  async put(store: StoreName, id: string, value: unknown): Promise<void> {
+    // Sealed first: a transaction left idle across the crypto await would already have committed
+    const record = await seal(store, id, value);
+    await request((await tx(store, 'readwrite')).put(record));
+  },
+
+  async get<T>(store: StoreName, id: string): Promise<T | null> {
+    const record: SealedRecord | undefined = await request((await tx(store)).get(id));
+    return record ? open<T>(store, record) : null;
+  },
+
+  async getAll<T>(store: StoreName): Promise<T[]> {
+    const records: SealedRecord[] = await request((await tx(store)).getAll());
+    return Promise.all(records.map(record => open<T>(store, record)));
+  },
+
+  /**
+   * Every record in a store together with its id.
+   */
+  async getEntries<T>(store: StoreName): Promise<{ id: string; value: T }[]> {
+    const records: SealedRecord[] = await request((await tx(store)).getAll());
+    return Promise.all(records.map(async record => ({ id: record.id, value: await open<T>(store, record) })));
+  },
+
+  async delete(store: StoreName, id: string): Promise<void> {
+    await request((await tx(store, 'readwrite')).delete(id));
+  },
+
+  /**
+   * Inserts or updates a message together with its decrypted text (and edit history, if any).
+   */
+  async saveMessage(peer: string, message: Message, text: string, edits?: StoredMessage['edits']): Promise<void> {
+    const record = await seal('messages', message.id, { message, text, ...(edits?.length ? { edits } : {}) } as StoredMessage);
+    record.conv = await blindConversation(peer);
+    record.ts = message.timestamp;
+    await request((await tx('messages', 'readwrite')).put(record));
+  },
+
+  /**
+   * Loads one page of a conversation, newest first from `before` back to `since`, returned
+   * oldest first. Without a limit, the whole range is loaded.
+   */
+  async getMessages(peer: string, options: { before?: number; since?: number; limit?: number }): Promise<StoredMessage[]> {
+    const conv = await blindConversation(peer);
+    const range = IDBKeyRange.bound([conv, options.since ?? -Infinity], [conv, options.before ?? Infinity], false, options.before !== undefined);
+    const index = (await tx('messages')).index('conversation');
+    const records: SealedRecord[] = [];
+
+    await new Promise<void>((resolve, reject) => {
+      const cursorReq = index.openCursor(range, 'prev');
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor || (options.limit !== undefined && records.length >= options.limit)) return resolve();
+        records.push(cursor.value);
+        cursor.continue();
+      };
+      cursorReq.onerror = () => reject(cursorReq.error);
+    });
+
+    const page = await Promise.all(records.map(record => open<StoredMessage>('messages', record)));
+    return page.reverse();
+  },
+
+  /**
+   * Deletes every stored message of a conversation and returns their ids.
+   */
+  async deleteMessages(peer: string): Promise<string[]> {
+    const conv = await blindConversation(peer);
+    const index = (await tx('messages', 'readwrite')).index('conversation');
+    const ids: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const cursorReq = index.openCursor(IDBKeyRange.bound([conv, -Infinity], [conv, Infinity]));
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return resolve();
+        ids.push(cursor.primaryKey as string);
+        cursor.delete();
+        cursor.continue();
+      };
+      cursorReq.onerror = () => reject(cursorReq.error);
+    });
+    return ids;
+  },
+
+  /**
+   * Closes and deletes the whole database and forgets the vault keys.
+   */
+  async destroy(): Promise<void> {
+    this.lock();
+    db?.close();
+    db = null;
+    await new Promise<void>((resolve, reject) => {
+      const req = indexedDB.deleteDatabase(DB_NAME);
+      req.onsuccess = () => resolve();
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => resolve();
+    });
+  }
+};
@@ -0,0 +1,76 @@
+import { parseJsonObject } from './encoding';
+
+/**
+ * WhisperLine System Events
+ * Conversation-level changes (such as the disappearing-messages timer) travel as
+ * encrypted messages of type 'system' whose plaintext is one of these events, so both
+ * peers see and apply the same change.
+ */
+
+export type SystemEvent =
+  | { event: 'disappearing'; duration: number | null }
+  | { event: 'group'; notice: string } // Local record of a membership change, never sent
+  | { event: 'resync' }; // Sent after restoring a backup so contacts follow our new sessions; never shown
+
+export const DISAPPEARING_OPTIONS: number[] = [
+  30 * 1000,
+  5 * 60 * 1000,
+  60 * 60 * 1000,
+  24 * 60 * 60 * 1000,
+  7 * 24 * 60 * 60 * 1000
+];
+
+const UNITS: [number, string][] = [
+  [7 * 24 * 60 * 60 * 1000, 'week'],
+  [24 * 60 * 60 * 1000, 'day'],
+  [60 * 60 * 1000, 'hour'],
+  [60 * 1000, 'minute'],
+  [1000, 'second']
+];
+
+/**
+ * A timer setting in words, e.g. "5 minutes".
+ */
+export const formatTimer = (ms: number) => {
+  const [size, unit] = UNITS.find(([size]) => ms >= size) ?? UNITS[UNITS.length - 1];
+  const count = Math.round(ms / size);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+};
+
+/**
+ * A countdown in its largest unit, e.g. "4m" or "23h".
+ */
+export const formatCountdown = (ms: number) => {
+  const [size, unit] = UNITS.find(([size]) => ms >= size) ?? UNITS[UNITS.length - 1];
+  return `${Math.max(0, Math.ceil(ms / size))}${unit === 'week' ? 'w' : unit[0]}`;
+};
+
+export const encodeSystemEvent = (event: SystemEvent) => JSON.stringify(event);
+
+/**
+ * Parses a decrypted system message; null if it is not a known, well-formed event.
+ */
+export const parseSystemEvent = (text: string): SystemEvent | null => {
+  const data = parseJsonObject(text);
+  const duration = data?.duration;
+  if (data?.event === 'disappearing' && duration === null) return { event: 'disappearing', duration: null };
+  if (data?.event === 'disappearing' && typeof duration === 'number' && DISAPPEARING_OPTIONS.includes(duration)) {
+    return { event: 'disappearing', duration };
+  }
+  if (data?.event === 'resync') return { event: 'resync' };
+  const notice = data?.notice;
+  if (data?.event === 'group' && typeof notice === 'string' && notice.length <= 280) {
+    return { event: 'group', notice };
+  }
+  return null;
+};
+
+export const describeSystemEvent = (event: SystemEvent | null, actor: string, self: string) => {
+  const who = actor === self ? 'You' : `@${actor}`;
+  if (!event) return `${who} made a change this version does not support`;
+  if (event.event === 'group') return event.notice;
+  if (event.event === 'resync') return `${who} restored from a backup`;
+  return event.duration
+    ? `${who} set disappearing messages to ${formatTimer(event.duration)}`
+    : `${who} turned off disappearing messages`;
+};
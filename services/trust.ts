@@ -0,0 +1,96 @@
+import { TrustedIdentity } from '../types';
+import { storageService } from './storage';
+
+/**
+ * WhisperLine Key Pinning
+ * Trust-on-first-use store for contacts' identity keys. A contact's first verified
+ * announcement is pinned; later announcements with different keys are held as
+ * pending until the user explicitly accepts them.
+ */
+
+const LEGACY_STORAGE_KEY = 'whisperline_trusted_keys';
+
+export type TrustStatus = 'new' | 'trusted' | 'changed';
+
+let identities: Record<string, TrustedIdentity> = {};
+
+const persist = (username: string) => {
+  storageService.put('contacts', username, identities[username])
+    .catch(err => console.error('Failed to persist identity for @' + username, err));
+};
+
+export const trustService = {
+  async load(): Promise<void> {
+    identities = {};
+    const stored = await storageService.getAll<TrustedIdentity>('contacts');
+    stored.forEach(identity => { identities[identity.username] = identity; });
+
+    // Pins from before the vault lived in localStorage
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      identities = { ...JSON.parse(legacy), ...identities };
+      Object.keys(identities).forEach(persist);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+  },
+
+  all(): Record<string, TrustedIdentity> {
+    return { ...identities };
+  },
+
+  get(username: string): TrustedIdentity | null {
+    return identities[username] ?? null;
+  },
+
+  /**
+   * Records a signature-verified identity announcement and reports how it compares to the pin.
+   */
+  observe(username: string, publicKey: string, signingKey: string): TrustStatus {
+    const pinned = identities[username];
+    if (!pinned) {
+      identities[username] = { username, publicKey, signingKey, firstSeen: Date.now(), verified: false };
+      persist(username);
+      return 'new';
+    }
+    if (pinned.publicKey === publicKey && pinned.signingKey === signingKey) {
+      if (pinned.pendingPublicKey) {
+        delete pinned.pendingPublicKey;
+        delete pinned.pendingSigningKey;
+        persist(username);
+      }
+      return 'trusted';
+    }
+    pinned.pendingPublicKey = publicKey;
+    pinned.pendingSigningKey = signingKey;
+    persist(username);
+    return 'changed';
+  },
+
+  /**
+   * Replaces the pinned keys with the pending ones. The new keys start out unverified.
+   */
+  acceptPending(username: string): TrustedIdentity | null {
+    const pinned = identities[username];
+    if (!pinned?.pendingPublicKey || !pinned.pendingSigningKey) return null;
+    identities[username] = {
+      username,
+      publicKey: pinned.pendingPublicKey,
+      signingKey: pinned.pendingSigningKey,
+      firstSeen: Date.now(),
+      verified: false
+    };
+    persist(username);
+    return identities[username];
+  },
+
+  setVerified(username: string, verified: boolean): void {
+    const pinned = identities[username];
+    if (!pinned) return;
+    pinned.verified = verified;
+    persist(username);
+  },
+
+  wipe(): void {
+    identities = {};
+  }
+};
@@ -0,0 +1,74 @@
+import { signalingService } from './signaling';
+
+/**
+ * WhisperLine Typing Indicators
+ * Ephemeral typing-start/typing-stop signals. Outgoing starts are throttled and a stop
+ * follows a pause in typing; incoming indicators expire on their own in case the stop
+ * frame is lost. Nothing here is ever written to the vault.
+ */
+
+const SEND_THROTTLE = 3000; // While typing, 'start' is repeated at most this often
+const IDLE_TIMEOUT = 4000; // Pause after which we send 'stop'
+const EXPIRY = 6000; // A remote indicator without a fresh 'start' disappears after this
+
+let outgoing: { peer: string; lastSent: number; idleTimer: ReturnType<typeof setTimeout> } | null = null;
+const remote = new Map<string, ReturnType<typeof setTimeout>>();
+let onChange: ((typing: string[]) => void) | null = null;
+
+const emit = () => onChange?.([...remote.keys()]);
+
+export const typingService = {
+  init(handler: (typing: string[]) => void): void {
+    onChange = handler;
+  },
+
+  /**
+   * The user typed into the chat with `peer`.
+   */
+  keystroke(peer: string): void {
+    if (outgoing && outgoing.peer !== peer) this.stop();
+    if (outgoing) clearTimeout(outgoing.idleTimer);
+    const now = Date.now();
+    const lastSent = outgoing?.lastSent ?? 0;
+    if (now - lastSent >= SEND_THROTTLE) signalingService.sendTyping(peer, 'start');
+    outgoing = {
+      peer,
+      lastSent: now - lastSent >= SEND_THROTTLE ? now : lastSent,
+      idleTimer: setTimeout(() => this.stop(), IDLE_TIMEOUT)
+    };
+  },
+
+  /**
+   * The user stopped typing: sent the message, cleared the input, paused or left the chat.
+   */
+  stop(): void {
+    if (!outgoing) return;
+    clearTimeout(outgoing.idleTimer);
+    signalingService.sendTyping(outgoing.peer, 'stop');
+    outgoing = null;
+  },
+
+  received(from: string, state: 'start' | 'stop'): void {
+    clearTimeout(remote.get(from));
+    if (state === 'start') remote.set(from, setTimeout(() => this.clear(from), EXPIRY));
+    else remote.delete(from);
+    emit();
+  },
+
+  /**
+   * Drops a remote indicator, e.g. because their message just arrived.
+   */
+  clear(from: string): void {
+    if (!remote.has(from)) return;
+    clearTimeout(remote.get(from));
+    remote.delete(from);
+    emit();
+  },
+
+  wipe(): void {
+    if (outgoing) clearTimeout(outgoing.idleTimer);
+    outgoing = null;
+    remote.forEach(timer => clearTimeout(timer));
+    remote.clear();
+  }
+};
@@ -0,0 +1,43 @@
+/**
+ * WhisperLine App Updates
+ * Registers the service worker that keeps the app shell available offline. A newly deployed
+ * build installs in the background and then waits; the page is told, so it can offer to
+ * switch, and switching reloads into the new version.
+ */
+
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+let registration: ServiceWorkerRegistration | null = null;
+
+export const updateService = {
+  /**
+   * Registers the service worker. `onUpdateAvailable` is called once a new build is ready.
+   */
+  async register(onUpdateAvailable: () => void): Promise<void> {
+    if (registration || !('serviceWorker' in navigator)) return;
+    try {
+      registration = await navigator.serviceWorker.register('./service-worker.js');
+    } catch (err) {
+      console.warn('Service worker registration failed', err);
+      return;
+    }
+    // Without a controller this is the first install, not an update
+    const watch = (worker: ServiceWorker | null) => worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && navigator.serviceWorker.controller) onUpdateAvailable();
+    });
+    if (registration.waiting && navigator.serviceWorker.controller) onUpdateAvailable();
+    watch(registration.installing);
+    registration.addEventListener('updatefound', () => watch(registration?.installing ?? null));
+    setInterval(() => registration?.update().catch(() => undefined), UPDATE_CHECK_INTERVAL);
+  },
+
+  /**
+   * Lets the waiting build take over and reloads into it.
+   */
+  apply(): void {
+    const waiting = registration?.waiting;
+    if (!waiting) return;
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    waiting.postMessage({ type: 'skip-waiting' });
+  }
+};
@@ -0,0 +1,26 @@
+/**
+ * WhisperLine Usernames
+ * The rules for choosing a username. A username becomes part of PeerJS ids and device
+ * addresses (see devices.ts) and can never be changed, so it is kept short and plain:
+ * lowercase letters, digits and underscores, starting with a letter.
+ */
+
+export const MIN_USERNAME_LENGTH = 3;
+export const MAX_USERNAME_LENGTH = 24;
+const RESERVED = ['admin', 'support', 'system', 'whisperline'];
+
+export const normalizeUsername = (input: string) => input.trim().toLowerCase();
+
+/**
+ * Every rule a (normalized) username breaks, ready to show; empty if it may be used.
+ */
+export const validateUsername = (username: string): string[] => {
+  const problems: string[] = [];
+  if (username.length < MIN_USERNAME_LENGTH) problems.push(`Use at least ${MIN_USERNAME_LENGTH} characters`);
+  if (username.length > MAX_USERNAME_LENGTH) problems.push(`Use at most ${MAX_USERNAME_LENGTH} characters`);
+  if (/[^a-z0-9_]/.test(username)) problems.push('Only letters, digits and underscores are allowed');
+  if (username && !/^[a-z]/.test(username)) problems.push('Start with a letter');
+  if (/__/.test(username) || username.endsWith('_')) problems.push('Underscores must separate letters or digits');
+  if (RESERVED.includes(username)) problems.push('This username is reserved');
+  return problems;
+};
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { Message, UserProfile } from '../types';
+import { StoredMessage } from '../services/storage';
+import { loadClient, Client } from './clients';
+
+const message = (id: string, status: Message['status']): Message => ({
+  id,
+  sender: 'alice',
+  recipient: 'bob',
+  content: '',
+  timestamp: Date.now(),
+  status,
+  type: 'text'
+});
+
+describe('backups', () => {
+  let alice: Client;
+  let file: string;
+
+  beforeEach(async () => {
+    alice = await loadClient('alice');
+    const profile: UserProfile = { username: 'alice', publicKey: alice.identity.publicKey, createdAt: Date.now() };
+    await alice.storageService.put('settings', 'profile', profile);
+    await alice.storageService.put('settings', 'identity', alice.identity);
+    await alice.storageService.saveMessage('bob', message('m1', 'read'), 'delivered long ago');
+    await alice.storageService.saveMessage('bob', message('m2', 'pending'), 'still queued');
+    await alice.storageService.put('sessions', 'bob', { contact: 'bob', session: {} });
+    await alice.storageService.put('senderKeys', 'own', { member: 'alice', signingKey: 'public', signingPrivateKey: 'private' });
+    await alice.storageService.put('senderKeys', 'bob', { member: 'bob', signingKey: 'public' });
+    file = await (await alice.backupService.create('backup passphrase')).text();
+  });
+
+  test('opens with the passphrase it was made with', async () => {
+    const contents = await alice.backupService.open(file, 'backup passphrase');
+    expect(contents.profile.username).toBe('alice');
+    expect(contents.identity).toEqual(alice.identity);
+    expect(contents.messages.map(stored => stored.text).sort()).toEqual(['delivered long ago', 'still queued']);
+  });
+
+  test('restores history without the out-of-date sessions or our own sender chains, and marks queued messages failed', async () => {
+    const contents = await alice.backupService.open(file, 'backup passphrase');
+    const restored = await loadClient('alice');
+    await restored.backupService.restore(contents);
+
+    expect(await restored.storageService.get('settings', 'identity')).toEqual(alice.identity);
+    expect(await restored.storageService.getAll('sessions')).toEqual([]);
+    expect(await restored.storageService.getAll('senderKeys')).toEqual([{ member: 'bob', signingKey: 'public' }]);
+    expect((await restored.storageService.get<StoredMessage>('messages', 'm1'))?.message.status).toBe('read');
+    expect((await restored.storageService.get<StoredMessage>('messages', 'm2'))?.message.status).toBe('failed');
+  });
+
+  test('tells a wrong passphrase apart from a damaged file', async () => {
+    await expect(alice.backupService.open(file, 'wrong passphrase')).rejects.toThrow('Incorrect backup passphrase');
+
+    const damaged = JSON.parse(file);
+    damaged.ciphertext = damaged.ciphertext.slice(0, 40) + (damaged.ciphertext[40] === 'A' ? 'B' : 'A') + damaged.ciphertext.slice(41);
+    await expect(alice.backupService.open(JSON.stringify(damaged), 'backup passphrase'))
+      .rejects.toThrow('The backup file is damaged or has been modified');
+
+    const truncated = JSON.parse(file);
+    delete truncated.iv;
+    await expect(alice.backupService.open(JSON.stringify(truncated), 'backup passphrase')).rejects.toThrow('The backup file is damaged');
+  });
+
+  test('refuses files that are not backups or come from a newer version', async () => {
+    await expect(alice.backupService.open('not json', 'backup passphrase')).rejects.toThrow('This is not a WhisperLine backup file');
+    await expect(alice.backupService.open('{"format":"something-else","version":1}', 'backup passphrase'))
+      .rejects.toThrow('This is not a WhisperLine backup file');
+    await expect(alice.backupService.open(JSON.stringify({ ...JSON.parse(file), version: 99 }), 'backup passphrase'))
+      .rejects.toThrow('newer version of WhisperLine');
+  });
+});
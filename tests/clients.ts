@@ -0,0 +1,40 @@
+import { vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { localBroker } from '../services/localBroker';
+
+/**
+ * Loads a separate copy of every service, with its own vault and identity, so several
+ * WhisperLine clients can run side by side in one test. The services keep their state in
+ * module scope; a fresh module graph per client keeps those states apart. All clients share
+ * one in-process broker in place of the PeerJS network.
+ */
+export const loadClient = async (username: string) => {
+  vi.resetModules();
+  vi.doMock('peerjs', () => ({
+    Peer: function Peer(id: string) {
+      return localBroker.createPeer(id);
+    }
+  }));
+  // Each client gets its own database; the vault keeps its connection once opened
+  vi.stubGlobal('indexedDB', new IDBFactory());
+
+  const { storageService } = await import('../services/storage');
+  const { cryptoService } = await import('../services/crypto');
+  const { ratchetService } = await import('../services/ratchet');
+  const { trustService } = await import('../services/trust');
+  const { deviceService } = await import('../services/devices');
+  const { outboxService } = await import('../services/outbox');
+  const { signalingService } = await import('../services/signaling');
+  const { groupService } = await import('../services/groups');
+  const { backupService } = await import('../services/backup');
+  const { mutationService } = await import('../services/mutations');
+
+  await storageService.createVault(`${username} passphrase`);
+  const identity = await cryptoService.generateIdentity();
+  await cryptoService.loadIdentity(identity);
+  await deviceService.load(username);
+
+  return { username, identity, storageService, cryptoService, ratchetService, trustService, deviceService, outboxService, signalingService, groupService, backupService, mutationService };
+};
+
+export type Client = Awaited<ReturnType<typeof loadClient>>;
@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { DeviceInfo, DeviceList } from '../types';
+import { loadClient, Client } from './clients';
+
+/**
+ * Device lists as a contact sees them. The lists are signed by hand where a test needs one the
+ * account would not produce itself, as a revoked device still holding the signing key could.
+ */
+
+const LAPTOP: DeviceInfo = { id: '0a1b2c3d', name: 'Laptop', linkedAt: 1 };
+
+const signedList = async (client: Client, devices: DeviceInfo[], updatedAt: number, revoked: string[] = []): Promise<DeviceList> => {
+  const statement = `whisperline-devices|${client.username}|${updatedAt}|${JSON.stringify(devices)}${revoked.length ? `|${JSON.stringify(revoked)}` : ''}`;
+  const signature = await client.cryptoService.sign(statement);
+  return { username: client.username, devices, ...(revoked.length ? { revoked } : {}), updatedAt, signature };
+};
+
+describe('device lists', () => {
+  let alice: Client;
+  let bob: Client;
+  let primary: DeviceInfo;
+
+  beforeEach(async () => {
+    alice = await loadClient('alice');
+    bob = await loadClient('bob');
+    bob.trustService.observe('alice', alice.identity.publicKey, alice.identity.signingPublicKey);
+    primary = alice.deviceService.current();
+    expect(await alice.deviceService.observe(await signedList(alice, [primary, LAPTOP], Date.now()))).toBe('updated');
+    expect(await bob.deviceService.observe(alice.deviceService.ownList()!)).toBe('updated');
+  });
+
+  test('only lets listed devices speak for the account', () => {
+    expect(bob.deviceService.isListed('alice--0a1b2c3d')).toBe(true);
+    expect(bob.deviceService.isListed('alice--99999999')).toBe(false);
+  });
+
+  test('keeps a revoked device out even when a newer list signed with the shared key brings it back', async () => {
+    const revoked = await alice.deviceService.revoke(LAPTOP.id);
+    expect(revoked.revoked).toEqual([LAPTOP.id]);
+    expect(await bob.deviceService.observe(revoked)).toBe('updated');
+    expect(bob.deviceService.isListed('alice--0a1b2c3d')).toBe(false);
+
+    const later = Date.now() + 1000;
+    expect(await bob.deviceService.observe(await signedList(alice, [primary, LAPTOP], later))).toBeNull();
+    expect(await bob.deviceService.observe(await signedList(alice, [primary, LAPTOP], later, [LAPTOP.id]))).toBeNull();
+    expect(bob.deviceService.isListed('alice--0a1b2c3d')).toBe(false);
+
+    // Lists that keep the revocation still go through
+    expect(await bob.deviceService.observe(await signedList(alice, [primary], later, [LAPTOP.id]))).toBe('updated');
+  });
+});
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { SenderKeyState } from '../types';
+import { toBase64, fromBase64 } from '../services/encoding';
+import { GROUP_ENVELOPE_VERSION, GroupControl } from '../services/groups';
+import { loadClient, Client } from './clients';
+
+/**
+ * Sender-key group messaging between three clients. Control events are handed straight to the
+ * other clients, standing in for the pairwise sessions App.tsx sends them over.
+ */
+
+const join = async (usernames: string[]) => {
+  const clients: Record<string, Client> = {};
+  for (const username of usernames) clients[username] = await loadClient(username);
+
+  for (const client of Object.values(clients)) {
+    await client.groupService.load(client.username, async (peer: string, control: GroupControl) => {
+      if (peer !== client.username) await clients[peer].groupService.handleControl(client.deviceService.address(), control);
+      return true;
+    });
+  }
+  return clients;
+};
+
+const hmac = async (keyBytes: Uint8Array, data: number) => {
+  const key = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, new Uint8Array([data])));
+};
+
+describe('group sender keys', () => {
+  let clients: Record<string, Client>;
+  let groupId: string;
+
+  beforeEach(async () => {
+    clients = await join(['alice', 'bob', 'carol']);
+    groupId = (await clients.alice.groupService.create('Friends', ['bob', 'carol'])).group.id;
+  });
+
+  test('every member reads a message encrypted once by the sender', async () => {
+    const content = await clients.alice.groupService.encrypt(groupId, 'hello everyone');
+    expect(await clients.bob.groupService.decrypt(groupId, 'alice', content)).toBe('hello everyone');
+    expect(await clients.carol.groupService.decrypt(groupId, 'alice', content)).toBe('hello everyone');
+
+    const reply = await clients.bob.groupService.encrypt(groupId, 'hi alice');
+    expect(await clients.alice.groupService.decrypt(groupId, 'bob', reply)).toBe('hi alice');
+  });
+
+  test('rejects a message another member forges with the sender\'s chain key', async () => {
+    const genuine = JSON.parse(await clients.alice.groupService.encrypt(groupId, 'genuine'));
+
+    // Bob holds alice's chain key and can encrypt the next message on her chain
+    const chains = await clients.bob.storageService.getAll<SenderKeyState>('senderKeys');
+    const chain = chains.find(state => state.member === 'alice')!;
+    const nextChainKey = await hmac(fromBase64(chain.chainKey), 2);
+    const messageKey = await crypto.subtle.importKey('raw', await hmac(nextChainKey, 1), 'AES-GCM', false, ['encrypt']);
+    const nonce = crypto.getRandomValues(new Uint8Array(12));
+    const additionalData = new TextEncoder().encode(`${GROUP_ENVELOPE_VERSION}|${groupId}|${chain.epoch}|alice|1`);
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce, additionalData }, messageKey, new TextEncoder().encode('forged'));
+    const forged = { ...genuine, iteration: 1, nonce: toBase64(nonce), ciphertext: toBase64(ciphertext) };
+
+    await expect(clients.carol.groupService.decrypt(groupId, 'alice', JSON.stringify(forged)))
+      .rejects.toThrow('Message authentication failed');
+    await expect(clients.carol.groupService.decrypt(groupId, 'alice', JSON.stringify({ ...forged, signature: undefined })))
+      .rejects.toThrow('Unsupported message format');
+    // The rejected forgery did not advance carol's copy of the chain
+    expect(await clients.carol.groupService.decrypt(groupId, 'alice', JSON.stringify(genuine))).toBe('genuine');
+  });
+
+  test('rejects a genuine message attributed to another member', async () => {
+    const content = await clients.alice.groupService.encrypt(groupId, 'from alice');
+    await expect(clients.carol.groupService.decrypt(groupId, 'bob', content)).rejects.toThrow();
+  });
+});
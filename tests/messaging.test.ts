@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { Message, MessageStatus } from '../types';
+import { SignalingHandlers } from '../services/signaling';
+import { localBroker } from '../services/localBroker';
+import { DEFAULT_NETWORK_CONFIG } from '../services/network';
+import { createFrame } from '../services/protocol';
+import { loadClient, Client } from './clients';
+
+/**
+ * Two clients exchanging messages over the in-process broker, wired up the way App.tsx wires
+ * the signaling handlers to the outbox and receipts.
+ */
+
+interface Session {
+  client: Client;
+  received: { message: Message; text: string }[];
+  receipts: { from: string; status: MessageStatus; ids: string[] }[];
+  statuses: { id: string; status: MessageStatus }[];
+  go: () => void;
+}
+
+const connect = async (username: string): Promise<Session> => {
+  const client = await loadClient(username);
+  const session: Session = { client, received: [], receipts: [], statuses: [], go: () => undefined };
+  const { signalingService, outboxService, ratchetService } = client;
+
+  const handlers: SignalingHandlers = {
+    onMessage: async (message) => {
+      const address = message.senderDevice && message.senderDevice !== 'primary' ? `${message.sender}--${message.senderDevice}` : message.sender;
+      const text = await ratchetService.decrypt(address, signalingService.getPeerKey(message.sender)!, message.content);
+      session.received.push({ message, text });
+      signalingService.sendReceipt(address, 'delivered', [message.id]);
+    },
+    onReceipt: (from, status, ids) => {
+      session.receipts.push({ from, status, ids });
+      outboxService.acknowledge(from, ids);
+    },
+    onPeerReady: (address) => { outboxService.peerReady(address); },
+    onCall: () => undefined,
+    onCallSignal: () => undefined,
+    onPeerUnavailable: () => undefined,
+    onIdentity: () => undefined,
+    onConnectionState: () => undefined,
+    onTyping: () => undefined,
+    onFileFrame: async () => undefined,
+    onDeviceList: () => undefined,
+    onLinkRequest: async () => null,
+    onProfile: () => undefined
+  };
+
+  await outboxService.load((message, status) => session.statuses.push({ id: message.id, status }));
+  session.go = () => signalingService.init(username, handlers);
+  session.go();
+  await vi.waitFor(() => expect(signalingService.getConnectionStatus().state).toBe('connected'));
+  return session;
+};
+
+const send = async (from: Session, to: string, id: string, text: string) => {
+  const { signalingService, ratchetService, outboxService } = from.client;
+  const recipientKey = await signalingService.requestPeerKey(to);
+  if (!recipientKey) throw new Error(`No key for @${to}`);
+  const message: Message = {
+    id,
+    sender: from.client.username,
+    recipient: to,
+    content: await ratchetService.encrypt(to, recipientKey, text),
+    timestamp: Date.now(),
+    status: 'pending',
+    type: 'text'
+  };
+  await outboxService.enqueue(message);
+};
+
+describe('messaging between two clients', () => {
+  let alice: Session;
+  let bob: Session;
+
+  beforeEach(async () => {
+    alice = await connect('alice');
+    bob = await connect('bob');
+  });
+
+  afterEach(() => {
+    alice.client.signalingService.stop();
+    bob.client.signalingService.stop();
+    alice.client.outboxService.wipe();
+    bob.client.outboxService.wipe();
+    localBroker.reset();
+  });
+
+  test('pins each other\'s identity on first contact', async () => {
+    expect(await alice.client.signalingService.requestPeerKey('bob')).toBe(bob.client.identity.publicKey);
+    expect(bob.client.trustService.get('alice')?.publicKey).toBe(alice.client.identity.publicKey);
+  });
+
+  test('delivers an encrypted message and its delivery receipt', async () => {
+    await send(alice, 'bob', 'm1', 'hello bob');
+
+    await vi.waitFor(() => expect(bob.received.map(r => r.text)).toEqual(['hello bob']));
+    expect(bob.received[0].message).toMatchObject({ id: 'm1', sender: 'alice', recipient: 'bob' });
+    expect(bob.received[0].message.content).not.toContain('hello bob');
+
+    await vi.waitFor(() => expect(alice.receipts).toEqual([{ from: 'bob', status: 'delivered', ids: ['m1'] }]));
+    expect(alice.statuses).toEqual([{ id: 'm1', status: 'sent' }]);
+    expect(alice.client.outboxService.isQueued('m1')).toBe(false);
+  });
+
+  test('answers in the other direction over the same sessions', async () => {
+    await send(alice, 'bob', 'm1', 'ping');
+    await vi.waitFor(() => expect(bob.received).toHaveLength(1));
+    await send(bob, 'alice', 'm2', 'pong');
+    await vi.waitFor(() => expect(alice.received.map(r => r.text)).toEqual(['pong']));
+  });
+
+  test('queues messages while the recipient is offline and delivers them in order when it returns', async () => {
+    expect(await alice.client.signalingService.requestPeerKey('bob')).toBeTruthy();
+    bob.client.signalingService.stop();
+
+    await send(alice, 'bob', 'm1', 'one');
+    await send(alice, 'bob', 'm2', 'two');
+    await send(alice, 'bob', 'm3', 'three');
+    expect(alice.client.outboxService.isQueued('m1')).toBe(true);
+    expect(bob.received).toHaveLength(0);
+
+    // Coming back online, bob reconnects to his contacts; alice's outbox flushes on the handshake
+    bob.go();
+    await vi.waitFor(() => expect(bob.received.map(r => r.text)).toEqual(['one', 'two', 'three']), { timeout: 15000 });
+    await vi.waitFor(() => expect(['m1', 'm2', 'm3'].some(id => alice.client.outboxService.isQueued(id))).toBe(false));
+  });
+
+  test('ignores frames from someone holding a peer id without passing the handshake', async () => {
+    expect(await alice.client.signalingService.requestPeerKey('bob')).toBeTruthy();
+    bob.client.signalingService.stop();
+    await send(alice, 'bob', 'm1', 'for bob only');
+
+    // An impostor takes bob's id while he is away and claims the message arrived
+    const impostor = localBroker.createPeer(`${DEFAULT_NETWORK_CONFIG.idPrefix}bob`);
+    await new Promise(resolve => impostor.on('open', resolve));
+    const conn = impostor.connect(`${DEFAULT_NETWORK_CONFIG.idPrefix}alice`);
+    await new Promise<void>(resolve => conn.on('open', resolve));
+    conn.send(createFrame({ type: 'ack', status: 'delivered', ids: ['m1'] }));
+    conn.send(createFrame({ type: 'typing', state: 'start' }));
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(alice.receipts).toHaveLength(0);
+    expect(alice.client.outboxService.isQueued('m1')).toBe(true);
+  });
+});
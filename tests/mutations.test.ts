@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { Message } from '../types';
+import { EDIT_WINDOW, parseMutation } from '../services/mutations';
+import { loadClient, Client } from './clients';
+
+const MINUTE = 60 * 1000;
+
+describe('message mutations', () => {
+  let bob: Client;
+  const arrived = Date.now();
+  const claimed = arrived + 365 * 24 * 60 * MINUTE;
+
+  beforeEach(async () => {
+    bob = await loadClient('bob');
+    // Alice's message, stamped by her clock far in the future, reached bob just now
+    const message: Message = {
+      id: 'm1',
+      sender: 'alice',
+      recipient: 'bob',
+      content: '',
+      timestamp: claimed,
+      receivedAt: arrived,
+      status: 'delivered',
+      type: 'text'
+    };
+    await bob.storageService.saveMessage('alice', message, 'original');
+  });
+
+  test('accepts an edit that arrives within the window of the message\'s arrival', async () => {
+    const edit = parseMutation('{"action":"edit","target":"m1","text":"fixed"}')!;
+    const updated = await bob.mutationService.apply('alice', 'alice', edit, claimed + MINUTE, 'bob', arrived + MINUTE);
+    expect(updated?.text).toBe('fixed');
+  });
+
+  test('measures the edit window on the recipient\'s clock, whatever the sender claims', async () => {
+    const edit = parseMutation('{"action":"edit","target":"m1","text":"much later"}')!;
+    const late = arrived + EDIT_WINDOW + MINUTE;
+    expect(await bob.mutationService.apply('alice', 'alice', edit, claimed + MINUTE, 'bob', late)).toBeNull();
+  });
+
+  test('only lets the author edit', async () => {
+    const edit = parseMutation('{"action":"edit","target":"m1","text":"not mine"}')!;
+    expect(await bob.mutationService.apply('alice', 'bob', edit, claimed + MINUTE, 'bob', arrived + MINUTE)).toBeNull();
+  });
+
+  test('parses only well-formed mutations', () => {
+    expect(parseMutation('{"action":"react","target":"m1","emoji":null}')).toEqual({ action: 'react', target: 'm1', emoji: null });
+    expect(parseMutation('{"action":"edit","target":"m1","text":"   "}')).toBeNull();
+    expect(parseMutation('{"action":"delete","target":7}')).toBeNull();
+    expect(parseMutation('not json')).toBeNull();
+  });
+});
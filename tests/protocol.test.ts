@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'vitest';
+import { createFrame, parseFrame, PROTOCOL_VERSION } from '../services/protocol';
+
+const message = {
+  id: 'm1',
+  sender: 'alice',
+  recipient: 'bob',
+  content: '{"v":2}',
+  timestamp: 1700000000000,
+  status: 'pending',
+  type: 'text'
+};
+
+const rejection = (data: unknown) => {
+  const result = parseFrame(data);
+  return result.ok === false ? result.reason : null;
+};
+
+describe('parseFrame', () => {
+  test('accepts well-formed frames of every kind', () => {
+    const frames = [
+      createFrame({ type: 'key-exchange', phase: 'challenge', nonce: 'abc' }),
+      createFrame({ type: 'key-exchange', phase: 'response', username: 'alice', publicKey: 'pk', signingKey: 'sk', signature: 'sig' }),
+      createFrame({ type: 'chat', message: { ...message, status: 'pending', type: 'text' } }),
+      createFrame({ type: 'ack', status: 'read', ids: ['m1', 'm2'] }),
+      createFrame({ type: 'typing', state: 'start' }),
+      createFrame({ type: 'call-signal', action: 'ring', callType: 'video' }),
+      createFrame({ type: 'profile', profile: { displayName: 'Alice', updatedAt: 1 }, signature: 'sig' }),
+      createFrame({ type: 'heartbeat', phase: 'ping', sentAt: 1 }),
+      createFrame({ type: 'file-request', fileId: 'f1', start: 0, count: 4 }),
+      createFrame({ type: 'file-chunk', fileId: 'f1', index: 3, data: 'AAAA' }),
+      createFrame({ type: 'devices', list: { username: 'alice', devices: [{ id: 'primary', name: 'Laptop', linkedAt: 1 }], updatedAt: 1, signature: 'sig' } }),
+      createFrame({ type: 'link', phase: 'request', name: 'Phone', proof: 'proof' }),
+      createFrame({ type: 'link', phase: 'bundle', nonce: 'n', ciphertext: 'c' })
+    ];
+    for (const frame of frames) expect(parseFrame(frame)).toEqual({ ok: true, frame });
+  });
+
+  test('rejects anything that is not a versioned frame object', () => {
+    expect(rejection(null)).toBe('frame is not an object');
+    expect(rejection('hello')).toBe('frame is not an object');
+    expect(rejection([{ v: PROTOCOL_VERSION }])).toBe('frame is not an object');
+    expect(rejection({ type: 'typing', state: 'start' })).toBe('missing protocol version');
+    expect(rejection({ v: PROTOCOL_VERSION + 1, type: 'typing', state: 'start' })).toBe(`unsupported protocol version ${PROTOCOL_VERSION + 1}`);
+  });
+
+  test('rejects unknown frame types, including inherited property names', () => {
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'shout' })).toBe('unknown frame type shout');
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'constructor' })).toBe('unknown frame type constructor');
+    expect(rejection({ v: PROTOCOL_VERSION, type: 42 })).toBe('unknown frame type 42');
+  });
+
+  test('validates chat messages field by field', () => {
+    const chat = (changes: Record<string, unknown>) => ({ v: PROTOCOL_VERSION, type: 'chat', message: { ...message, ...changes } });
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'chat', message: 'hi' })).toBe('message is not an object');
+    expect(rejection(chat({ id: '' }))).toBe('invalid message id');
+    expect(rejection(chat({ sender: 'x'.repeat(65) }))).toBe('invalid sender');
+    expect(rejection(chat({ content: 'x'.repeat(64 * 1024 + 1) }))).toBe('invalid content');
+    expect(rejection(chat({ timestamp: -1 }))).toBe('invalid timestamp');
+    expect(rejection(chat({ type: 'script' }))).toBe('unknown message type');
+    expect(rejection(chat({ recipientDevice: '../admin' }))).toBe('invalid recipient device');
+    expect(rejection(chat({ expiresIn: 0 }))).toBe('invalid expiry');
+    expect(rejection(chat({ expiresIn: 1.5 }))).toBe('invalid expiry');
+    expect(rejection(chat({ recipientDevice: '0a1b2c3d', expiresIn: 60000 }))).toBeNull();
+  });
+
+  test('bounds acknowledgements and file transfer requests', () => {
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'ack', status: 'delivered', ids: [] })).toBe('invalid ack ids');
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'ack', status: 'delivered', ids: Array(501).fill('m') })).toBe('invalid ack ids');
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'ack', status: 'delivered', ids: ['m', 7] })).toBe('invalid ack ids');
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'ack', status: 'sent', ids: ['m'] })).toBe('invalid ack status');
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'file-request', fileId: 'f', start: 0, count: 0 })).toBe('invalid chunk count');
+    expect(rejection({ v: PROTOCOL_VERSION, type: 'file-request', fileId: 'f', start: -1, count: 1 })).toBe('invalid chunk index');
+  });
+
+  test('only accepts inline avatar images', () => {
+    const profile = (avatarData: unknown) => ({ v: PROTOCOL_VERSION, type: 'profile', profile: { avatarData, updatedAt: 1 }, signature: 'sig' });
+    expect(rejection(profile('https://tracker.example/pixel.png'))).toBe('avatar is not an inline image');
+    expect(rejection(profile(42))).toBe('invalid avatar');
+    expect(rejection(profile('data:image/png;base64,AAAA'))).toBeNull();
+  });
+
+  test('rejects malformed device lists', () => {
+    const devices = (list: unknown) => ({ v: PROTOCOL_VERSION, type: 'devices', list });
+    const device = { id: 'primary', name: 'Laptop', linkedAt: 1 };
+    expect(rejection(devices(null))).toBe('device list is not an object');
+    expect(rejection(devices({ username: 'alice', devices: [], updatedAt: 1, signature: 's' }))).toBe('invalid device list');
+    expect(rejection(devices({ username: 'alice', devices: Array(9).fill(device), updatedAt: 1, signature: 's' }))).toBe('invalid device list');
+    expect(rejection(devices({ username: 'alice', devices: [null], updatedAt: 1, signature: 's' }))).toBe('invalid device');
+    expect(rejection(devices({ username: 'alice', devices: [{ ...device, id: 'PRIMARY' }], updatedAt: 1, signature: 's' }))).toBe('invalid device');
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { loadClient, Client } from './clients';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('double ratchet', () => {
+  let alice: Client;
+  let bob: Client;
+
+  const send = (from: Client, to: Client, text: string) =>
+    from.ratchetService.encrypt(to.username, to.identity.publicKey, text);
+  const receive = (to: Client, from: Client, envelope: string) =>
+    to.ratchetService.decrypt(from.username, from.identity.publicKey, envelope);
+
+  beforeEach(async () => {
+    alice = await loadClient('alice');
+    bob = await loadClient('bob');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('either side can speak first and keep talking', async () => {
+    expect(await receive(alice, bob, await send(bob, alice, 'hi alice'))).toBe('hi alice');
+    expect(await receive(bob, alice, await send(alice, bob, 'hi bob'))).toBe('hi bob');
+    expect(await receive(bob, alice, await send(alice, bob, 'how are you?'))).toBe('how are you?');
+    expect(await receive(alice, bob, await send(bob, alice, 'fine'))).toBe('fine');
+  });
+
+  test('decrypts messages delivered out of order', async () => {
+    const first = await send(alice, bob, 'one');
+    const second = await send(alice, bob, 'two');
+    const third = await send(alice, bob, 'three');
+
+    expect(await receive(bob, alice, third)).toBe('three');
+    expect(await receive(bob, alice, first)).toBe('one');
+    expect(await receive(bob, alice, second)).toBe('two');
+  });
+
+  test('decrypts a message skipped before a DH ratchet step', async () => {
+    const first = await send(alice, bob, 'one');
+    const late = await send(alice, bob, 'late');
+    expect(await receive(bob, alice, first)).toBe('one');
+    expect(await receive(alice, bob, await send(bob, alice, 'reply'))).toBe('reply');
+
+    // Alice's next message comes from a new ratchet key; 'late' is still owed from the old chain
+    expect(await receive(bob, alice, await send(alice, bob, 'after'))).toBe('after');
+    expect(await receive(bob, alice, late)).toBe('late');
+  });
+
+  test('rejects a replayed message', async () => {
+    const envelope = await send(alice, bob, 'once');
+    expect(await receive(bob, alice, envelope)).toBe('once');
+    await expect(receive(bob, alice, envelope)).rejects.toThrow('Duplicate or expired message');
+  });
+
+  test('rejects a replayed message that was first received out of order', async () => {
+    const first = await send(alice, bob, 'one');
+    const second = await send(alice, bob, 'two');
+    expect(await receive(bob, alice, second)).toBe('two');
+    expect(await receive(bob, alice, first)).toBe('one');
+    await expect(receive(bob, alice, first)).rejects.toThrow('Duplicate or expired message');
+  });
+
+  test('rejects a gap larger than the skip limit without touching the session', async () => {
+    const envelope = JSON.parse(await send(alice, bob, 'far ahead'));
+    envelope.header.n = 5000;
+    await expect(receive(bob, alice, JSON.stringify(envelope))).rejects.toThrow('Too many skipped messages');
+    expect(await receive(bob, alice, await send(alice, bob, 'next'))).toBe('next');
+  });
+
+  test('rejects a tampered message without advancing the session', async () => {
+    const envelope = JSON.parse(await send(alice, bob, 'original'));
+    envelope.header.pn = 1;
+    await expect(receive(bob, alice, JSON.stringify(envelope))).rejects.toThrow('Message authentication failed');
+    expect(await receive(bob, alice, await send(alice, bob, 'next'))).toBe('next');
+  });
+
+  test('forgets skipped keys after they expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const first = await send(alice, bob, 'one');
+    expect(await receive(bob, alice, await send(alice, bob, 'two'))).toBe('two');
+
+    vi.setSystemTime(Date.now() + 8 * DAY);
+    await expect(receive(bob, alice, first)).rejects.toThrow('Duplicate or expired message');
+  });
+
+  test('keeps skipped keys across a reload of the vault', async () => {
+    const first = await send(alice, bob, 'one');
+    expect(await receive(bob, alice, await send(alice, bob, 'two'))).toBe('two');
+
+    await bob.ratchetService.load();
+    expect(await receive(bob, alice, first)).toBe('one');
+  });
+
+  test('follows a contact who starts the session over and refuses the old session afterwards', async () => {
+    const old = await send(alice, bob, 'before');
+    expect(await receive(bob, alice, old)).toBe('before');
+    expect(await receive(alice, bob, await send(bob, alice, 'reply'))).toBe('reply');
+    expect(await receive(bob, alice, await send(alice, bob, 'again'))).toBe('again');
+
+    // Alice loses her session, as when restoring a backup without sessions
+    await alice.ratchetService.reset('bob');
+    expect(await receive(bob, alice, await send(alice, bob, 'fresh start'))).toBe('fresh start');
+    expect(await receive(alice, bob, await send(bob, alice, 'welcome back'))).toBe('welcome back');
+
+    // The old session is kept for messages still in flight, but a replay does not get through it
+    await expect(receive(bob, alice, old)).rejects.toThrow();
+    expect(await receive(bob, alice, await send(alice, bob, 'still here'))).toBe('still here');
+  });
+
+  test('carries a fresh ephemeral key in opening messages until the first answer', async () => {
+    const header = async (envelope: string) => JSON.parse(envelope).header;
+    const opening = await send(alice, bob, 'one');
+    const again = await send(alice, bob, 'two');
+    expect((await header(opening)).ek).toEqual(expect.any(String));
+    expect((await header(again)).ek).toBe((await header(opening)).ek);
+    expect(await receive(bob, alice, opening)).toBe('one');
+
+    const reply = await send(bob, alice, 'reply');
+    expect((await header(reply)).ek).toBeUndefined();
+    expect(await receive(alice, bob, reply)).toBe('reply');
+    expect((await header(await send(alice, bob, 'answered'))).ek).toBeUndefined();
+
+    // A new session never starts from the same root as the last one
+    await alice.ratchetService.reset('bob');
+    const reopened = await send(alice, bob, 'one');
+    expect((await header(reopened)).ek).not.toBe((await header(opening)).ek);
+    expect(JSON.parse(reopened).ciphertext).not.toBe(JSON.parse(opening).ciphertext);
+  });
+
+  test('settles on one session when both sides open at once', async () => {
+    const fromAlice = await send(alice, bob, 'hi bob');
+    const fromBob = await send(bob, alice, 'hi alice');
+    expect(await receive(bob, alice, fromAlice)).toBe('hi bob');
+    expect(await receive(alice, bob, fromBob)).toBe('hi alice');
+
+    for (let round = 0; round < 2; round++) {
+      expect(await receive(bob, alice, await send(alice, bob, `ping ${round}`))).toBe(`ping ${round}`);
+      expect(await receive(alice, bob, await send(bob, alice, `pong ${round}`))).toBe(`pong ${round}`);
+    }
+    // The winner still sends under the session it opened, the other side under the one it accepted
+    const sid = async (envelope: string) => JSON.parse(envelope).header.sid;
+    const aliceKept = await sid(await send(alice, bob, 'which')) === await sid(fromAlice);
+    const bobKept = await sid(await send(bob, alice, 'which')) === await sid(fromBob);
+    expect(aliceKept).not.toBe(bobKept);
+  });
+
+  test('refuses a message from a session it never saw opened', async () => {
+    const envelope = JSON.parse(await send(alice, bob, 'opening'));
+    delete envelope.header.ek;
+    await expect(receive(bob, alice, JSON.stringify(envelope))).rejects.toThrow('Message from an unknown session');
+  });
+});
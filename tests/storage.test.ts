@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+
+type Storage = typeof import('../services/storage');
+
+describe('vault without a passphrase', () => {
+  let storage: Storage;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    storage = await import('../services/storage');
+  });
+
+  test('opens with its device key alone', async () => {
+    const { storageService } = storage;
+    await storageService.createVault(null);
+    await storageService.put('settings', 'note', 'kept');
+    storageService.lock();
+
+    expect(await storageService.hasVault()).toBe(true);
+    expect(await storageService.usesDeviceKey()).toBe(true);
+    await storageService.unlock(null);
+    expect(await storageService.get('settings', 'note')).toBe('kept');
+    await expect(storageService.unlock('any passphrase')).rejects.toThrow('No vault on this device');
+  });
+
+  test('gives up the device key once a passphrase is set', async () => {
+    const { storageService } = storage;
+    await storageService.createVault(null);
+    await storageService.put('settings', 'note', 'kept');
+    await storageService.changePassphrase(null, 'a real passphrase');
+    storageService.lock();
+
+    expect(await storageService.usesDeviceKey()).toBe(false);
+    await expect(storageService.unlock(null)).rejects.toThrow('This vault is protected by a passphrase');
+    await storageService.unlock('a real passphrase');
+    expect(await storageService.get('settings', 'note')).toBe('kept');
+  });
+
+  test('moves a vault sealed under a stored random passphrase to a device key', async () => {
+    const { storageService } = storage;
+    await storageService.createVault('random stored passphrase');
+    await storageService.put('settings', 'note', 'kept');
+    await storageService.moveToDeviceKey('random stored passphrase');
+    storageService.lock();
+
+    await expect(storageService.unlock('random stored passphrase')).rejects.toThrow('No vault on this device');
+    await storageService.unlock(null);
+    expect(await storageService.get('settings', 'note')).toBe('kept');
+  });
+});
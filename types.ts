@@ -7,6 +7,7 @@ export interface UserProfile {
   avatarSeed?: string;
   avatarData?: string; // Base64 encoded image data
   createdAt: number;
+  updatedAt?: number; // Last edit of the display name, bio or avatar
 }
 
 export interface Message {
@@ -15,17 +16,222 @@ export interface Message {
   recipient: string;
   content: string; // Encrypted string
   timestamp: number;
-  status: 'sent' | 'delivered' | 'read';
-  type: 'text' | 'system';
+  status: 'pending' | 'failed' | 'sent' | 'delivered' | 'read';
+  type: 'text' | 'system' | 'image' | 'file' | 'voice' | 'mutation'; // Mutations change an earlier message (see mutations.ts)
   isEphemeral?: boolean;
+  expiresIn?: number; // Disappearing-message timer in ms, chosen by the sender
+  expiresAt?: number; // Local deadline, set when the message is stored
+  receivedAt?: number; // Local arrival time of someone else's message; the edit window counts from it
+  groupId?: string; // Group messages: stored with the group id as recipient, sent with each member's
+  senderDevice?: string; // Set on arrival from the connection it came over
+  recipientDevice?: string; // Which of the recipient's devices this copy is for
+  syncFor?: string; // Copy of our own sent message for a sibling device: the conversation it belongs to
+  replyTo?: string; // Id of the message this one quotes
+  editedAt?: number; // When the author last edited it
+  deleted?: boolean; // Deleted for everyone; only this placeholder is kept
+  reactions?: Record<string, string>; // username -> emoji
+}
+
+export type MessageStatus = Message['status'];
+
+export interface Group {
+  id: string; // 'group:' prefix keeps it apart from usernames
+  name: string;
+  avatarSeed: string;
+  admin: string; // Creator; the only member who can add or remove others
+  members: string[]; // Includes the admin
+  epoch: number; // Bumped on every membership change; sender keys are per epoch
+  createdAt: number;
+  left?: boolean; // We left or were removed; kept for its history
+}
+
+export interface SenderKeyState {
+  groupId: string;
+  epoch: number;
+  member: string; // Device address of the member whose chain this is
+  chainKey: string;
+  signingKey: string; // Ed25519 public key that signs every message on this chain
+  signingPrivateKey?: string; // PKCS#8, only for our own chains
+  iteration: number;
+  skippedKeys: Record<number, string>; // iteration -> message key
+}
+
+export interface DeviceInfo {
+  id: string; // 'primary' for the original install, which keeps the bare-username peer id
+  name: string;
+  linkedAt: number;
+}
+
+export interface DeviceList {
+  username: string;
+  devices: DeviceInfo[];
+  revoked?: string[]; // Ids of devices removed from the account; they may never return
+  updatedAt: number;
+  signature: string; // By the account's identity signing key, which every device shares
+}
+
+export type AttachmentKind = 'image' | 'file' | 'voice';
+
+// Plaintext of an attachment message; the file itself travels separately in encrypted chunks
+export interface AttachmentDescriptor {
+  fileId: string; // Same as the message id
+  name: string;
+  mime: string;
+  size: number;
+  sha256: string; // Hex digest of the plaintext file
+  key: string; // Base64 AES-GCM key, unique to this file
+  iv: string; // Base64 8-byte IV prefix; the chunk index fills the last 4 bytes
+  chunkSize: number;
+  chunkCount: number;
+  duration?: number; // Voice notes, in seconds
+}
+
+export interface TransferProgress {
+  fileId: string;
+  done: number; // Chunks stored
+  total: number;
+  state: 'transferring' | 'complete' | 'failed';
+  error?: string;
+}
+
+export interface OutboxEntry {
+  message: Message;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  awaitingAck: boolean; // Transmitted; kept until the recipient acknowledges delivery
+}
+
+export interface Preferences {
+  readReceipts: boolean; // Send read receipts when we view messages
+  autoLockAfter: number | null; // Lock after this long without interaction (ms); null never
+  lockOnBackground: boolean; // Lock as soon as the app is hidden
+  notifications: boolean; // Notify about messages and calls while the app is hidden
+  notificationPreview: 'full' | 'sender' | 'hidden'; // What a notification reveals
+}
+
+export interface Conversation {
+  peer: string;
+  lastMessageId: string | null;
+  lastSender: string | null;
+  lastPreview: string;
+  lastTimestamp: number;
+  unreadCount: number;
+  pinned: boolean;
+  archived: boolean;
+  disappearingAfter?: number | null; // Agreed timer for new messages; unset or null means off
+}
+
+export interface Contact {
+  username: string;
+  saved: boolean; // In the contact book; unsaved entries only exist to hold a block
+  blocked: boolean;
+  nickname?: string; // Private to us; shown instead of their display name
+  notes?: string;
+  addedAt: number;
+}
+
+export interface IdentityKeyPair {
+  publicKey: string; // Base64 raw X25519 public key
+  privateKey: string; // Base64 PKCS#8 X25519 private key
+}
+
+export interface IdentityKeys extends IdentityKeyPair {
+  signingPublicKey: string; // Base64 raw Ed25519 public key
+  signingPrivateKey: string; // Base64 PKCS#8 Ed25519 private key
+}
+
+export interface TrustedIdentity {
+  username: string;
+  publicKey: string;
+  signingKey: string;
+  firstSeen: number;
+  verified: boolean;
+  pendingPublicKey?: string; // Announced keys that differ from the pinned ones
+  pendingSigningKey?: string;
+}
+
+export interface RatchetHeader {
+  dh: string; // Sender's current ratchet public key
+  pn: number; // Length of the sender's previous sending chain
+  n: number; // Message number in the current sending chain
+  sid?: string; // Sender's session id; a new one means the sender started the session over
+  ek?: string; // Ephemeral key the sender opened the session with, until the recipient first answers
+}
+
+export interface EncryptedEnvelope {
+  v: number; // Envelope format version
+  kid: string; // Fingerprint of the sender's identity key
+  nonce: string; // Base64 AES-GCM IV
+  ciphertext: string; // Base64 AES-GCM ciphertext + tag
+  header?: RatchetHeader; // Present from v2 (double ratchet) on
+}
+
+export interface RatchetSession {
+  id: string; // Ours, sent with every message
+  remoteId: string | null; // The contact's, once a message from it has been read
+  openingKey: string | null; // Our ephemeral public key while a session we opened is unanswered
+  peerIdentityKey: string;
+  rootKey: string;
+  sendingChainKey: string | null;
+  receivingChainKey: string | null;
+  dhSelf: IdentityKeyPair | null; // null while still on the identity key
+  dhRemote: string;
+  sendCount: number;
+  receiveCount: number;
+  previousCount: number;
+  skippedKeys: Record<string, SkippedKey>; // `${dh}:${n}` -> message key
+}
+
+export interface SkippedKey {
+  key: string;
+  at: number; // When it was skipped; old keys are dropped
 }
 
 export interface CallState {
   isActive: boolean;
   type: 'audio' | 'video' | null;
   remoteParticipant: string | null;
-  startTime: number | null;
+  startTime: number | null; // Set once media is flowing
   status: 'dialing' | 'connecting' | 'connected' | 'ended';
+  direction: 'incoming' | 'outgoing' | null;
+  muted: boolean;
+  cameraOff: boolean;
+  stats: NetworkStats | null; // Latest sample while connected
+  audioOnly: boolean; // Outgoing video paused because quality is Poor
+  ringing: boolean; // Outgoing: one of the callee's devices is ringing
+  endReason?: string;
+}
+
+export interface IceServerConfig {
+  urls: string;
+  username?: string;
+  credential?: string;
+}
+
+export interface NetworkConfig {
+  host: string;
+  port: number;
+  path: string;
+  key: string;
+  secure: boolean;
+  idPrefix: string; // Namespaces our peer ids on a shared signaling server
+  iceServers: IceServerConfig[];
+}
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'offline' | 'failed';
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  attempt: number; // Reconnect attempts since the last successful open
+  nextRetryAt: number | null;
+  error: string | null;
+}
+
+export interface Presence {
+  username: string;
+  online: boolean;
+  lastSeen: number | null;
 }
 
 export interface NetworkStats {
@@ -37,9 +243,12 @@ export interface NetworkStats {
 
 export enum AppScreen {
   ONBOARDING = 'ONBOARDING',
+  UNLOCK = 'UNLOCK',
   CHAT_LIST = 'CHAT_LIST',
   CHAT_DETAIL = 'CHAT_DETAIL',
   CALL = 'CALL',
   SETTINGS = 'SETTINGS',
-  EDIT_PROFILE = 'EDIT_PROFILE'
+  EDIT_PROFILE = 'EDIT_PROFILE',
+  CONTACTS = 'CONTACTS',
+  SAFETY_NUMBER = 'SAFETY_NUMBER'
 }
@@ -1,7 +1,27 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits the service worker with this build's version and the list of files to cache for offline use
+const serviceWorker = (): Plugin => ({
+  name: 'whisperline-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).sort();
+    const hash = createHash('sha256');
+    for (const file of files) {
+      const output = bundle[file];
+      hash.update(file).update(output.type === 'chunk' ? output.code : output.source);
+    }
+    const build = { version: hash.digest('hex').slice(0, 12), assets: files.filter(file => file !== 'index.html') };
+    const source = readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8');
+    this.emitFile({ type: 'asset', fileName: 'service-worker.js', source: `self.__WHISPERLINE_BUILD__ = ${JSON.stringify(build)};\n${source}` });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +29,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)